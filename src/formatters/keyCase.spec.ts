@@ -0,0 +1,120 @@
+import { describe, expect, it } from 'vitest';
+import { convertKey, convertKeys, KeyCase } from './keyCase.js';
+import { JSONType } from '../types.js';
+
+describe('convertKey()', () => {
+  const styles = [
+    KeyCase.CAMEL,
+    KeyCase.PASCAL,
+    KeyCase.SNAKE,
+    KeyCase.SCREAMING_SNAKE,
+    KeyCase.KEBAB,
+  ];
+
+  [
+    ['userId', ['userId', 'UserId', 'user_id', 'USER_ID', 'user-id']],
+    ['UserID', ['userId', 'UserId', 'user_id', 'USER_ID', 'user-id']],
+    ['user_id', ['userId', 'UserId', 'user_id', 'USER_ID', 'user-id']],
+    ['USER_ID', ['userId', 'UserId', 'user_id', 'USER_ID', 'user-id']],
+    ['user-id', ['userId', 'UserId', 'user_id', 'USER_ID', 'user-id']],
+    ['user id', ['userId', 'UserId', 'user_id', 'USER_ID', 'user-id']],
+    [
+      'getHTTPResponse',
+      [
+        'getHttpResponse',
+        'GetHttpResponse',
+        'get_http_response',
+        'GET_HTTP_RESPONSE',
+        'get-http-response',
+      ],
+    ],
+    ['line_1', ['line1', 'Line1', 'line_1', 'LINE_1', 'line-1']],
+    ['name', ['name', 'Name', 'name', 'NAME', 'name']],
+    ['', ['', '', '', '', '']],
+  ].forEach(([key, expected]) => {
+    it(`should convert "${key as string}" to every style`, () => {
+      expect(
+        styles.map((style) => convertKey(key as string, style)),
+      ).toStrictEqual(expected);
+    });
+  });
+
+  it('should keep separators at either end of the key', () => {
+    expect(convertKey('_id', KeyCase.PASCAL)).toBe('_Id');
+    expect(convertKey('__typeName', KeyCase.SNAKE)).toBe('__type_name');
+    expect(convertKey('private_field_', KeyCase.CAMEL)).toBe('privateField_');
+    expect(convertKey('--', KeyCase.CAMEL)).toBe('--');
+  });
+});
+
+describe('convertKeys()', () => {
+  it('should convert keys at every depth, including inside arrays', () => {
+    expect(
+      convertKeys(
+        {
+          user_id: 1,
+          home_address: { street_name: 'Main', zip_code: null },
+          order_lines: [{ unit_price: 2 }, 'plain_string', [{ line_no: 1 }]],
+        },
+        KeyCase.CAMEL,
+      ),
+    ).toStrictEqual({
+      userId: 1,
+      homeAddress: { streetName: 'Main', zipCode: null },
+      orderLines: [{ unitPrice: 2 }, 'plain_string', [{ lineNo: 1 }]],
+    });
+  });
+
+  it('should keep excepted keys, but convert the values under them', () => {
+    expect(
+      convertKeys(
+        { _id: 1, raw_data: { some_key: 1 } },
+        KeyCase.PASCAL,
+        new Set(['_id', 'raw_data']),
+      ),
+    ).toStrictEqual({ _id: 1, raw_data: { SomeKey: 1 } });
+  });
+
+  it('should pass values without keys through', () => {
+    [undefined, null, 1, 'some_key', true].forEach((value) => {
+      expect(convertKeys(value, KeyCase.CAMEL)).toBe(value);
+    });
+  });
+
+  it('should throw when two keys of an object convert to the same key', () => {
+    expect(() =>
+      convertKeys({ a: { user_id: 1, userId: 2 } }, KeyCase.CAMEL),
+    ).toThrow("Keys 'user_id' and 'userId' both convert to 'userId'");
+    expect(() =>
+      convertKeys([{ _id: 1, Id: 2 }], KeyCase.CAMEL, new Set(['_id'])),
+    ).not.toThrow();
+  });
+
+  it('should convert values of any depth', () => {
+    let value: JSONType = { leaf_key: 1 };
+    for (let depth = 0; depth < 20000; depth++) {
+      value = depth % 2 === 0 ? [value] : { some_key: value };
+    }
+
+    let result = convertKeys(value, KeyCase.CAMEL);
+    for (let depth = 20000 - 1; depth >= 0; depth--) {
+      result =
+        depth % 2 === 0
+          ? (result as JSONType[])[0]
+          : (result as { someKey: JSONType }).someKey;
+    }
+
+    expect(result).toStrictEqual({ leafKey: 1 });
+  });
+
+  it('should not modify the value', () => {
+    const value = { some_key: { other_key: [1] } };
+
+    const result = convertKeys(value, KeyCase.CAMEL) as {
+      someKey: { otherKey: number[] };
+    };
+    result.someKey.otherKey.push(2);
+
+    expect(value).toStrictEqual({ some_key: { other_key: [1] } });
+  });
+});
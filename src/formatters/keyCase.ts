@@ -0,0 +1,168 @@
+import { JSONObject, JSONType } from '../types.js';
+
+export enum KeyCase {
+  CAMEL = 'camel', // camelCase
+  PASCAL = 'pascal', // PascalCase
+  SNAKE = 'snake', // snake_case
+  SCREAMING_SNAKE = 'screamingSnake', // SCREAMING_SNAKE_CASE
+  KEBAB = 'kebab', // kebab-case
+}
+
+// separators at either end are not word breaks, they are part of the key, like the "_" in "_id"
+const KEY_PARTS_PATTERN = /^([_-]*)(.*?)([_-]*)$/s;
+
+// "_", "-" and spaces, a lower case letter or digit followed by an upper case one, and the last letter of an acronym
+const WORD_BREAK_PATTERN =
+  /[_\-\s]+|(?<=[a-z\d])(?=[A-Z])|(?<=[A-Z])(?=[A-Z][a-z])/;
+
+function _capitalize(word: string): string {
+  return word.charAt(0).toUpperCase() + word.slice(1);
+}
+
+/**
+ * Converts a key from any of the case styles to caseStyle, for example
+ * "userId", "UserID" and "user-id" all become "user_id" in snake case.
+ */
+export function convertKey(key: string, caseStyle: KeyCase): string {
+  const [, prefix, body, suffix] = KEY_PARTS_PATTERN.exec(key) as string[];
+
+  const words = body
+    .split(WORD_BREAK_PATTERN)
+    .filter((word) => word !== '')
+    .map((word) => word.toLowerCase());
+
+  let converted: string;
+
+  switch (caseStyle) {
+    case KeyCase.CAMEL:
+      converted = words
+        .map((word, index) => (index === 0 ? word : _capitalize(word)))
+        .join('');
+      break;
+
+    case KeyCase.PASCAL:
+      converted = words.map(_capitalize).join('');
+      break;
+
+    case KeyCase.SNAKE:
+      converted = words.join('_');
+      break;
+
+    case KeyCase.SCREAMING_SNAKE:
+      converted = words.join('_').toUpperCase();
+      break;
+
+    case KeyCase.KEBAB:
+      converted = words.join('-');
+      break;
+  }
+
+  return `${prefix}${converted}${suffix}`;
+}
+
+type Container = JSONObject | JSONType[];
+
+interface Conversion {
+  source: Container;
+  target: Container;
+}
+
+// an empty copy of objects and arrays, anything else is copied as it is
+function _shell(value: JSONType): JSONType {
+  if (Array.isArray(value)) {
+    return [];
+  }
+
+  if (value === null || typeof value !== 'object') {
+    return value;
+  }
+
+  return {};
+}
+
+function _convertItems(source: JSONType[], target: JSONType[]): Conversion[] {
+  const children: Conversion[] = [];
+
+  source.forEach((item) => {
+    const copy = _shell(item);
+
+    target.push(copy);
+
+    if (copy !== item) {
+      children.push({ source: item as Container, target: copy as Container });
+    }
+  });
+
+  return children;
+}
+
+function _convertEntries(
+  source: JSONObject,
+  target: JSONObject,
+  caseStyle: KeyCase,
+  except: ReadonlySet<string>,
+): Conversion[] {
+  const children: Conversion[] = [];
+  const sourceKeys = new Map<string, string>();
+
+  Object.entries(source).forEach(([key, item]) => {
+    const convertedKey = except.has(key) ? key : convertKey(key, caseStyle);
+    const otherKey = sourceKeys.get(convertedKey);
+
+    // one of the values would be lost without a trace
+    if (otherKey !== undefined) {
+      throw new Error(
+        `Keys '${otherKey}' and '${key}' both convert to '${convertedKey}'`,
+      );
+    }
+
+    const copy = _shell(item);
+
+    sourceKeys.set(convertedKey, key);
+    target[convertedKey] = copy;
+
+    if (copy !== item) {
+      children.push({ source: item as Container, target: copy as Container });
+    }
+  });
+
+  return children;
+}
+
+/**
+ * Converts every object key in value, at any depth, to caseStyle. Keys in
+ * except are kept as they are, but the values under them are still converted.
+ *
+ * The conversion uses a stack instead of recursion because the depth of the
+ * value is unknown.
+ *
+ * @returns A copy of value, value itself is not modified.
+ * @throws If two keys of the same object convert to the same key.
+ */
+export function convertKeys(
+  value: JSONType,
+  caseStyle: KeyCase,
+  except: ReadonlySet<string> = new Set(),
+): JSONType {
+  const result = _shell(value);
+
+  if (result === value) {
+    return value;
+  }
+
+  const stack: Conversion[] = [
+    { source: value as Container, target: result as Container },
+  ];
+
+  while (stack.length > 0) {
+    const { source, target } = stack.pop() as Conversion;
+
+    const children = Array.isArray(source)
+      ? _convertItems(source, target as JSONType[])
+      : _convertEntries(source, target as JSONObject, caseStyle, except);
+
+    stack.push(...children);
+  }
+
+  return result;
+}
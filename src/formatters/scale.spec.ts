@@ -0,0 +1,103 @@
+import { describe, expect, it } from 'vitest';
+import {
+  round,
+  RoundingMode,
+  scale,
+  unitFactor,
+  UnitNames,
+  unscale,
+} from './scale.js';
+
+describe('scale()', () => {
+  it('should move the decimal point exactly for powers of ten', () => {
+    expect(scale(19.99, 100)).toBe(1999);
+    expect(scale(0.07, 100)).toBe(7);
+    expect(scale(1.005, 1000)).toBe(1005);
+    expect(scale(1999, 0.01)).toBe(19.99);
+    expect(scale(-4.35, 100)).toBe(-435);
+    expect(scale(0, 1e6)).toBe(0);
+  });
+
+  it('should multiply by other factors', () => {
+    expect(scale(2, 3600)).toBe(7200);
+    expect(scale(1, 0.45359237)).toBe(0.45359237);
+  });
+});
+
+describe('unscale()', () => {
+  it('should undo scale()', () => {
+    expect(unscale(1999, 100)).toBe(19.99);
+    expect(unscale(7, 100)).toBe(0.07);
+    expect(unscale(19.99, 0.01)).toBe(1999);
+    expect(unscale(7200, 3600)).toBe(2);
+  });
+});
+
+describe('unitFactor()', () => {
+  it('should convert between units that measure the same thing', () => {
+    expect(unitFactor('kg', 'g')).toBe(1000);
+    expect(unitFactor('ms', 's')).toBe(0.001);
+    expect(unitFactor('mg', 'kg')).toBe(0.000001);
+    expect(unitFactor('h', 'min')).toBe(60);
+    expect(unitFactor('lb', 'kg')).toBe(0.45359237);
+    expect(unitFactor('percent', 'bps')).toBe(100);
+    expect(unitFactor('m', 'm')).toBe(1);
+  });
+
+  it('should know every unit', () => {
+    UnitNames.forEach((unit) => {
+      expect(unitFactor(unit, unit)).toBe(1);
+    });
+  });
+
+  it('should throw on unknown units', () => {
+    ['parsec', 'toString', ''].forEach((unit) => {
+      expect(() => unitFactor('m', unit)).toThrow(
+        `Unknown unit '${unit}', expected one of ns, us, ms`,
+      );
+    });
+  });
+
+  it('should throw on units that measure different things', () => {
+    expect(() => unitFactor('kg', 's')).toThrow(
+      "Can not convert between 'kg' (mass) and 's' (time)",
+    );
+  });
+});
+
+describe('round()', () => {
+  const values = [2.5, 1.5, 1.24, 1.6, -1.5, -2.5, -1.26, 3];
+
+  [
+    [RoundingMode.UP, [3, 2, 2, 2, -2, -3, -2, 3]],
+    [RoundingMode.DOWN, [2, 1, 1, 1, -1, -2, -1, 3]],
+    [RoundingMode.CEILING, [3, 2, 2, 2, -1, -2, -1, 3]],
+    [RoundingMode.FLOOR, [2, 1, 1, 1, -2, -3, -2, 3]],
+    [RoundingMode.HALF_UP, [3, 2, 1, 2, -2, -3, -1, 3]],
+    [RoundingMode.HALF_DOWN, [2, 1, 1, 2, -1, -2, -1, 3]],
+    [RoundingMode.HALF_EVEN, [2, 2, 1, 2, -2, -2, -1, 3]],
+  ].forEach(([mode, expected]) => {
+    it(`should round to integers with ${mode as string}`, () => {
+      expect(
+        values.map((value) => round(value, 0, mode as RoundingMode)),
+      ).toStrictEqual(expected);
+    });
+  });
+
+  it('should round to decimal places without floating point errors', () => {
+    expect(round(1.005, 2, RoundingMode.HALF_UP)).toBe(1.01);
+    expect(round(1.045, 2, RoundingMode.HALF_EVEN)).toBe(1.04);
+    expect(round(0.1 + 0.2, 2, RoundingMode.HALF_UP)).toBe(0.3);
+    expect(round(19.999, 2, RoundingMode.DOWN)).toBe(19.99);
+  });
+
+  it('should round to tens and above with negative precision', () => {
+    expect(round(1250, -2, RoundingMode.HALF_EVEN)).toBe(1200);
+    expect(round(1251, -2, RoundingMode.HALF_EVEN)).toBe(1300);
+  });
+
+  it('should not produce negative zero', () => {
+    expect(Object.is(round(-0.4, 0, RoundingMode.HALF_UP), 0)).toBe(true);
+    expect(Object.is(round(-0.4, 0, RoundingMode.CEILING), 0)).toBe(true);
+  });
+});
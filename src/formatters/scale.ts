@@ -0,0 +1,162 @@
+export enum RoundingMode {
+  UP = 'up', // away from zero
+  DOWN = 'down', // toward zero
+  CEILING = 'ceiling', // toward positive infinity
+  FLOOR = 'floor', // toward negative infinity
+  HALF_UP = 'halfUp', // to nearest, ties away from zero
+  HALF_DOWN = 'halfDown', // to nearest, ties toward zero
+  HALF_EVEN = 'halfEven', // to nearest, ties to the even neighbour
+}
+
+/**
+ * Named units, grouped by what they measure, each with its size in the base
+ * unit of its group.
+ */
+const Units: Record<string, { measure: string; size: number }> = {
+  ns: { measure: 'time', size: 1e-9 },
+  us: { measure: 'time', size: 1e-6 },
+  ms: { measure: 'time', size: 1e-3 },
+  s: { measure: 'time', size: 1 },
+  min: { measure: 'time', size: 60 },
+  h: { measure: 'time', size: 3600 },
+  d: { measure: 'time', size: 86400 },
+
+  mg: { measure: 'mass', size: 1e-3 },
+  g: { measure: 'mass', size: 1 },
+  kg: { measure: 'mass', size: 1e3 },
+  t: { measure: 'mass', size: 1e6 },
+  oz: { measure: 'mass', size: 28.349523125 },
+  lb: { measure: 'mass', size: 453.59237 },
+
+  mm: { measure: 'length', size: 1e-3 },
+  cm: { measure: 'length', size: 1e-2 },
+  m: { measure: 'length', size: 1 },
+  km: { measure: 'length', size: 1e3 },
+  in: { measure: 'length', size: 0.0254 },
+  ft: { measure: 'length', size: 0.3048 },
+  mi: { measure: 'length', size: 1609.344 },
+
+  bps: { measure: 'ratio', size: 1e-4 },
+  percent: { measure: 'ratio', size: 1e-2 },
+  ratio: { measure: 'ratio', size: 1 },
+};
+
+export const UnitNames = Object.keys(Units);
+
+/**
+ * Moves the decimal point of value by places, in its decimal representation
+ * rather than by multiplying, so 19.99 becomes exactly 1999 and not
+ * 1998.9999999999998.
+ */
+function shiftDecimal(value: number, places: number): number {
+  const [mantissa, exponent] = value.toExponential().split('e');
+
+  return Number(`${mantissa}e${Number(exponent) + places}`);
+}
+
+/**
+ * The number of places to move the decimal point for factor, or undefined if
+ * factor is not a power of ten.
+ */
+function powerOfTen(factor: number): number | undefined {
+  const places = Math.round(Math.log10(factor));
+
+  return Number(`1e${places}`) === factor ? places : undefined;
+}
+
+/**
+ * The factor that converts a value in one named unit to another, for example
+ * 1000 from 'kg' to 'g'.
+ *
+ * @throws {Error} If either unit is unknown, or they do not measure the same thing.
+ */
+export function unitFactor(from: string, to: string): number {
+  [from, to].forEach((unit) => {
+    if (!Object.hasOwn(Units, unit)) {
+      throw new Error(
+        `Unknown unit '${unit}', expected one of ${UnitNames.join(', ')}`,
+      );
+    }
+  });
+
+  if (Units[from].measure !== Units[to].measure) {
+    throw new Error(
+      `Can not convert between '${from}' (${Units[from].measure}) and '${to}' (${Units[to].measure})`,
+    );
+  }
+
+  // dividing sizes leaves floating point noise on factors like 1e-3 / 1e3, drop it
+  return Number((Units[from].size / Units[to].size).toPrecision(15));
+}
+
+/**
+ * Multiplies value by factor. Powers of ten move the decimal point instead, so
+ * they are exact.
+ */
+export function scale(value: number, factor: number): number {
+  const places = powerOfTen(factor);
+
+  return places === undefined ? value * factor : shiftDecimal(value, places);
+}
+
+/**
+ * Divides value by factor, the inverse of scale().
+ */
+export function unscale(value: number, factor: number): number {
+  const places = powerOfTen(factor);
+
+  return places === undefined ? value / factor : shiftDecimal(value, -places);
+}
+
+/**
+ * Rounds value to precision decimal places, negative precision rounds to tens,
+ * hundreds and so on.
+ */
+export function round(
+  value: number,
+  precision: number,
+  mode: RoundingMode,
+): number {
+  const shifted = shiftDecimal(value, precision);
+  const magnitude = Math.abs(shifted);
+  const lower = Math.floor(magnitude);
+  const fraction = magnitude - lower;
+
+  let rounded: number;
+
+  switch (mode) {
+    case RoundingMode.UP:
+      rounded = Math.ceil(magnitude);
+      break;
+
+    case RoundingMode.DOWN:
+      rounded = lower;
+      break;
+
+    case RoundingMode.CEILING:
+      rounded = shifted < 0 ? lower : Math.ceil(magnitude);
+      break;
+
+    case RoundingMode.FLOOR:
+      rounded = shifted < 0 ? Math.ceil(magnitude) : lower;
+      break;
+
+    case RoundingMode.HALF_UP:
+      rounded = fraction >= 0.5 ? lower + 1 : lower;
+      break;
+
+    case RoundingMode.HALF_DOWN:
+      rounded = fraction > 0.5 ? lower + 1 : lower;
+      break;
+
+    case RoundingMode.HALF_EVEN:
+      rounded =
+        fraction > 0.5 || (fraction === 0.5 && lower % 2 === 1)
+          ? lower + 1
+          : lower;
+      break;
+  }
+
+  // the sign is put back last so every mode works on the magnitude, and -0 does not come out
+  return shiftDecimal(shifted < 0 ? -rounded : rounded, -precision) || 0;
+}
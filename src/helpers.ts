@@ -90,6 +90,17 @@ function _isZodLazyObject(schema: ZodTypeAny): boolean {
   return _isZodObject(unwrappedSchema);
 }
 
+/**
+ * Determines whether the provided value is a plain object, not null or an
+ * array.
+ *
+ * @param {unknown} value - The value to check.
+ * @return {boolean} True if the value is an object, otherwise false.
+ */
+export function _isObject(value: unknown): value is JSONObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
 /**
  * Determines whether the provided value is a primitive type.
  *
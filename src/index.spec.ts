@@ -4,6 +4,7 @@ import * as Types from './types.scoped.js';
 import * as Schema from './schema.js';
 import * as Mapping from './mapping.js';
 import * as JSON from './json.js';
+import * as Path from './path.js';
 
 describe('index.ts', () => {
   it('should export Types module', () => {
@@ -30,6 +31,12 @@ describe('index.ts', () => {
     expect(Index.JSON).toEqual(JSON);
   });
 
+  it('should export Path module', () => {
+    expect(Index.Path).toBeDefined();
+    // Verify that it's the same module we're importing directly
+    expect(Index.Path).toEqual(Path);
+  });
+
   // Note: We don't test for specific types from the Types module
   // because TypeScript types are erased at runtime.
   // The TypeScript compiler will check these types during development and build.
@@ -74,4 +81,18 @@ describe('index.ts', () => {
     expect(Index.JSON.stringify).toBeDefined();
     expect(typeof Index.JSON.stringify).toBe('function');
   });
+
+  it('should export specific functions from Path module', () => {
+    expect(Index.Path.parse).toBeDefined();
+    expect(typeof Index.Path.parse).toBe('function');
+
+    expect(Index.Path.stringify).toBeDefined();
+    expect(typeof Index.Path.stringify).toBe('function');
+
+    expect(Index.Path.get).toBeDefined();
+    expect(typeof Index.Path.get).toBe('function');
+
+    expect(Index.Path.set).toBeDefined();
+    expect(typeof Index.Path.set).toBe('function');
+  });
 });
@@ -2,3 +2,4 @@ export * as Types from './types.scoped.js';
 export * as Schema from './schema.js';
 export * as Mapping from './mapping.js';
 export * as JSON from './json.js';
+export * as Path from './path.js';
@@ -1,4 +1,89 @@
+import { describe, expect, it, vi } from 'vitest';
+import { z } from 'zod';
 import { createTests } from '../test/harness/mapping.harness.js';
 import { Mapping } from './index.js';
+import { compile } from './mapping/compile.js';
+import { generateFunctions } from './mapping/codegen.js';
+
+vi.mock('./mapping/codegen.js', async (importOriginal) => {
+  const codegen = await importOriginal<typeof import('./mapping/codegen.js')>();
+
+  return { ...codegen, generateFunctions: vi.fn(codegen.generateFunctions) };
+});
 
 createTests(Mapping);
+
+describe('Plan constructor', () => {
+  const LeftSchema = z.object({ id: z.number() });
+  const AnySchema = z.object({}).catchall(z.any());
+
+  it('should map with a compiled plan and its schemas', () => {
+    const plan = new Mapping.Plan(
+      compile([{ left: 'id', right: 'userId' }]),
+      LeftSchema,
+      AnySchema,
+    );
+
+    expect(plan.map({ id: 7 })).toStrictEqual({ userId: 7 });
+    expect(plan.reverseMap({ userId: 7 })).toStrictEqual({ id: 7 });
+  });
+
+  it('should only invert and serialize plans constructed with their rules', () => {
+    const plan = new Mapping.Plan(
+      compile([{ left: 'id', right: 'userId' }]),
+      LeftSchema,
+      AnySchema,
+    );
+
+    expect(() => plan.invert()).toThrow(
+      'Plans constructed without their rules can not be inverted',
+    );
+    expect(() => plan.toJSON()).toThrow(
+      'Plans constructed without their rules can not be serialized',
+    );
+
+    // without rules to merge, composed plans run one after the other
+    const composed = Mapping.compose(
+      plan,
+      Mapping.compilePlan({
+        rules: [{ left: 'userId', right: 'key' }],
+        leftSchema: AnySchema,
+        rightSchema: z.object({ key: z.number() }),
+      }),
+    );
+
+    expect(composed.map({ id: 7 })).toStrictEqual({ key: 7 });
+    expect(() => composed.toJSON()).toThrow(
+      'Composed plans that could not be merged can not be serialized',
+    );
+  });
+});
+
+describe('compose()', () => {
+  const UserSchema = z.object({ id: z.number() });
+  const AccountSchema = z.object({ userId: z.number() });
+  const KeySchema = z.object({ key: z.number() });
+
+  it('should map merged plans with generated code if either plan was compiled with it', () => {
+    const merged = Mapping.compose(
+      Mapping.compilePlan({
+        rules: [{ left: 'id', right: 'userId' }],
+        leftSchema: UserSchema,
+        rightSchema: AccountSchema,
+        codegen: true,
+      }),
+      Mapping.compilePlan({
+        rules: [{ left: 'userId', right: 'key' }],
+        leftSchema: AccountSchema,
+        rightSchema: KeySchema,
+      }),
+    );
+
+    const generated = vi.mocked(generateFunctions).mock.results.at(-1)
+      ?.value as ReturnType<typeof generateFunctions>;
+    const toRight = vi.spyOn(generated, 'toRight');
+
+    expect(merged.map({ id: 7 })).toStrictEqual({ key: 7 });
+    expect(toRight).toHaveBeenCalledOnce();
+  });
+});
@@ -1,6 +1,10 @@
 import { z } from 'zod';
 
 export { MappingPlanRuleOrder as PlanRuleOrder } from './mapping/plan.js';
+export {
+  MAP_DIRECTION as MapDirection,
+  MappingError,
+} from './mapping/execute.js';
 
 import {
   MappingPlan as MappingPlanCore,
@@ -12,8 +16,39 @@ import {
   MappingPlanParams as MappingPlanParamsCore,
 } from './mapping/compile.js';
 
-import { map as mapCore, MAP_DIRECTION } from './mapping/execute.js';
+import {
+  map as mapCore,
+  mapAsync as mapAsyncCore,
+  MAP_DIRECTION,
+  MappingRuleTrace,
+} from './mapping/execute.js';
+
+import {
+  fromJSON as fromJSONCore,
+  MappingPlanJSON,
+  MappingRegistry,
+  toJSON as toJSONCore,
+} from './mapping/serialize.js';
+
+import {
+  compareRoundTrip,
+  MappingRoundTripDifference,
+} from './mapping/roundTrip.js';
+
+import {
+  compose as composeCore,
+  invert as invertCore,
+} from './mapping/compose.js';
+
+import {
+  generateFunctions,
+  generateModule,
+  loadGenerated,
+  MappingGeneratedFunctions,
+  MappingGeneratedModule,
+} from './mapping/codegen.js';
 
+import { PathVariables } from './mapping/parser/ast/variables.js';
 import { JSONType } from './types.js';
 import {
   InputArraySchema,
@@ -21,13 +56,37 @@ import {
   NoInferPartial,
 } from './types.js';
 import { FormatShortNames } from './formatters/timestamp.js';
+import { RoundingMode } from './formatters/scale.js';
+import { KeyCase } from './formatters/keyCase.js';
 
 type MappingSchema<T> = InputObjectSchema<T> | InputArraySchema<T>;
 
 export { MappingRuleFormatType as FormatType } from './mapping/plan.js';
+export type { MappingSubPlan as SubPlan } from './mapping/plan.js';
+export {
+  MappingPlanJSONSchema as PlanJSONSchema,
+  MappingRuleJSONSchema as RuleJSONSchema,
+} from './mapping/serialize.js';
+export type { MappingRoundTripDifference as RoundTripDifference } from './mapping/roundTrip.js';
+export type {
+  MappingGeneratedModule as GeneratedModule,
+  MappingGeneratedFunction as GeneratedFunction,
+  MappingGeneratedRuntime as GeneratedRuntime,
+} from './mapping/codegen.js';
+export type {
+  MappingRuleTrace as RuleTrace,
+  MappingRuleFailure as RuleFailure,
+} from './mapping/execute.js';
+export type {
+  MappingPlanJSON as PlanJSON,
+  MappingRuleJSON as RuleJSON,
+  MappingRegistry as Registry,
+} from './mapping/serialize.js';
 
 export const Formatting = {
   TimeStamp: FormatShortNames,
+  Rounding: RoundingMode,
+  KeyCase,
 };
 
 export interface PlanParams<L extends JSONType, R extends JSONType>
@@ -35,6 +94,50 @@ export interface PlanParams<L extends JSONType, R extends JSONType>
   rules: RuleParams[];
   leftSchema: MappingSchema<L>;
   rightSchema: MappingSchema<R>;
+  // map with code generated from the plan instead of interpreting it, true to generate it now, or a module from plan.toModule() generated ahead of time
+  codegen?: boolean | GeneratedModule;
+  // the names of the functions of the rules, so plan.toJSON() can write them by name
+  registry?: Registry;
+}
+
+export interface MapOptions {
+  // values for the "$name" variables in rule paths, keyed by name without the "$"
+  variables?: PathVariables;
+  // a list that a record of what each rule did is appended to, in the order the rules run
+  trace?: RuleTrace[];
+  // keep running the rules after one fails, and throw a MappingError listing every failure at the end
+  collectErrors?: boolean;
+}
+
+export interface MapAsyncOptions extends MapOptions {
+  // the most transforms awaited at once, 10 by default
+  concurrency?: number;
+  // aborting it stops the mapping, which rejects with the reason of the signal
+  signal?: AbortSignal;
+}
+
+export interface MapManyOptions extends MapOptions {
+  // called with each record that fails and its position, the record is then left out instead of ending the mapping
+  onError?: (error: unknown, value: unknown, index: number) => void;
+}
+
+export interface ComposeOptions {
+  // run the plans one after the other instead of merging them, so defaults, coercion and checks of the middle schema apply
+  validateMiddle?: boolean;
+}
+
+export interface RoundTripOptions {
+  // LeftToRight, the default, for a left sample that is mapped and reverse mapped, RightToLeft for the other way around
+  direction?: MAP_DIRECTION;
+  variables?: PathVariables;
+}
+
+export interface RoundTripReport<T> {
+  // true if the sample came back the same
+  equal: boolean;
+  // the sample after the round trip
+  result: T;
+  differences: RoundTripDifference[];
 }
 
 export class Plan<
@@ -45,47 +148,539 @@ export class Plan<
   RO extends JSONType = JSONType,
   RA extends JSONType = JSONType,
 > {
+  // the compiled plans to run from left to right, more than one for composed plans that could not be merged
+  private stages: PlanStage[];
+
+  /**
+   * @param core - The compiled plan.
+   * @param leftSchema - The schema of the left side.
+   * @param rightSchema - The schema of the right side.
+   * @param source - What core was compiled from, a plan without it can not be inverted or written as JSON.
+   * @param generated - The code generated from core, to map with instead of interpreting it.
+   */
   constructor(
-    private readonly core: MappingPlanCore,
+    core: MappingPlanCore,
     private readonly leftSchema: LeftSchema,
     private readonly rightSchema: RightSchema,
-  ) {}
+    source?: PlanSource,
+    generated?: MappingGeneratedFunctions,
+  ) {
+    this.stages = [{ core, leftSchema, rightSchema, source, generated }];
+  }
+
+  /**
+   * The plan from the left side of first to the right side of second, see
+   * compose().
+   */
+  public static compose<
+    LeftSchema extends MappingSchema<any>,
+    MiddleSchema extends MappingSchema<any>,
+    RightSchema extends MappingSchema<any>,
+  >(
+    first: Plan<LeftSchema, MiddleSchema, any, any, any, any>,
+    second: Plan<MiddleSchema, RightSchema, any, any, any, any>,
+    options?: ComposeOptions,
+  ): Plan<LeftSchema, RightSchema, any, any, any, any> {
+    const [firstStage] = first.stages;
+    const [secondStage] = second.stages;
+
+    const merged =
+      !options?.validateMiddle &&
+      first.stages.length === 1 &&
+      second.stages.length === 1 &&
+      firstStage.source &&
+      secondStage.source
+        ? composeCore(firstStage.source, secondStage.source)
+        : undefined;
+
+    if (!merged) {
+      return Plan.fromStages([...first.stages, ...second.stages]);
+    }
+
+    const core = compileCore(merged.rules, merged.params);
+
+    // a plan that maps with generated code keeps doing so once it is merged
+    const generated =
+      firstStage.generated || secondStage.generated
+        ? generateFunctions(core)
+        : undefined;
+
+    return new Plan(
+      core,
+      firstStage.leftSchema as LeftSchema,
+      secondStage.rightSchema as RightSchema,
+      {
+        ...merged,
+        // merged, so both have a source
+        registry: {
+          ...(firstStage.source as PlanSource).registry,
+          ...(secondStage.source as PlanSource).registry,
+        },
+      },
+      generated,
+    );
+  }
+
+  // a plan that runs stages one after the other
+  private static fromStages<
+    LeftSchema extends InputObjectSchema<LO> | InputArraySchema<LA>,
+    RightSchema extends InputObjectSchema<RO> | InputArraySchema<RA>,
+    LO extends JSONType,
+    LA extends JSONType,
+    RO extends JSONType,
+    RA extends JSONType,
+  >(stages: PlanStage[]): Plan<LeftSchema, RightSchema, LO, LA, RO, RA> {
+    const [first] = stages;
+
+    const plan = new Plan(
+      first.core,
+      first.leftSchema as LeftSchema,
+      stages[stages.length - 1].rightSchema as RightSchema,
+    );
+
+    plan.stages = stages;
+
+    return plan;
+  }
 
   public map(
     leftValue: z.infer<typeof this.leftSchema>,
     overrideValues?: NoInferPartial<z.infer<typeof this.rightSchema>>,
+    options?: MapOptions,
   ): z.infer<typeof this.rightSchema> {
-    leftValue = this.leftSchema.parse(leftValue);
+    let value: JSONType = this.leftSchema.parse(leftValue);
 
-    const rightValue = mapCore(
-      leftValue,
-      this.core,
-      overrideValues as NoInferPartial<JSONType> | undefined, // mapCore just wants a JSONType, it doesn't care about schemas
-      MAP_DIRECTION.LeftToRight,
-    );
+    this.stages.forEach((stage, index) => {
+      // overrides are for the right side, so only the last stage gets them
+      const last = index === this.stages.length - 1;
 
-    return this.rightSchema.parse(rightValue);
+      value = stage.rightSchema.parse(
+        _mapStage(
+          stage,
+          value,
+          last
+            ? (overrideValues as NoInferPartial<JSONType> | undefined) // _mapStage just wants a JSONType, it doesn't care about schemas
+            : undefined,
+          MAP_DIRECTION.LeftToRight,
+          options,
+        ),
+      );
+    });
+
+    return value as z.infer<typeof this.rightSchema>;
   }
 
   public reverseMap(
     rightValue: z.infer<typeof this.rightSchema>,
     overrideValues?: NoInferPartial<z.infer<typeof this.leftSchema>>,
+    options?: MapOptions,
   ): z.infer<typeof this.leftSchema> {
-    rightValue = this.rightSchema.parse(rightValue);
+    let value: JSONType = this.rightSchema.parse(rightValue);
+
+    [...this.stages].reverse().forEach((stage, index) => {
+      // overrides are for the left side, so only the first stage gets them
+      const last = index === this.stages.length - 1;
+
+      value = stage.leftSchema.parse(
+        _mapStage(
+          stage,
+          value,
+          last
+            ? (overrideValues as NoInferPartial<JSONType> | undefined) // _mapStage just wants a JSONType, it doesn't care about schemas
+            : undefined,
+          MAP_DIRECTION.RightToLeft,
+          options,
+        ),
+      );
+    });
+
+    return value as z.infer<typeof this.leftSchema>;
+  }
+
+  /**
+   * Like map(), but for plans with transforms that return promises. The
+   * transforms of independent rules are awaited concurrently.
+   */
+  public async mapAsync(
+    leftValue: z.infer<typeof this.leftSchema>,
+    overrideValues?: NoInferPartial<z.infer<typeof this.rightSchema>>,
+    options?: MapAsyncOptions,
+  ): Promise<z.infer<typeof this.rightSchema>> {
+    let value: JSONType = this.leftSchema.parse(leftValue);
+
+    for (const [index, stage] of this.stages.entries()) {
+      // overrides are for the right side, so only the last stage gets them
+      const last = index === this.stages.length - 1;
+
+      value = stage.rightSchema.parse(
+        await mapAsyncCore(
+          value,
+          stage.core,
+          last
+            ? (overrideValues as NoInferPartial<JSONType> | undefined) // mapAsyncCore just wants a JSONType, it doesn't care about schemas
+            : undefined,
+          MAP_DIRECTION.LeftToRight,
+          options,
+        ),
+      );
+    }
+
+    return value as z.infer<typeof this.rightSchema>;
+  }
+
+  /**
+   * Like reverseMap(), but for plans with transforms that return promises. The
+   * transforms of independent rules are awaited concurrently.
+   */
+  public async reverseMapAsync(
+    rightValue: z.infer<typeof this.rightSchema>,
+    overrideValues?: NoInferPartial<z.infer<typeof this.leftSchema>>,
+    options?: MapAsyncOptions,
+  ): Promise<z.infer<typeof this.leftSchema>> {
+    let value: JSONType = this.rightSchema.parse(rightValue);
+
+    for (const [index, stage] of [...this.stages].reverse().entries()) {
+      // overrides are for the left side, so only the first stage gets them
+      const last = index === this.stages.length - 1;
+
+      value = stage.leftSchema.parse(
+        await mapAsyncCore(
+          value,
+          stage.core,
+          last
+            ? (overrideValues as NoInferPartial<JSONType> | undefined) // mapAsyncCore just wants a JSONType, it doesn't care about schemas
+            : undefined,
+          MAP_DIRECTION.RightToLeft,
+          options,
+        ),
+      );
+    }
+
+    return value as z.infer<typeof this.leftSchema>;
+  }
+
+  /**
+   * Maps each value of an iterable, lazily, as the result is iterated. Without
+   * onError, the first record that fails ends the iteration with its error.
+   */
+  public *mapMany(
+    leftValues: Iterable<z.infer<typeof this.leftSchema>>,
+    overrideValues?: NoInferPartial<z.infer<typeof this.rightSchema>>,
+    options?: MapManyOptions,
+  ): Generator<z.infer<typeof this.rightSchema>, void, undefined> {
+    let index = -1;
+
+    for (const leftValue of leftValues) {
+      const mapped = this.mapRecord(
+        leftValue,
+        ++index,
+        overrideValues,
+        options,
+      );
+
+      if (mapped) {
+        yield mapped.value;
+      }
+    }
+  }
+
+  /**
+   * A function that maps each value of an iterable or async iterable as the
+   * async generator it returns is iterated. Node streams are async iterables,
+   * and stream.pipeline() takes the function as a step that transforms the
+   * records of the previous one. Without onError, the first record that fails
+   * ends the iteration, and the pipeline, with its error.
+   */
+  public createMapStream(
+    overrideValues?: NoInferPartial<z.infer<typeof this.rightSchema>>,
+    options?: MapManyOptions,
+  ): (
+    leftValues:
+      | AsyncIterable<z.infer<LeftSchema>>
+      | Iterable<z.infer<LeftSchema>>,
+  ) => AsyncGenerator<z.infer<RightSchema>, void, undefined> {
+    return (leftValues) => this.mapStream(leftValues, overrideValues, options);
+  }
+
+  private async *mapStream(
+    leftValues:
+      | AsyncIterable<z.infer<typeof this.leftSchema>>
+      | Iterable<z.infer<typeof this.leftSchema>>,
+    overrideValues?: NoInferPartial<z.infer<typeof this.rightSchema>>,
+    options?: MapManyOptions,
+  ): AsyncGenerator<z.infer<typeof this.rightSchema>, void, undefined> {
+    let index = -1;
+
+    for await (const leftValue of leftValues) {
+      const mapped = this.mapRecord(
+        leftValue,
+        ++index,
+        overrideValues,
+        options,
+      );
+
+      if (mapped) {
+        yield mapped.value;
+      }
+    }
+  }
 
-    const leftValue = mapCore(
-      rightValue,
-      this.core,
-      overrideValues as NoInferPartial<JSONType> | undefined, // mapCore just wants a JSONType, it doesn't care about schemas
-      MAP_DIRECTION.RightToLeft,
+  // maps one of many records, undefined if it failed and onError took the error
+  private mapRecord(
+    leftValue: z.infer<typeof this.leftSchema>,
+    index: number,
+    overrideValues?: NoInferPartial<z.infer<typeof this.rightSchema>>,
+    options?: MapManyOptions,
+  ): { value: z.infer<RightSchema> } | undefined {
+    try {
+      return { value: this.map(leftValue, overrideValues, options) };
+    } catch (e) {
+      if (!options?.onError) {
+        throw e;
+      }
+
+      options.onError(e, leftValue, index);
+
+      return undefined;
+    }
+  }
+
+  /**
+   * The same plan in the opposite direction, its map() is this plan's
+   * reverseMap() and the other way around.
+   */
+  public invert(): Plan<RightSchema, LeftSchema, RO, RA, LO, LA> {
+    const stages = this.stages.map((stage) => {
+      const source = _stageSource(stage, 'inverted');
+      const { rules, params } = invertCore(source);
+
+      return {
+        core: compileCore(rules, params),
+        leftSchema: stage.rightSchema,
+        rightSchema: stage.leftSchema,
+        source: { rules, params, registry: source.registry },
+      };
+    });
+
+    return Plan.fromStages<RightSchema, LeftSchema, RO, RA, LO, LA>(
+      stages.reverse(),
+    );
+  }
+
+  /**
+   * Maps sample one way and back, and compares the result with sample, to
+   * find out what the plan loses. Each difference names the rules that map
+   * its place in the sample, by their index in the plan. A difference without
+   * rules is a value no rule maps. Composed plans that run one after the
+   * other check each of their plans on its own, with the value it maps from.
+   *
+   * @param sample - A left value, or a right value for the RightToLeft direction.
+   * @param options - The direction, and the variables to map with.
+   * @throws {ZodError} If the sample, or the value it maps to, does not match its schema.
+   */
+  public checkRoundTrip(
+    sample: z.infer<typeof this.leftSchema> | z.infer<typeof this.rightSchema>,
+    options?: RoundTripOptions,
+  ): RoundTripReport<typeof sample> {
+    const direction = options?.direction ?? MAP_DIRECTION.LeftToRight;
+    const mapOptions = { variables: options?.variables };
+
+    const result: JSONType =
+      direction === MAP_DIRECTION.LeftToRight
+        ? this.reverseMap(
+            this.map(
+              sample as z.infer<typeof this.leftSchema>,
+              undefined,
+              mapOptions,
+            ),
+            undefined,
+            mapOptions,
+          )
+        : this.map(
+            this.reverseMap(
+              sample as z.infer<typeof this.rightSchema>,
+              undefined,
+              mapOptions,
+            ),
+            undefined,
+            mapOptions,
+          );
+
+    const sampleSchema =
+      direction === MAP_DIRECTION.LeftToRight
+        ? this.leftSchema
+        : this.rightSchema;
+
+    const differences = _stageDifferences(
+      this.stages,
+      sample as JSONType,
+      sampleSchema.parse(sample),
+      direction,
+      mapOptions,
     );
 
-    return this.leftSchema.parse(leftValue);
+    return {
+      equal: differences.length === 0,
+      result: result as typeof sample,
+      differences,
+    };
+  }
+
+  /**
+   * The plan as JSON, which loadPlan() turns back into the same plan. Schemas
+   * are not part of it, and functions are written by their name in the
+   * registry the plan was compiled or loaded with.
+   *
+   * @throws {Error} If a rule has a function that is not in the registry, or a sub-plan, or the plan is composed of plans that could not be merged.
+   */
+  public toJSON(): PlanJSON {
+    if (this.stages.length > 1) {
+      throw new Error(
+        'Composed plans that could not be merged can not be serialized',
+      );
+    }
+
+    const source = _stageSource(this.stages[0], 'serialized');
+
+    return toJSONCore(source.rules, source.params, source.registry);
   }
+
+  /**
+   * The source of a TypeScript module with code generated from the plan, to
+   * generate ahead of time and pass to compilePlan() as codegen.
+   */
+  public toModule(): string {
+    if (this.stages.length > 1) {
+      throw new Error(
+        'Composed plans that could not be merged can not be generated',
+      );
+    }
+
+    return generateModule(this.stages[0].core);
+  }
+}
+
+// what a plan was compiled from, so it can be written back as JSON, inverted and composed
+interface PlanSource {
+  rules: RuleParams[];
+  params: MappingPlanParamsCore;
+  registry: Registry;
+}
+
+// one compiled plan, with the schemas of the values it maps between
+interface PlanStage {
+  core: MappingPlanCore;
+  leftSchema: MappingSchema<JSONType>;
+  rightSchema: MappingSchema<JSONType>;
+  source?: PlanSource;
+  // the code generated from the plan, if it was compiled with codegen
+  generated?: MappingGeneratedFunctions;
+}
+
+function _stageSource(stage: PlanStage, action: string): PlanSource {
+  if (!stage.source) {
+    throw new Error(
+      `Plans constructed without their rules can not be ${action}`,
+    );
+  }
+
+  return stage.source;
+}
+
+function _mapStage(
+  stage: PlanStage,
+  value: JSONType,
+  overrideValues: JSONType,
+  direction: MAP_DIRECTION,
+  options: MapOptions | undefined,
+): JSONType {
+  // generated code does not trace or collect errors, the interpreter does that
+  if (stage.generated && !options?.trace && !options?.collectErrors) {
+    return direction === MAP_DIRECTION.LeftToRight
+      ? stage.generated.toRight(value, overrideValues, options?.variables)
+      : stage.generated.toLeft(value, overrideValues, options?.variables);
+  }
+
+  return mapCore(value, stage.core, overrideValues, direction, options);
+}
+
+// maps value through one stage, and validates the result like map() and reverseMap() do
+function _runStage(
+  stage: PlanStage,
+  value: JSONType,
+  direction: MAP_DIRECTION,
+  options: MapOptions,
+): JSONType {
+  const schema =
+    direction === MAP_DIRECTION.LeftToRight
+      ? stage.rightSchema
+      : stage.leftSchema;
+
+  return schema.parse(_mapStage(stage, value, undefined, direction, options));
+}
+
+/**
+ * The differences a round trip through each stage alone makes to the value
+ * that stage maps from, so each is blamed on the rules of the stage that
+ * loses it.
+ */
+function _stageDifferences(
+  stages: PlanStage[],
+  sample: JSONType,
+  parsedSample: JSONType,
+  direction: MAP_DIRECTION,
+  options: MapOptions,
+): RoundTripDifference[] {
+  const back =
+    direction === MAP_DIRECTION.LeftToRight
+      ? MAP_DIRECTION.RightToLeft
+      : MAP_DIRECTION.LeftToRight;
+  const indexes = stages.map((_, index) => index);
+
+  if (direction === MAP_DIRECTION.RightToLeft) {
+    indexes.reverse();
+  }
+
+  // the first stage is held to the sample as it was given, before its schema parsed it
+  let original = sample;
+  let value = parsedSample;
+
+  return indexes.flatMap((index) => {
+    const stage = stages[index];
+    const mapped = _runStage(stage, value, direction, options);
+    const result = _runStage(stage, mapped, back, options);
+
+    const differences = compareRoundTrip(
+      stage.core,
+      original,
+      result,
+      direction,
+    );
+
+    original = mapped;
+    value = mapped;
+
+    return stages.length === 1
+      ? differences
+      : differences.map((difference) => ({ ...difference, stage: index }));
+  });
+}
+
+export interface LoadPlanOptions<L extends JSONType, R extends JSONType> {
+  // the functions that the plan refers to by name
+  registry?: Registry;
+  leftSchema: MappingSchema<L>;
+  rightSchema: MappingSchema<R>;
 }
 
 export type RuleParams = MappingRuleParamsCore<any, any>;
 
+type PlanJSON = MappingPlanJSON;
+type Registry = MappingRegistry;
+type RoundTripDifference = MappingRoundTripDifference;
+type RuleTrace = MappingRuleTrace;
+type GeneratedModule = MappingGeneratedModule;
+
 export function compilePlan<
   L extends JSONType,
   R extends JSONType,
@@ -94,9 +689,81 @@ export function compilePlan<
 >(params: PlanParams<L, R>): Plan<LeftSchema, RightSchema, L, L, R, R> {
   const core = compileCore(params.rules, params);
 
+  let generated: MappingGeneratedFunctions | undefined;
+
+  if (params.codegen === true) {
+    generated = generateFunctions(core);
+  } else if (params.codegen) {
+    generated = loadGenerated(core, params.codegen);
+  }
+
   return new Plan(
     core,
     params.leftSchema as LeftSchema,
     params.rightSchema as RightSchema,
+    {
+      rules: params.rules,
+      params: params.order ? { order: params.order } : {},
+      registry: params.registry ?? {},
+    },
+    generated,
   );
 }
+
+/**
+ * Compiles a plan from its JSON form, see PlanJSONSchema.
+ *
+ * @param json - The plan, as a JSON string or the value it parses to.
+ * @param options - The schemas of the plan, and the registry of functions it refers to by name.
+ * @throws {ZodError} If json is not a valid plan.
+ * @throws {Error} If a rule refers to a function that is not in the registry, or does not compile.
+ */
+export function loadPlan<
+  L extends JSONType,
+  R extends JSONType,
+  LeftSchema extends MappingSchema<L>,
+  RightSchema extends MappingSchema<R>,
+>(
+  json: string | PlanJSON,
+  options: LoadPlanOptions<L, R>,
+): Plan<LeftSchema, RightSchema, L, L, R, R> {
+  const registry = options.registry ?? {};
+
+  const { rules, params } = fromJSONCore(
+    typeof json === 'string' ? JSON.parse(json) : json,
+    registry,
+  );
+
+  return new Plan(
+    compileCore(rules, params),
+    options.leftSchema as LeftSchema,
+    options.rightSchema as RightSchema,
+    { rules, params, registry },
+  );
+}
+
+/**
+ * Composes a plan from A to B and a plan from B to C into a plan from A to C.
+ *
+ * When every rule of both plans maps one field to another, with at most a
+ * transform, and every field of B is written by one rule and read by one, the
+ * rules are merged and map from A to C directly. B is never built then, so
+ * its schema is not applied. Otherwise the plans run one after the other, and
+ * B is validated once, against the right schema of the first plan, in
+ * between.
+ *
+ * @param first - The plan from A to B.
+ * @param second - The plan from B to C, its left side must take the right side of first.
+ * @param options - validateMiddle, to always run the plans one after the other.
+ */
+export function compose<
+  LeftSchema extends MappingSchema<any>,
+  MiddleSchema extends MappingSchema<any>,
+  RightSchema extends MappingSchema<any>,
+>(
+  first: Plan<LeftSchema, MiddleSchema, any, any, any, any>,
+  second: Plan<MiddleSchema, RightSchema, any, any, any, any>,
+  options?: ComposeOptions,
+): Plan<LeftSchema, RightSchema, any, any, any, any> {
+  return Plan.compose(first, second, options);
+}
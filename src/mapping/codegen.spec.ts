@@ -0,0 +1,251 @@
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { pathToFileURL } from 'node:url';
+import { describe, expect, it } from 'vitest';
+import {
+  generate,
+  generateModule,
+  loadGenerated,
+  MappingGeneratedModule,
+} from './codegen.js';
+import { compile, MappingPlanRuleOrder } from './compile.js';
+import { MAP_DIRECTION } from './execute.js';
+import { MappingRuleParams } from './plan.js';
+import { JSONType } from '../types.js';
+import { PathVariables } from './parser/ast/variables.js';
+import { expectParity } from '../../test/harness/parity.harness.js';
+
+// compiles the rules like a plan would, with the rules in reverse order to the left
+function expectRuleParity(
+  rules: MappingRuleParams<any, any>[],
+  input: JSONType,
+  direction = MAP_DIRECTION.LeftToRight,
+  overrides?: JSONType,
+  variables?: PathVariables,
+) {
+  const plan = compile(rules, {
+    order: { toLeft: MappingPlanRuleOrder.DESC },
+  });
+
+  return expectParity(input, plan, overrides, direction, variables);
+}
+
+describe('generate()', () => {
+  it('should write out rules with plain paths and hand the rest to the interpreter', () => {
+    const plan = compile([
+      { left: 'user.tags[1]', right: 'tag' },
+      { left: 'user.$field', right: 'value' },
+      { left: 'items[-1]', right: 'last' },
+      { left: ['first', 'last'], right: 'name' },
+    ]);
+
+    const code = generate(plan, MAP_DIRECTION.LeftToRight);
+
+    expect(code).toContain('"tags" in current');
+    expect(code).not.toContain('runtime.rule(result, source, 0,');
+    expect(code).toContain('runtime.rule(result, source, 1,');
+    expect(code).toContain('runtime.rule(result, source, 2,');
+    expect(code).toContain('runtime.rule(result, source, 3,');
+  });
+
+  it('should only write out the rules that run in the direction, in their order', () => {
+    const plan = compile(
+      [
+        { left: 'a', right: 'b' },
+        { left: 'c', right: 'c', literal: 1 },
+        { left: '..d', right: 'd' },
+      ],
+      { order: { toRight: MappingPlanRuleOrder.DESC } },
+    );
+
+    expect(
+      generate(plan, MAP_DIRECTION.LeftToRight).match(/\/\/ Rule \d+/g),
+    ).toStrictEqual(['// Rule 0', '// Rule 1', '// Rule 2']);
+    expect(
+      generate(plan, MAP_DIRECTION.RightToLeft).match(/\/\/ Rule \d+/g),
+    ).toStrictEqual(['// Rule 1', '// Rule 0']);
+  });
+});
+
+describe('generateFunctions()', () => {
+  it('should map plain paths like the interpreter', () => {
+    const rules = [
+      { left: 'user.name', right: 'profile.name' },
+      { left: 'user.tags[1]', right: 'second' },
+      { left: 'items.sku', right: 'skus' },
+      { left: 'matrix[1][0]', right: 'cell' },
+      { left: '["odd.key"]', right: 'odd[0].value' },
+      { left: 'id', right: 'profile' },
+      { left: 'missing.deep', right: 'profile.missing' },
+    ];
+
+    expect(
+      expectRuleParity(rules, {
+        user: { name: 'Ann', tags: ['a', 'b'] },
+        items: [{ sku: 'A1' }, { sku: 'B2' }, {}],
+        matrix: [[1], [2, 3]],
+        'odd.key': true,
+        id: 7,
+      }),
+    ).toStrictEqual({
+      result: {
+        // the rules run last to first
+        profile: { name: 'Ann' },
+        second: 'b',
+        skus: ['A1', 'B2', undefined],
+        cell: 2,
+        odd: [{ value: true }],
+      },
+    });
+
+    expectRuleParity(
+      rules,
+      { profile: { name: 'Ann' }, skus: ['A1'], odd: 'not an array' },
+      MAP_DIRECTION.RightToLeft,
+    );
+    expectRuleParity(rules, [{ user: { name: 'Ann' } }, { user: 'Bob' }]);
+    expectRuleParity(rules, 'not an object');
+    expectRuleParity(rules, { user: null, items: { sku: 'A1' }, matrix: 'x' });
+  });
+
+  it('should map the whole value with an empty path', () => {
+    expectRuleParity([{ left: '', right: 'all' }], { a: 1 });
+    expectRuleParity(
+      [{ left: '', right: 'all' }],
+      { all: [1] },
+      MAP_DIRECTION.RightToLeft,
+    );
+  });
+
+  it('should apply literals, defaults, transforms and overrides like the interpreter', () => {
+    const rules = [
+      { left: 'version', right: 'version', literal: 2 },
+      {
+        left: 'price',
+        right: 'cents',
+        default: { toRight: 0, toLeft: 1 },
+        transform: {
+          toRight: (price: number) => price * 100,
+          toLeft: (cents: number) => cents / 100,
+        },
+      },
+      { left: 'name', right: 'name', default: { toRight: 'none' } },
+      { right: 'source', literal: { from: 'import' } },
+    ];
+
+    expect(expectRuleParity(rules, { price: 1.5 })).toStrictEqual({
+      result: {
+        version: 2,
+        cents: 150,
+        name: 'none',
+        source: { from: 'import' },
+      },
+    });
+    expectRuleParity(rules, {}, MAP_DIRECTION.LeftToRight, {
+      cents: 5,
+      source: 'override',
+    });
+    expectRuleParity(rules, {}, MAP_DIRECTION.RightToLeft, { price: 3 });
+    expectRuleParity(rules, { version: 1 }, MAP_DIRECTION.RightToLeft, [
+      { name: 'ignored' },
+    ]);
+  });
+
+  it('should call transforms on their own like the interpreter', () => {
+    expectRuleParity(
+      [
+        {
+          left: 'a',
+          right: 'b',
+          transform: {
+            toRight: function (this: unknown) {
+              return this === undefined;
+            },
+            toLeft: () => null,
+          },
+        },
+      ],
+      { a: 1 },
+    );
+  });
+
+  it('should fail like the interpreter', () => {
+    const rules = [
+      {
+        left: 'a',
+        right: 'b',
+        transform: {
+          toRight: (a: number) => Promise.resolve(a),
+          toLeft: () => {
+            throw new Error('bad b');
+          },
+        },
+      },
+    ];
+
+    expect(expectRuleParity(rules, { a: 1 })).toStrictEqual({
+      error: 'Rule 0: Transform returned a promise, use mapAsync()',
+    });
+    expectRuleParity(rules, { b: 1 }, MAP_DIRECTION.RightToLeft);
+    expectRuleParity([{ left: 'list[-1]', right: 'last' }], { list: [] });
+  });
+
+  it('should run the rules it hands to the interpreter in order with the rest', () => {
+    expectRuleParity(
+      [
+        { left: 'a', right: 'out.a' },
+        { left: 'values.$key', right: 'out' },
+        { left: 'b', right: 'out.b' },
+      ],
+      { a: 1, b: 2, values: { x: { c: 3 } } },
+      MAP_DIRECTION.LeftToRight,
+      undefined,
+      { key: 'x' },
+    );
+  });
+});
+
+describe('generateModule()', () => {
+  const plan = compile([
+    { left: 'id', right: 'userId' },
+    { left: 'tags[$index]', right: 'tag' },
+  ]);
+
+  it('should generate a module that loads for its plan', async () => {
+    const directory = mkdtempSync(join(tmpdir(), 'codegen-'));
+    const file = join(directory, 'plan.mjs');
+
+    try {
+      writeFileSync(file, generateModule(plan));
+
+      const module = (await import(
+        pathToFileURL(file).href
+      )) as MappingGeneratedModule;
+      const generated = loadGenerated(plan, module);
+
+      expect(
+        generated.toRight({ id: 1, tags: ['a', 'b'] }, undefined, {
+          index: 1,
+        }),
+      ).toStrictEqual({ userId: 1, tag: 'b' });
+      expect(
+        generated.toLeft({ userId: 1, tag: 'b' }, { id: 2 }, { index: 0 }),
+      ).toStrictEqual({ id: 2, tags: ['b'] });
+    } finally {
+      rmSync(directory, { recursive: true });
+    }
+  });
+
+  it('should not load a module generated from a different plan', () => {
+    const module: MappingGeneratedModule = {
+      hash: '00000000',
+      toRight: () => undefined,
+      toLeft: () => undefined,
+    };
+
+    expect(() => loadGenerated(plan, module)).toThrow(
+      'Generated code does not match the plan, generate it again',
+    );
+  });
+});
@@ -0,0 +1,422 @@
+import { MappingPlan, MappingRule } from './plan.js';
+import { JSONType } from '../types.js';
+import { MAP_DIRECTION, mapRule, ruleIndexes } from './execute.js';
+import { extractValue } from './parser/utilities.js';
+import { PathSegment } from './parser/ast/types.js';
+import { PathVariables } from './parser/ast/variables.js';
+import { ObjectIndexSegment } from './parser/ast/objectIndexSegment.class.js';
+import { ArrayIndexSegmentClass } from './parser/ast/arrayIndexSegment.class.js';
+
+/**
+ * What code generated from a plan calls back into, made from the same plan
+ * when the code is loaded.
+ */
+export interface MappingGeneratedRuntime {
+  rules: MappingRule<any, any>[];
+  // extracts the rest of a path of a rule, from the segment where the value turned out to be an array
+  extract: (
+    value: JSONType,
+    index: number,
+    side: 'leftPath' | 'rightPath',
+    from: number,
+  ) => JSONType;
+  // runs a rule that the generated code does not handle itself, like map() does
+  rule: (
+    result: JSONType,
+    source: JSONType,
+    index: number,
+    overrides: JSONType,
+    direction: MAP_DIRECTION,
+    variables: PathVariables | undefined,
+  ) => JSONType;
+}
+
+/**
+ * A function generated from a plan for one direction, taking the same values
+ * as map() and the runtime of the plan.
+ */
+export type MappingGeneratedFunction = (
+  source: JSONType,
+  overrides: JSONType,
+  variables: PathVariables | undefined,
+  runtime: MappingGeneratedRuntime,
+) => JSONType;
+
+/**
+ * The exports of a module from generateModule().
+ */
+export interface MappingGeneratedModule {
+  // identifies the code generated for the plan, so a module can not be used with a plan it was not generated from
+  hash: string;
+  toRight: MappingGeneratedFunction;
+  toLeft: MappingGeneratedFunction;
+}
+
+/**
+ * The generated functions of a plan, ready to call like map().
+ */
+export interface MappingGeneratedFunctions {
+  toRight: (
+    source: JSONType,
+    overrides: JSONType,
+    variables: PathVariables | undefined,
+  ) => JSONType;
+  toLeft: (
+    source: JSONType,
+    overrides: JSONType,
+    variables: PathVariables | undefined,
+  ) => JSONType;
+}
+
+type Step = { field: string } | { index: number };
+
+const PARAMS = ['source', 'overrides', 'variables', 'runtime'];
+
+/**
+ * The segments of a path as plain field and index steps, or undefined if the
+ * path has any other segment, which is left to the interpreter.
+ */
+function _steps(path: PathSegment[]): Step[] | undefined {
+  const steps: Step[] = [];
+
+  for (const segment of path) {
+    if (segment instanceof ObjectIndexSegment && !segment.multiMatch) {
+      steps.push({ field: segment.name });
+    } else if (
+      segment instanceof ArrayIndexSegmentClass &&
+      segment.index >= 0
+    ) {
+      steps.push({ index: segment.index });
+    } else {
+      return undefined;
+    }
+  }
+
+  return steps;
+}
+
+// the same as ObjectIndexSegment.getValue() and ArrayIndexSegmentClass.getValue() with a non-negative index
+function _get(target: string, step: Step): string {
+  return 'field' in step
+    ? `typeof ${target} === 'object' && ${target} !== null && ${JSON.stringify(step.field)} in ${target} ? ${target}[${JSON.stringify(step.field)}] : undefined`
+    : `Array.isArray(${target}) ? ${target}[${step.index}] : undefined`;
+}
+
+/**
+ * Code that sets current to the value at steps in from, the same way
+ * extractValue() does. Arrays met before a field are handed to the
+ * interpreter, which maps the rest of the path over their items.
+ */
+function _extract(
+  from: string,
+  steps: Step[],
+  index: number,
+  side: 'leftPath' | 'rightPath',
+  label: string,
+): string[] {
+  const lines = [`current = ${from};`, `${label}: {`];
+
+  steps.forEach((step, stepIndex) => {
+    if ('field' in step) {
+      lines.push(
+        `  if (Array.isArray(current)) { current = runtime.extract(current, ${index}, '${side}', ${stepIndex}); break ${label}; }`,
+      );
+    }
+
+    lines.push(`  current = ${_get('current', step)};`);
+  });
+
+  lines.push('}');
+
+  return lines;
+}
+
+/**
+ * Code that writes value at steps in result, the same way injectValue() does.
+ */
+function _inject(steps: Step[]): string[] {
+  if (steps.length === 0) {
+    return ['result = value;'];
+  }
+
+  const lines = ['{', '  const d0 = result;'];
+
+  steps.slice(0, -1).forEach((step, stepIndex) => {
+    lines.push(`  const d${stepIndex + 1} = ${_get(`d${stepIndex}`, step)};`);
+  });
+
+  lines.push('  let next = value;');
+
+  [...steps].reverse().forEach((step, reverseIndex) => {
+    const target = `d${steps.length - 1 - reverseIndex}`;
+
+    lines.push(
+      'field' in step
+        ? `  { let t = ${target}; if (typeof t !== 'object' || t === null || Array.isArray(t)) { t = {}; } t[${JSON.stringify(step.field)}] = next; next = t; }`
+        : `  { let t = ${target}; if (!Array.isArray(t)) { t = []; } t[${step.index}] = next; next = t; }`,
+    );
+  });
+
+  lines.push('  result = next;', '}');
+
+  return lines;
+}
+
+function _rule(
+  rule: MappingRule<any, any>,
+  index: number,
+  direction: MAP_DIRECTION,
+): string[] {
+  const toRight = direction === MAP_DIRECTION.LeftToRight;
+  const sourcePath = toRight ? rule.leftPath : rule.rightPath;
+  const targetPath = toRight ? rule.rightPath : rule.leftPath;
+  const sourceSteps = sourcePath && _steps(sourcePath);
+  const targetSteps = targetPath && _steps(targetPath);
+
+  // anything but plain paths, a literal, a default and a transform is left to the interpreter
+  if (
+    (toRight ? rule.rightCondition : rule.leftCondition) ||
+    rule.leftPaths ||
+    rule.rightPaths ||
+    rule.format ||
+    rule.hasPlan ||
+    (sourcePath && !sourceSteps) ||
+    !targetSteps
+  ) {
+    return [
+      `result = runtime.rule(result, source, ${index}, overrides, ${direction}, variables);`,
+    ];
+  }
+
+  const sourceSide = toRight ? 'leftPath' : 'rightPath';
+  const targetSide = toRight ? 'rightPath' : 'leftPath';
+  const defaultName = toRight ? 'rightDefault' : 'leftDefault';
+  const transformName = toRight ? 'rightTransform' : 'leftTransform';
+
+  const lines = [
+    'if (overrides === undefined) {',
+    '  current = undefined;',
+    '} else {',
+    ..._extract(
+      'overrides',
+      targetSteps,
+      index,
+      targetSide,
+      `rule${index}Override`,
+    ).map((line) => `  ${line}`),
+    '}',
+    'value = current;',
+  ];
+
+  const compute: string[] = [];
+
+  if (rule.hasLiteral) {
+    compute.push(`value = rules[${index}].literal;`);
+  } else if (sourceSteps) {
+    compute.push(
+      ..._extract(
+        'source',
+        sourceSteps,
+        index,
+        sourceSide,
+        `rule${index}Source`,
+      ),
+      'value = current;',
+    );
+
+    if (rule[defaultName] !== undefined) {
+      compute.push(
+        `if (value === undefined) { value = rules[${index}].${defaultName}; }`,
+      );
+    }
+
+    if (rule[transformName]) {
+      compute.push(
+        // called on its own like map() calls it, not as a method of the rule
+        `{ const transform = rules[${index}].${transformName}; value = transform(value); }`,
+        `if (value instanceof Promise) { value.catch(() => {}); throw new Error(${JSON.stringify(`Rule ${index}: Transform returned a promise, use mapAsync()`)}); }`,
+      );
+    }
+  }
+
+  if (compute.length > 0) {
+    lines.push(
+      // an override wins, the rule does not compute a value then
+      'if (value === undefined) {',
+      ...compute.map((line) => `  ${line}`),
+      '}',
+    );
+  }
+
+  return [...lines, ..._inject(targetSteps)];
+}
+
+/**
+ * Generates the body of a function that maps like map() does for the plan in
+ * the direction, with the parameters source, overrides, variables and runtime.
+ * Rules with plain paths are written out in full, every other rule calls into
+ * the interpreter through the runtime.
+ *
+ * @param {MappingPlan} plan - The compiled plan.
+ * @param {MAP_DIRECTION} direction - The direction to generate the function for.
+ * @return {string} The JavaScript source of the function body.
+ */
+export function generate(plan: MappingPlan, direction: MAP_DIRECTION): string {
+  const lines = [
+    'const rules = runtime.rules;',
+    'let result;',
+    'let value;',
+    'let current;',
+  ];
+
+  ruleIndexes(plan, direction).forEach((index) => {
+    lines.push(
+      `// Rule ${index}`,
+      ..._rule(plan.rules[index], index, direction),
+    );
+  });
+
+  lines.push('return result;');
+
+  return lines.join('\n');
+}
+
+// FNV-1a, only to tell generated code apart, not for security
+function _hash(text: string): string {
+  let hash = 0x811c9dc5;
+
+  for (let index = 0; index < text.length; index++) {
+    hash ^= text.charCodeAt(index);
+    hash = Math.imul(hash, 0x01000193) >>> 0;
+  }
+
+  return hash.toString(16).padStart(8, '0');
+}
+
+function _indent(body: string): string {
+  return body
+    .split('\n')
+    .map((line) => `  ${line}`)
+    .join('\n');
+}
+
+/**
+ * The hash of the code generated for a plan, see MappingGeneratedModule.
+ *
+ * @param {MappingPlan} plan - The compiled plan.
+ * @return {string} The hash.
+ */
+export function generatedHash(plan: MappingPlan): string {
+  return _hash(
+    [
+      generate(plan, MAP_DIRECTION.LeftToRight),
+      generate(plan, MAP_DIRECTION.RightToLeft),
+    ].join('\n'),
+  );
+}
+
+/**
+ * Generates the source of a TypeScript module with the functions of a plan in
+ * both directions, to generate them ahead of time instead of when the plan is
+ * compiled. The module is loaded with loadGenerated().
+ *
+ * @param {MappingPlan} plan - The compiled plan.
+ * @return {string} The source of the module.
+ */
+export function generateModule(plan: MappingPlan): string {
+  const toRight = generate(plan, MAP_DIRECTION.LeftToRight);
+  const toLeft = generate(plan, MAP_DIRECTION.RightToLeft);
+
+  return [
+    '/* eslint-disable */',
+    '// @ts-nocheck',
+    '// Generated from a mapping plan, do not edit. Generate it again whenever the plan changes.',
+    '',
+    `export const hash = '${_hash([toRight, toLeft].join('\n'))}';`,
+    '',
+    `export function toRight(${PARAMS.join(', ')}) {`,
+    _indent(toRight),
+    '}',
+    '',
+    `export function toLeft(${PARAMS.join(', ')}) {`,
+    _indent(toLeft),
+    '}',
+    '',
+  ].join('\n');
+}
+
+function _runtime(plan: MappingPlan): MappingGeneratedRuntime {
+  return {
+    rules: plan.rules,
+    extract: (value, index, side, from) =>
+      extractValue(
+        value,
+        (plan.rules[index][side] as PathSegment[]).slice(from),
+      ),
+    rule: (result, source, index, overrides, direction, variables) =>
+      mapRule(result, source, plan, index, overrides, direction, variables),
+  };
+}
+
+function _bind(
+  plan: MappingPlan,
+  toRight: MappingGeneratedFunction,
+  toLeft: MappingGeneratedFunction,
+): MappingGeneratedFunctions {
+  const runtime = _runtime(plan);
+
+  return {
+    toRight: (source, overrides, variables) =>
+      toRight(source, overrides, variables, runtime),
+    toLeft: (source, overrides, variables) =>
+      toLeft(source, overrides, variables, runtime),
+  };
+}
+
+/**
+ * Generates the functions of a plan and compiles them with the Function
+ * constructor, which environments that forbid eval do not allow. Use
+ * generateModule() ahead of time there.
+ *
+ * @param {MappingPlan} plan - The compiled plan.
+ * @return {MappingGeneratedFunctions} The functions, which map exactly like map() does.
+ */
+export function generateFunctions(
+  plan: MappingPlan,
+): MappingGeneratedFunctions {
+  const [toRight, toLeft] = [
+    MAP_DIRECTION.LeftToRight,
+    MAP_DIRECTION.RightToLeft,
+  ].map(
+    (direction) =>
+      // compiling the generated code is the whole point here, it is built from the plan only
+      // eslint-disable-next-line @typescript-eslint/no-implied-eval
+      new Function(
+        ...PARAMS,
+        generate(plan, direction),
+      ) as MappingGeneratedFunction,
+  );
+
+  return _bind(plan, toRight, toLeft);
+}
+
+/**
+ * Loads the functions of a module from generateModule() for a plan.
+ *
+ * @param {MappingPlan} plan - The compiled plan the module was generated from.
+ * @param {MappingGeneratedModule} module - The exports of the module.
+ * @return {MappingGeneratedFunctions} The functions, which map exactly like map() does.
+ * @throws {Error} If the module was generated from a different plan.
+ */
+export function loadGenerated(
+  plan: MappingPlan,
+  module: MappingGeneratedModule,
+): MappingGeneratedFunctions {
+  if (module.hash !== generatedHash(plan)) {
+    throw new Error(
+      'Generated code does not match the plan, generate it again',
+    );
+  }
+
+  return _bind(plan, module.toRight, module.toLeft);
+}
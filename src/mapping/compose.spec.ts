@@ -0,0 +1,485 @@
+import { describe, expect, it } from 'vitest';
+import { compose, invert, MappingPlanSource } from './compose.js';
+import {
+  MappingPlanRuleOrder,
+  MappingRuleFormatType,
+  MappingRuleParams,
+  MappingSubPlan,
+} from './plan.js';
+import { compile } from './compile.js';
+import { map, mapAsync, MAP_DIRECTION } from './execute.js';
+import { JSONType } from '../types.js';
+import { KeyCase } from '../formatters/keyCase.js';
+import { RoundingMode } from '../formatters/scale.js';
+
+function run(
+  source: MappingPlanSource,
+  value: JSONType,
+  direction = MAP_DIRECTION.LeftToRight,
+): JSONType {
+  return map(value, compile(source.rules, source.params), undefined, direction);
+}
+
+const ITEM_PLAN: MappingSubPlan = {
+  map: (value) =>
+    run({ rules: [{ left: 'sku', right: 'code' }], params: {} }, value),
+  reverseMap: (value) =>
+    run(
+      { rules: [{ left: 'sku', right: 'code' }], params: {} },
+      value,
+      MAP_DIRECTION.RightToLeft,
+    ),
+};
+
+const SOURCE: MappingPlanSource = {
+  rules: [
+    { left: 'id', right: 'userId' },
+    {
+      left: 'name',
+      right: 'displayName',
+      transform: {
+        toRight: (name: string) => name.toUpperCase(),
+        toLeft: (name: string) => name.toLowerCase(),
+      },
+    },
+    { right: 'version', literal: 2 },
+    {
+      left: 'created',
+      right: 'createdAt',
+      format: {
+        type: MappingRuleFormatType.TIMESTAMP,
+        toLeft: 'yyyy-MM-dd',
+        toRight: 'dd/MM/yyyy',
+      },
+    },
+    {
+      left: 'status',
+      right: 'state',
+      format: {
+        type: MappingRuleFormatType.LOOKUP,
+        table: [
+          [1, 'on'],
+          [0, 'off'],
+        ],
+        fallback: { toRight: 'unknown' },
+      },
+    },
+    {
+      left: 'weight',
+      right: 'grams',
+      format: {
+        type: MappingRuleFormatType.SCALE,
+        units: { left: 'kg', right: 'g' },
+        precision: { toLeft: 1 },
+      },
+    },
+    {
+      left: 'price',
+      right: 'cents',
+      format: {
+        type: MappingRuleFormatType.SCALE,
+        factor: 100,
+        rounding: RoundingMode.DOWN,
+      },
+    },
+    {
+      left: 'settings',
+      right: 'config',
+      format: {
+        type: MappingRuleFormatType.KEY_CASE,
+        toLeft: KeyCase.CAMEL,
+        toRight: KeyCase.SNAKE,
+      },
+    },
+    { left: 'item', right: 'line', plan: ITEM_PLAN },
+    { left: 'items', right: 'lines', plan: () => ITEM_PLAN },
+    {
+      left: 'note',
+      right: 'comment',
+      default: { toRight: 'none', toLeft: undefined },
+      when: { toLeft: { path: 'comment', operator: '!=', value: '' } },
+    },
+  ],
+  params: {
+    order: {
+      toLeft: MappingPlanRuleOrder.DESC,
+      toRight: MappingPlanRuleOrder.ASC,
+    },
+  },
+};
+
+const LEFT: JSONType = {
+  id: 1,
+  name: 'ann',
+  created: '2024-03-01',
+  status: 1,
+  weight: 1.25,
+  price: 19.99,
+  settings: { darkMode: true },
+  item: { sku: 'A1' },
+  items: [{ sku: 'B2' }],
+};
+
+const RIGHT: JSONType = {
+  userId: 1,
+  displayName: 'ANN',
+  version: 2,
+  createdAt: '01/03/2024',
+  state: 'on',
+  grams: 1250,
+  cents: 1999,
+  config: { dark_mode: true },
+  line: { code: 'A1' },
+  lines: [{ code: 'B2' }],
+  comment: 'none',
+};
+
+describe('invert()', () => {
+  it('should swap the sides of every rule', () => {
+    const { rules } = invert(SOURCE);
+
+    expect(rules[0]).toStrictEqual({ left: 'userId', right: 'id' });
+    expect(rules[2]).toStrictEqual({ left: 'version', literal: 2 });
+    expect(rules[4]).toStrictEqual({
+      left: 'state',
+      right: 'status',
+      format: {
+        type: MappingRuleFormatType.LOOKUP,
+        table: [
+          ['on', 1],
+          ['off', 0],
+        ],
+        fallback: { toLeft: 'unknown' },
+      },
+    });
+    expect(rules[5]).toStrictEqual({
+      left: 'grams',
+      right: 'weight',
+      format: {
+        type: MappingRuleFormatType.SCALE,
+        units: { left: 'kg', right: 'g' },
+        precision: { toRight: 1 },
+        inverted: true,
+      },
+    });
+    expect(rules[6]).toStrictEqual({
+      left: 'cents',
+      right: 'price',
+      format: {
+        type: MappingRuleFormatType.SCALE,
+        factor: 100,
+        rounding: RoundingMode.DOWN,
+        inverted: true,
+      },
+    });
+    expect(rules[10]).toStrictEqual({
+      left: 'comment',
+      right: 'note',
+      default: { toLeft: 'none', toRight: undefined },
+      when: { toRight: { path: 'comment', operator: '!=', value: '' } },
+    });
+  });
+
+  it('should swap the orders of the plan', () => {
+    expect(invert(SOURCE).params).toStrictEqual({
+      order: {
+        toLeft: MappingPlanRuleOrder.ASC,
+        toRight: MappingPlanRuleOrder.DESC,
+      },
+    });
+    expect(invert({ rules: [], params: {} }).params).toStrictEqual({});
+  });
+
+  it('should map in the opposite direction of the plan', () => {
+    const inverted = invert(SOURCE);
+
+    expect(run(SOURCE, LEFT)).toStrictEqual(RIGHT);
+    expect(run(inverted, LEFT, MAP_DIRECTION.RightToLeft)).toStrictEqual(RIGHT);
+    expect(run(inverted, RIGHT)).toStrictEqual(
+      run(SOURCE, RIGHT, MAP_DIRECTION.RightToLeft),
+    );
+  });
+
+  it('should scale by the same factor as the plan', () => {
+    const source: MappingPlanSource = {
+      rules: [
+        {
+          left: 'amount',
+          right: 'thirds',
+          format: { type: MappingRuleFormatType.SCALE, factor: 3 },
+        },
+        {
+          left: 'minutes',
+          right: 'hours',
+          format: {
+            type: MappingRuleFormatType.SCALE,
+            units: { left: 'min', right: 'h' },
+          },
+        },
+      ],
+      params: {},
+    };
+    const right = { thirds: 10, hours: 1.3 };
+    const left = { amount: 0.1, minutes: 7 };
+
+    // 1 / 3 is not exact, so a factor of 1 / 3 would give 3.333333333333333
+    expect(run(invert(source), right)).toStrictEqual(
+      run(source, right, MAP_DIRECTION.RightToLeft),
+    );
+    expect(run(invert(source), right)).toMatchObject({
+      amount: 3.3333333333333335,
+    });
+    expect(run(invert(source), left, MAP_DIRECTION.RightToLeft)).toStrictEqual(
+      run(source, left),
+    );
+  });
+
+  it('should swap the async methods of sub-plans', async () => {
+    const subPlan: MappingSubPlan = {
+      map: () => 'map',
+      reverseMap: () => 'reverseMap',
+      mapAsync: () => Promise.resolve('mapAsync'),
+      reverseMapAsync: () => Promise.resolve('reverseMapAsync'),
+    };
+    const inverted = invert({
+      rules: [{ left: 'a', right: 'b', plan: subPlan }],
+      params: {},
+    });
+    const plan = compile(inverted.rules, inverted.params);
+
+    expect(await mapAsync({ b: 1 }, plan)).toStrictEqual({
+      a: 'reverseMapAsync',
+    });
+    expect(
+      await mapAsync({ a: 1 }, plan, undefined, MAP_DIRECTION.RightToLeft),
+    ).toStrictEqual({ b: 'mapAsync' });
+  });
+
+  it('should give back the plan when inverted twice', () => {
+    const twice = invert(invert(SOURCE));
+
+    expect(twice.rules[5]).toStrictEqual(SOURCE.rules[5]);
+    expect(twice.rules[6]).toStrictEqual(SOURCE.rules[6]);
+    expect(twice.params).toStrictEqual(SOURCE.params);
+    expect(run(twice, LEFT)).toStrictEqual(RIGHT);
+    expect(run(twice, RIGHT, MAP_DIRECTION.RightToLeft)).toStrictEqual(
+      run(SOURCE, RIGHT, MAP_DIRECTION.RightToLeft),
+    );
+  });
+});
+
+describe('compose()', () => {
+  const toCents = {
+    toRight: (value: number) => value * 100,
+    toLeft: (value: number) => value / 100,
+  };
+  const toText = {
+    toRight: (value: number) => String(value),
+    toLeft: (value: string) => Number(value),
+  };
+
+  const first: MappingPlanSource = {
+    rules: [
+      { left: 'id', right: 'user.id' },
+      { left: 'price', right: 'amount', transform: toCents },
+      { left: 'tags[0]', right: 'firstTag' },
+    ],
+    params: { order: { toRight: MappingPlanRuleOrder.DESC } },
+  };
+
+  const second: MappingPlanSource = {
+    rules: [
+      { left: 'firstTag', right: 'labels[0]' },
+      { left: 'amount', right: 'total', transform: toText },
+      { left: 'user["id"]', right: 'userId', transform: toText },
+    ],
+    params: {},
+  };
+
+  it('should merge the rules of plans that map field to field', () => {
+    const composed = compose(first, second) as MappingPlanSource;
+
+    expect(composed.params).toStrictEqual({});
+    expect(
+      composed.rules.map((rule) => [
+        (rule as { left: string }).left,
+        (rule as { right: string }).right,
+      ]),
+    ).toStrictEqual([
+      ['tags[0]', 'labels[0]'],
+      ['price', 'total'],
+      ['id', 'userId'],
+    ]);
+    expect((composed.rules[0] as { transform?: unknown }).transform).toBe(
+      undefined,
+    );
+    expect(
+      (composed.rules[2] as { transform?: unknown }).transform,
+    ).toStrictEqual(toText);
+  });
+
+  it('should map like the plans one after the other', () => {
+    const composed = compose(first, second) as MappingPlanSource;
+    const left = { id: 7, price: 1.5, tags: ['new', 'sale'] };
+    const right = { labels: ['new'], total: '150', userId: '7' };
+
+    expect(run(composed, left)).toStrictEqual(right);
+    expect(run(second, run(first, left))).toStrictEqual(right);
+    expect(run(composed, right, MAP_DIRECTION.RightToLeft)).toStrictEqual({
+      tags: ['new'],
+      price: 1.5,
+      id: 7,
+    });
+  });
+
+  it('should wait for async transforms before the next one in the chain', async () => {
+    const composed = compose(
+      {
+        rules: [
+          {
+            left: 'price',
+            right: 'amount',
+            transform: {
+              toRight: (value: number) => Promise.resolve(value * 100),
+              toLeft: (value: number) => value / 100,
+            },
+          },
+        ],
+        params: {},
+      },
+      {
+        rules: [{ left: 'amount', right: 'total', transform: toText }],
+        params: {},
+      },
+    ) as MappingPlanSource;
+    const plan = compile(composed.rules, composed.params);
+
+    expect(await mapAsync({ price: 1.5 }, plan)).toStrictEqual({
+      total: '150',
+    });
+    expect(
+      map({ total: '150' }, plan, undefined, MAP_DIRECTION.RightToLeft),
+    ).toStrictEqual({ price: 1.5 });
+  });
+
+  it('should not merge plans with rules that need the value in the middle', () => {
+    const extra = (rule: MappingRuleParams<any, any>): MappingPlanSource => ({
+      rules: [...second.rules.slice(1), rule],
+      params: {},
+    });
+
+    [
+      { left: 'firstTag', right: 'labels[1]', literal: 'x' },
+      { left: 'firstTag', right: 'labels[1]', default: { toRight: 'x' } },
+      {
+        left: 'firstTag',
+        right: 'labels[1]',
+        when: { toRight: () => true },
+      },
+      {
+        left: 'firstTag',
+        right: 'labels[1]',
+        format: {
+          type: MappingRuleFormatType.KEY_CASE,
+          toLeft: KeyCase.CAMEL,
+          toRight: KeyCase.SNAKE,
+        },
+      },
+      { left: 'firstTag', right: 'labels[1]', plan: ITEM_PLAN },
+      { left: ['firstTag'], right: 'labels[1]' },
+      { right: 'labels[1]', literal: 'x' },
+    ].forEach((rule) => {
+      expect(compose(first, extra(rule as MappingRuleParams<any, any>))).toBe(
+        undefined,
+      );
+    });
+  });
+
+  it('should not merge plans with paths that are not plain fields and indexes', () => {
+    [
+      'tags[-1]',
+      'tags.*',
+      'tags[[1,2]]',
+      'tags[?(@.a)]',
+      'tags[id=1]',
+      'tags.@entries',
+      'tags.$name',
+      '..id',
+    ].forEach((path) => {
+      expect(
+        compose(
+          {
+            rules: [
+              ...first.rules.slice(0, 2),
+              { left: path, right: 'firstTag' },
+            ],
+            params: {},
+          },
+          second,
+        ),
+      ).toBe(undefined);
+    });
+  });
+
+  it('should not merge plans whose fields in the middle do not match up', () => {
+    const [firstTag, amount, userId] = second.rules;
+
+    // a field in the middle that is written but not read
+    expect(compose(first, { rules: [firstTag, amount], params: {} })).toBe(
+      undefined,
+    );
+
+    // one that is read but not written
+    expect(
+      compose(first, {
+        rules: [firstTag, amount, { left: 'user.name', right: 'name' }],
+        params: {},
+      }),
+    ).toBe(undefined);
+
+    // one that is read twice
+    expect(
+      compose(first, {
+        rules: [firstTag, amount, userId, { left: 'amount', right: 'copy' }],
+        params: {},
+      }),
+    ).toBe(undefined);
+  });
+
+  it('should not merge plans with fields inside of other fields on a side', () => {
+    expect(
+      compose(
+        {
+          rules: [...first.rules, { left: 'profile', right: 'user' }],
+          params: {},
+        },
+        {
+          rules: [...second.rules, { left: 'user', right: 'profile' }],
+          params: {},
+        },
+      ),
+    ).toBe(undefined);
+    expect(
+      compose(
+        {
+          rules: [...first.rules, { left: 'id.value', right: 'other' }],
+          params: {},
+        },
+        {
+          rules: [...second.rules, { left: 'other', right: 'other' }],
+          params: {},
+        },
+      ),
+    ).toBe(undefined);
+    expect(
+      compose(first, {
+        rules: [
+          second.rules[0],
+          second.rules[1],
+          { left: 'user.id', right: 'total.id' },
+        ],
+        params: {},
+      }),
+    ).toBe(undefined);
+  });
+});
@@ -0,0 +1,324 @@
+import { JSONType } from '../types.js';
+import {
+  MappingPlanParams,
+  MappingRuleFormat,
+  MappingRuleFormatScale,
+  MappingRuleFormatType,
+  MappingRuleParams,
+  MappingSubPlan,
+  MappingSubPlanReference,
+} from './plan.js';
+import { Parser } from './parser/core.js';
+import { PathSegmentNode, toNodes } from './parser/nodes.js';
+
+/**
+ * The rules of a plan and the parameters it is compiled with.
+ */
+export interface MappingPlanSource {
+  rules: MappingRuleParams<any, any>[];
+  params: MappingPlanParams;
+}
+
+type Transform = (value: unknown) => unknown;
+
+interface PerDirection<T> {
+  toLeft?: T;
+  toRight?: T;
+}
+
+function _swapDirections<T>(value: PerDirection<T>): PerDirection<T> {
+  const swapped: PerDirection<T> = {};
+
+  // only directions that are there are swapped, some options tell a missing direction apart from an undefined one
+  if ('toLeft' in value) {
+    swapped.toRight = value.toLeft;
+  }
+
+  if ('toRight' in value) {
+    swapped.toLeft = value.toRight;
+  }
+
+  return swapped;
+}
+
+function _invertFormat(format: MappingRuleFormat): MappingRuleFormat {
+  switch (format.type) {
+    case MappingRuleFormatType.TIMESTAMP:
+    case MappingRuleFormatType.KEY_CASE:
+      return {
+        ...format,
+        toLeft: format.toRight,
+        toRight: format.toLeft,
+      } as MappingRuleFormat;
+
+    case MappingRuleFormatType.LOOKUP: {
+      const lookup: MappingRuleFormat = {
+        type: format.type,
+        table: format.table.map(([left, right]) => [right, left]),
+      };
+
+      if (format.fallback) {
+        lookup.fallback = _swapDirections(format.fallback);
+      }
+
+      return lookup;
+    }
+
+    case MappingRuleFormatType.SCALE: {
+      // the factor stays as it is, only the direction it is applied in flips
+      const { inverted, ...rest } = format;
+      const scale: MappingRuleFormatScale = inverted
+        ? rest
+        : { ...rest, inverted: true };
+
+      if (format.precision) {
+        scale.precision = _swapDirections(format.precision);
+      }
+
+      return scale;
+    }
+  }
+}
+
+function _invertSubPlan(plan: MappingSubPlan): MappingSubPlan {
+  const inverted: MappingSubPlan = {
+    map: (value, overrideValues, options) =>
+      plan.reverseMap(value, overrideValues, options),
+    reverseMap: (value, overrideValues, options) =>
+      plan.map(value, overrideValues, options),
+  };
+
+  if (plan.reverseMapAsync) {
+    inverted.mapAsync = plan.reverseMapAsync.bind(plan);
+  }
+
+  if (plan.mapAsync) {
+    inverted.reverseMapAsync = plan.mapAsync.bind(plan);
+  }
+
+  return inverted;
+}
+
+function _invertRule(
+  rule: MappingRuleParams<any, any>,
+): MappingRuleParams<any, any> {
+  const source = rule as Record<string, any>;
+  const inverted: Record<string, unknown> = {};
+
+  if ('left' in source) {
+    inverted.right = source.left;
+  }
+
+  if ('right' in source) {
+    inverted.left = source.right;
+  }
+
+  if ('literal' in source) {
+    inverted.literal = source.literal as JSONType;
+  }
+
+  if ('transform' in source) {
+    inverted.transform = _swapDirections(
+      source.transform as PerDirection<Transform>,
+    );
+  }
+
+  if ('format' in source) {
+    inverted.format = _invertFormat(source.format as MappingRuleFormat);
+  }
+
+  if ('plan' in source) {
+    const plan = source.plan as MappingSubPlanReference;
+
+    // a plan given as a function stays one, so a plan can still refer to itself
+    inverted.plan =
+      typeof plan === 'function'
+        ? () => _invertSubPlan(plan())
+        : _invertSubPlan(plan);
+  }
+
+  if ('default' in source) {
+    inverted.default = _swapDirections(source.default as PerDirection<unknown>);
+  }
+
+  if ('when' in source) {
+    inverted.when = _swapDirections(source.when as PerDirection<unknown>);
+  }
+
+  return inverted as unknown as MappingRuleParams<any, any>;
+}
+
+/**
+ * Swaps left and right in every rule of a plan, and its orders, so the plan
+ * maps in the opposite direction.
+ *
+ * @param {MappingPlanSource} source - The plan to invert.
+ * @return {MappingPlanSource} The inverted plan.
+ */
+export function invert(source: MappingPlanSource): MappingPlanSource {
+  const params: MappingPlanParams = {};
+
+  if (source.params.order) {
+    params.order = _swapDirections(source.params.order);
+  }
+
+  return { rules: source.rules.map(_invertRule), params };
+}
+
+/**
+ * The path as nodes, if it only has field names and indexes that are not
+ * counted from the end. Those are the only paths that address the same value
+ * whether it is read or written.
+ */
+function _simplePath(path: unknown): PathSegmentNode[] | undefined {
+  if (typeof path !== 'string') {
+    return undefined;
+  }
+
+  const nodes = toNodes(new Parser(path).parsePath());
+
+  return nodes.every(
+    (node) =>
+      node.type === 'field' || (node.type === 'index' && node.index >= 0),
+  )
+    ? nodes
+    : undefined;
+}
+
+function _isPrefix(
+  prefix: PathSegmentNode[],
+  nodes: PathSegmentNode[],
+): boolean {
+  return (
+    prefix.length <= nodes.length &&
+    prefix.every(
+      (node, index) => JSON.stringify(node) === JSON.stringify(nodes[index]),
+    )
+  );
+}
+
+// no path may address a value inside of another, or the order of the rules would matter
+function _isIndependent(paths: PathSegmentNode[][]): boolean {
+  return paths.every((path, index) =>
+    paths.every(
+      (other, otherIndex) => index === otherIndex || !_isPrefix(path, other),
+    ),
+  );
+}
+
+interface SimpleRule {
+  left: PathSegmentNode[];
+  right: PathSegmentNode[];
+  rule: MappingRuleParams<any, any>;
+}
+
+function _simpleRules(source: MappingPlanSource): SimpleRule[] | undefined {
+  const rules: SimpleRule[] = [];
+
+  for (const rule of source.rules) {
+    // anything beyond paths and transforms depends on the value in the middle, which merged plans never build
+    if (
+      Object.keys(rule).some(
+        (key) => !['left', 'right', 'transform'].includes(key),
+      )
+    ) {
+      return undefined;
+    }
+
+    const left = _simplePath((rule as { left?: unknown }).left);
+    const right = _simplePath((rule as { right?: unknown }).right);
+
+    if (!left || !right) {
+      return undefined;
+    }
+
+    rules.push({ left, right, rule });
+  }
+
+  return rules;
+}
+
+function _chainTransforms(
+  first: PerDirection<Transform> | undefined,
+  second: PerDirection<Transform> | undefined,
+): PerDirection<Transform> | undefined {
+  if (!first || !second) {
+    return first ?? second;
+  }
+
+  // an async transform hands the next one a promise, which has to settle first
+  const then = (value: unknown, next?: Transform): unknown =>
+    value instanceof Promise ? value.then(next) : next?.(value);
+
+  return {
+    toRight: (value) => then(first.toRight?.(value), second.toRight),
+    toLeft: (value) => then(second.toLeft?.(value), first.toLeft),
+  };
+}
+
+/**
+ * Merges a plan from A to B and a plan from B to C into one plan from A to C,
+ * which reads from A and writes to C directly, without B in between.
+ *
+ * That is only possible when every rule of both plans maps one simple path to
+ * another, with at most a transform, and every path on B is written by exactly
+ * one rule of the first plan and read by exactly one rule of the second.
+ *
+ * @param {MappingPlanSource} first - The plan from A to B.
+ * @param {MappingPlanSource} second - The plan from B to C.
+ * @return {MappingPlanSource | undefined} The plan from A to C, or undefined if the plans can not be merged.
+ */
+export function compose(
+  first: MappingPlanSource,
+  second: MappingPlanSource,
+): MappingPlanSource | undefined {
+  const firstRules = _simpleRules(first);
+  const secondRules = _simpleRules(second);
+
+  if (!firstRules || !secondRules) {
+    return undefined;
+  }
+
+  if (
+    firstRules.length !== secondRules.length ||
+    ![
+      firstRules.map(({ left }) => left),
+      firstRules.map(({ right }) => right),
+      secondRules.map(({ right }) => right),
+    ].every(_isIndependent)
+  ) {
+    return undefined;
+  }
+
+  const rules: MappingRuleParams<any, any>[] = [];
+
+  for (const secondRule of secondRules) {
+    // B paths are independent, so equal nodes are the only way two of them can meet
+    const firstRule = firstRules.find(
+      ({ right }) => JSON.stringify(right) === JSON.stringify(secondRule.left),
+    );
+
+    if (!firstRule) {
+      return undefined;
+    }
+
+    const rule: Record<string, unknown> = {
+      left: (firstRule.rule as { left: string }).left,
+      right: (secondRule.rule as { right: string }).right,
+    };
+
+    const transform = _chainTransforms(
+      (firstRule.rule as { transform?: PerDirection<Transform> }).transform,
+      (secondRule.rule as { transform?: PerDirection<Transform> }).transform,
+    );
+
+    if (transform) {
+      rule.transform = transform;
+    }
+
+    rules.push(rule as unknown as MappingRuleParams<any, any>);
+  }
+
+  // independent paths make the order of the rules irrelevant
+  return { rules, params: {} };
+}
@@ -6,10 +6,23 @@ import {
   MappingRuleParams,
 } from './compile.js';
 
-import { map, MAP_DIRECTION } from './execute.js';
+import {
+  map,
+  mapAsync,
+  mapRule,
+  MAP_DIRECTION,
+  MappingError,
+  MappingRuleTrace,
+  ruleIndexes,
+} from './execute.js';
+import { generateFunctions } from './codegen.js';
 import { JSONType } from '../types.js';
-import { MappingRuleFormatType } from './plan.js';
+import { MappingRuleFormatType, MappingSubPlan } from './plan.js';
 import { FormatShortNames as TimestampFormats } from '../formatters/timestamp.js';
+import { RoundingMode } from '../formatters/scale.js';
+import { KeyCase } from '../formatters/keyCase.js';
+import { PathVariables } from './parser/ast/variables.js';
+import { expectParity } from '../../test/harness/parity.harness.js';
 
 // Uses these short-cut flags on tests to quick-pass true for the respective options
 const bidirectional = true;
@@ -28,11 +41,51 @@ type TestMapping = {
   leftOverride?: JSONType;
   right: JSONType;
   rightOverride?: JSONType;
+  variables?: PathVariables;
   only?: boolean;
   skip?: boolean;
   rightToLeft?: boolean;
 };
 
+// the execute layer only sees compiled plans, so sub-plans are adapted here like the public Plan does
+function subPlan(rules: MappingRuleParams<any, any>[]): MappingSubPlan {
+  const plan = compile(rules);
+
+  return {
+    map: (value, _overrides, options) =>
+      map(value, plan, undefined, MAP_DIRECTION.LeftToRight, {
+        variables: options?.variables,
+      }),
+    reverseMap: (value, _overrides, options) =>
+      map(value, plan, undefined, MAP_DIRECTION.RightToLeft, {
+        variables: options?.variables,
+      }),
+    mapAsync: (value, _overrides, options) =>
+      mapAsync(value, plan, undefined, MAP_DIRECTION.LeftToRight, options),
+    reverseMapAsync: (value, _overrides, options) =>
+      mapAsync(value, plan, undefined, MAP_DIRECTION.RightToLeft, options),
+  };
+}
+
+const LINE_ITEM_PLAN = subPlan([
+  { left: 'sku', right: 'productCode' },
+  { left: 'qty', right: 'quantity' },
+]);
+
+// a sub-plan that can only map synchronously, like one written by hand
+const LINE_ITEM_PLAN_SYNC: MappingSubPlan = {
+  map: (value, overrides, options) =>
+    LINE_ITEM_PLAN.map(value, overrides, options),
+  reverseMap: (value, overrides, options) =>
+    LINE_ITEM_PLAN.reverseMap(value, overrides, options),
+};
+
+// comments reply to comments, so the plan refers to itself
+const COMMENT_PLAN: MappingSubPlan = subPlan([
+  { left: 'text', right: 'body' },
+  { left: 'replies', right: 'children', plan: () => COMMENT_PLAN },
+]);
+
 function generateTests(group: string, tests: TestMapping[]) {
   if (tests.length === 0) {
     return;
@@ -63,6 +116,7 @@ function generateTests(group: string, tests: TestMapping[]) {
             test.rightToLeft
               ? MAP_DIRECTION.RightToLeft
               : MAP_DIRECTION.LeftToRight,
+            { variables: test.variables },
           );
 
           expect(result).toStrictEqual(testResult);
@@ -70,6 +124,17 @@ function generateTests(group: string, tests: TestMapping[]) {
 
         it(name, testFunction);
 
+        it(`${name} (generated)`, () =>
+          expectParity(
+            testInput,
+            plan,
+            test.rightToLeft ? test.rightOverride : test.leftOverride,
+            test.rightToLeft
+              ? MAP_DIRECTION.RightToLeft
+              : MAP_DIRECTION.LeftToRight,
+            test.variables,
+          ));
+
         if (test.bidirectional) {
           name += ' (Right-to-Left)';
           const leftToRightTestFunction = () => {
@@ -80,12 +145,24 @@ function generateTests(group: string, tests: TestMapping[]) {
               test.rightToLeft
                 ? MAP_DIRECTION.LeftToRight
                 : MAP_DIRECTION.RightToLeft,
+              { variables: test.variables },
             );
 
             expect(result).toStrictEqual(testInput);
           };
 
           it(name, leftToRightTestFunction);
+
+          it(`${name} (generated)`, () =>
+            expectParity(
+              testResult,
+              plan,
+              test.rightToLeft ? test.leftOverride : test.rightOverride,
+              test.rightToLeft
+                ? MAP_DIRECTION.LeftToRight
+                : MAP_DIRECTION.RightToLeft,
+              test.variables,
+            ));
         }
       } catch (e) {
         const myError = e instanceof Error ? e : new Error(String(e));
@@ -197,6 +274,179 @@ describe('JSON Schema Mapping', () => {
         timestamp: 'Sat, 16 May 2020',
       },
     },
+    {
+      name: 'Should map through a lookup table back and forth',
+      bidirectional,
+      rules: [
+        {
+          left: 'status',
+          right: 'state',
+          format: {
+            type: MappingRuleFormatType.LOOKUP,
+            table: [
+              [1, 'active'],
+              [0, 'inactive'],
+              [null, 'unknown'],
+            ],
+          },
+        },
+        {
+          left: 'previousStatus',
+          right: 'previousState',
+          format: {
+            type: MappingRuleFormatType.LOOKUP,
+            table: [
+              [1, 'active'],
+              [0, 'inactive'],
+              [null, 'unknown'],
+            ],
+          },
+        },
+      ],
+      left: { status: null, previousStatus: 0 },
+      right: { state: 'unknown', previousState: 'inactive' },
+    },
+    {
+      name: 'Should use the lookup fallback for values not in the table',
+      rules: [
+        {
+          left: 'status',
+          right: 'state',
+          format: {
+            type: MappingRuleFormatType.LOOKUP,
+            table: [[1, 'active']],
+            fallback: { toRight: 'other' },
+          },
+        },
+      ],
+      left: { status: 7 },
+      right: { state: 'other' },
+    },
+    {
+      name: 'Should convert units back and forth',
+      bidirectional,
+      rules: [
+        {
+          left: 'price',
+          right: 'priceCents',
+          format: { type: MappingRuleFormatType.SCALE, factor: 100 },
+        },
+        {
+          left: 'timeoutMs',
+          right: 'timeoutSeconds',
+          format: {
+            type: MappingRuleFormatType.SCALE,
+            units: { left: 'ms', right: 's' },
+          },
+        },
+      ],
+      left: { price: 19.99, timeoutMs: 2500 },
+      right: { priceCents: 1999, timeoutSeconds: 2.5 },
+    },
+    {
+      name: 'Should round converted units',
+      rightToLeft,
+      rules: [
+        {
+          left: 'weightKg',
+          right: 'weightLb',
+          format: {
+            type: MappingRuleFormatType.SCALE,
+            units: { left: 'kg', right: 'lb' },
+            precision: { toLeft: 1 },
+            rounding: RoundingMode.DOWN,
+          },
+        },
+      ],
+      left: { weightKg: 4.5 },
+      right: { weightLb: 10 },
+    },
+    {
+      name: 'Should convert the case of keys in a subtree back and forth',
+      bidirectional,
+      rules: [
+        { left: 'row_id', right: 'id' },
+        {
+          left: 'row_data',
+          right: 'data',
+          format: {
+            type: MappingRuleFormatType.KEY_CASE,
+            toLeft: KeyCase.SNAKE,
+            toRight: KeyCase.CAMEL,
+            except: ['_rev'],
+          },
+        },
+      ],
+      left: {
+        row_id: 1,
+        row_data: {
+          first_name: 'Ann',
+          _rev: 3,
+          addresses: [{ zip_code: '1' }],
+        },
+      },
+      right: {
+        id: 1,
+        data: { firstName: 'Ann', _rev: 3, addresses: [{ zipCode: '1' }] },
+      },
+    },
+    {
+      name: 'Should convert the case of keys of the whole value and selected elements',
+      bidirectional,
+      rules: [
+        {
+          left: '',
+          right: '',
+          format: {
+            type: MappingRuleFormatType.KEY_CASE,
+            toLeft: KeyCase.SCREAMING_SNAKE,
+            toRight: KeyCase.KEBAB,
+          },
+        },
+      ],
+      left: { API_KEY: 'a', RETRY_POLICY: { MAX_TRIES: 3 } },
+      right: { 'api-key': 'a', 'retry-policy': { 'max-tries': 3 } },
+    },
+    {
+      name: 'Should convert the case of keys in extracted slices',
+      rules: [
+        {
+          left: 'rows[[0,2]]',
+          right: 'items',
+          format: {
+            type: MappingRuleFormatType.KEY_CASE,
+            toLeft: KeyCase.SNAKE,
+            toRight: KeyCase.PASCAL,
+          },
+        },
+      ],
+      left: { rows: [{ item_id: 1 }, { item_id: 2 }, { item_id: 3 }] },
+      right: { items: [{ ItemId: 1 }, { ItemId: 2 }] },
+    },
+    {
+      name: 'Should look up defaults and pass missing values through',
+      rules: [
+        {
+          left: 'status',
+          right: 'state',
+          format: {
+            type: MappingRuleFormatType.LOOKUP,
+            table: [[1, 'active']],
+          },
+          default: { toRight: 1 },
+        },
+        {
+          left: 'other',
+          right: 'otherState',
+          format: {
+            type: MappingRuleFormatType.LOOKUP,
+            table: [[1, 'active']],
+          },
+        },
+      ],
+      left: {},
+      right: { state: 'active', otherState: undefined },
+    },
   ]);
 
   generateTests('rule order with MappingPlanRuleOrder', [
@@ -1046,133 +1296,402 @@ describe('JSON Schema Mapping', () => {
     },
   ]);
 
-  generateTests('complex mapping', [
+  generateTests('aliased field selection mapping', [
     {
-      name: 'should map nested array slices for users, orders, and items',
+      name: 'should rename selected fields in both directions',
+      bidirectional,
       rules: [
         {
-          left: 'users[[0]]{{id,name}}',
-          right: 'users[[0]]',
+          left: 'user.{id, full_name: name, email_address: email}',
+          right: 'profile',
         },
-        {
-          left: 'users[[0]].orders[[0,1]]',
-          right: 'users[[0]].orders',
+      ],
+      left: {
+        user: { id: 1, name: 'John', email: 'john@example.com' },
+      },
+      right: {
+        profile: {
+          id: 1,
+          full_name: 'John',
+          email_address: 'john@example.com',
         },
+      },
+    },
+    {
+      name: 'should rename selected fields of every array element in both directions',
+      bidirectional,
+      rules: [
         {
-          left: 'users[[0]].orders[[0,1]].items[[0,3]]',
-          right: 'users[[0]].orders[[0]].items',
+          left: 'users[[0]].{id, full_name: name}',
+          right: 'people[[0]].{id: key, full_name: label}',
         },
       ],
       left: {
         users: [
-          {
-            id: 1,
-            name: 'John',
-            orders: [
-              {
-                id: 101,
-                date: '2023-01-15',
-                items: [
-                  { id: 1001, name: 'Item 1', price: 10.99 },
-                  { id: 1002, name: 'Item 2', price: 20.99 },
-                  { id: 1003, name: 'Item 3', price: 30.99 },
-                  { id: 1004, name: 'Item 4', price: 40.99 },
-                  { id: 1005, name: 'Item 5', price: 50.99 },
-                ],
-              },
-              {
-                id: 102,
-                date: '2023-01-20',
-                items: [
-                  { id: 2001, name: 'Item A', price: 15.99 },
-                  { id: 2002, name: 'Item B', price: 25.99 },
-                  { id: 2003, name: 'Item C', price: 35.99 },
-                ],
-              },
-              {
-                id: 103,
-                date: '2023-01-25',
-                items: [
-                  { id: 2501, name: 'Item D', price: 45.99 },
-                  { id: 2502, name: 'Item E', price: 55.99 },
-                ],
-              },
-            ],
-          },
-          {
-            id: 2,
-            name: 'Jane',
-            orders: [
-              {
-                id: 201,
-                date: '2023-02-05',
-                items: [
-                  { id: 3001, name: 'Item X1', price: 100.99 },
-                  { id: 3002, name: 'Item X2', price: 200.99 },
-                  { id: 3003, name: 'Item X3', price: 300.99 },
-                  { id: 3004, name: 'Item X4', price: 400.99 },
-                ],
-              },
-              {
-                id: 202,
-                date: '2023-02-10',
-                items: [
-                  { id: 4001, name: 'Item Y1', price: 150.99 },
-                  { id: 4002, name: 'Item Y2', price: 250.99 },
-                ],
-              },
-              {
-                id: 203,
-                date: '2023-02-15',
-                items: [{ id: 5001, name: 'Item Z1', price: 350.99 }],
-              },
-            ],
-          },
-          {
-            id: 3,
-            name: 'Robert',
-            orders: [
-              {
-                id: 301,
-                date: '2023-03-05',
-                items: [
-                  { id: 6001, name: 'Item P1', price: 120.99 },
-                  { id: 6002, name: 'Item P2', price: 220.99 },
-                ],
-              },
-            ],
-          },
-          {
-            id: 4,
-            name: 'Emily',
-            orders: [
-              {
-                id: 401,
-                date: '2023-04-10',
-                items: [
-                  { id: 7001, name: 'Item Q1', price: 130.99 },
-                  { id: 7002, name: 'Item Q2', price: 230.99 },
-                ],
-              },
-            ],
-          },
-          {
-            id: 5,
-            name: 'Michael',
-            orders: [],
-          },
-          {
-            id: 6,
-            name: 'Sarah',
-            orders: [],
-          },
+          { id: 1, name: 'John' },
+          { id: 2, name: 'Jane' },
+        ],
+      },
+      right: {
+        people: [
+          { key: 1, label: 'John' },
+          { key: 2, label: 'Jane' },
+        ],
+      },
+    },
+  ]);
+
+  generateTests('entries mapping', [
+    {
+      name: 'should convert between name/value lists and records in both directions',
+      bidirectional,
+      rules: [
+        {
+          left: 'headerList[[0]].{key: name, value}',
+          right: 'headers.@entries',
+        },
+      ],
+      left: {
+        headerList: [
+          { name: 'accept', value: 'application/json' },
+          { name: 'host', value: 'example.com' },
         ],
       },
       right: {
+        headers: { accept: 'application/json', host: 'example.com' },
+      },
+    },
+    {
+      name: 'should convert records inside arrays in both directions',
+      bidirectional,
+      rules: [
+        {
+          left: 'users[[0]].attributes',
+          right: 'users[[0]].attributes.@entries',
+        },
+      ],
+      left: {
         users: [
-          {
-            id: 1,
-            name: 'John',
+          { attributes: [{ key: 'role', value: 'admin' }] },
+          { attributes: [] },
+        ],
+      },
+      right: {
+        users: [{ attributes: { role: 'admin' } }, { attributes: {} }],
+      },
+    },
+  ]);
+
+  generateTests('keyed element mapping', [
+    {
+      name: 'should map fields to and from elements picked by a key in both directions',
+      bidirectional,
+      rules: [
+        { left: 'email', right: "contacts[type='email'].value" },
+        { left: 'phone', right: "contacts[type='phone'].value" },
+        { left: 'phoneVerified', right: "contacts[type='phone'].verified" },
+      ],
+      left: {
+        email: 'ann@example.com',
+        phone: '555-0100',
+        phoneVerified: true,
+      },
+      right: {
+        contacts: [
+          { value: 'ann@example.com', type: 'email' },
+          { value: '555-0100', type: 'phone', verified: true },
+        ],
+      },
+    },
+    {
+      name: 'should pick elements by key regardless of their position',
+      rules: [{ left: 'lines[sku="A-1"].qty', right: 'quantity' }],
+      left: {
+        lines: [
+          { sku: 'B-2', qty: 1 },
+          { sku: 'A-1', qty: 3 },
+        ],
+      },
+      right: { quantity: 3 },
+    },
+    {
+      name: 'should not add elements for values that are missing',
+      rules: [
+        { left: 'email', right: 'users[id=42].email' },
+        { left: 'address', right: 'users[id=43].address.street' },
+        { left: 'name', right: 'users[id=44].name' },
+      ],
+      left: { name: 'Ann' },
+      right: { users: [{ name: 'Ann', id: 44 }] },
+    },
+  ]);
+
+  generateTests('strided slice mapping', [
+    {
+      name: 'should split interleaved samples in both directions',
+      bidirectional,
+      rules: [
+        { left: 'samples[[0,,2]]', right: 'even' },
+        { left: 'samples[[1,,2]]', right: 'odd' },
+      ],
+      left: {
+        samples: [0, 1, 2, 3, 4, 5],
+      },
+      right: {
+        even: [0, 2, 4],
+        odd: [1, 3, 5],
+      },
+    },
+    {
+      name: 'should map every other element in reverse order',
+      rules: [{ left: 'readings[[0,6,-2]].value', right: 'latest' }],
+      left: {
+        readings: [
+          { value: 1 },
+          { value: 2 },
+          { value: 3 },
+          { value: 4 },
+          { value: 5 },
+          { value: 6 },
+        ],
+      },
+      right: {
+        latest: [6, 4, 2],
+      },
+    },
+  ]);
+
+  generateTests('quoted field name mapping', [
+    {
+      name: 'should map fields with special characters in both directions',
+      bidirectional,
+      rules: [
+        { left: `headers["content-type"]`, right: `meta['Content Type']` },
+        { left: `["user.name"]`, right: 'user.name' },
+      ],
+      left: {
+        headers: { 'content-type': 'application/json' },
+        'user.name': 'john',
+      },
+      right: {
+        meta: { 'Content Type': 'application/json' },
+        user: { name: 'john' },
+      },
+    },
+  ]);
+
+  generateTests('wildcard mapping', [
+    {
+      name: 'should preserve dynamic record keys in both directions',
+      bidirectional,
+      rules: [
+        { left: 'metrics.*.count', right: 'stats.*.total' },
+        { left: 'metrics.*.unit', right: 'units' },
+      ],
+      left: {
+        metrics: {
+          cpu: { count: 10, unit: 'ms' },
+          disk: { count: 20, unit: 'kb' },
+        },
+      },
+      right: {
+        stats: {
+          cpu: { total: 10 },
+          disk: { total: 20 },
+        },
+        units: { cpu: 'ms', disk: 'kb' },
+      },
+    },
+  ]);
+
+  generateTests('recursive descent mapping', [
+    {
+      name: 'should collect nested values left to right',
+      rules: [
+        { left: 'id', right: 'id' },
+        { left: '..email', right: 'contacts' },
+      ],
+      left: {
+        id: 1,
+        owner: { email: 'owner@example.com' },
+        members: [{ email: 'a@example.com' }, { email: 'b@example.com' }],
+      },
+      right: {
+        id: 1,
+        contacts: ['owner@example.com', 'a@example.com', 'b@example.com'],
+      },
+    },
+    {
+      name: 'should ignore rules that target a recursive descent right to left',
+      rightToLeft,
+      rules: [
+        { left: 'id', right: 'id' },
+        { left: '..email', right: 'contacts' },
+      ],
+      right: {
+        id: 1,
+        contacts: ['owner@example.com'],
+      },
+      left: {
+        id: 1,
+      },
+    },
+  ]);
+
+  generateTests('filter mapping', [
+    {
+      name: 'should map filtered array elements in both directions',
+      bidirectional,
+      rules: [
+        {
+          left: "addresses[?(@.type == 'billing')].street",
+          right: 'billingStreets',
+        },
+        {
+          left: "addresses[?(@.type == 'shipping' && @.active == true)].street",
+          right: 'shippingStreets',
+        },
+      ],
+      left: {
+        addresses: [
+          { type: 'billing', street: '1 Main St' },
+          { type: 'shipping', street: '2 Side St', active: true },
+        ],
+      },
+      right: {
+        billingStreets: ['1 Main St'],
+        shippingStreets: ['2 Side St'],
+      },
+    },
+  ]);
+
+  generateTests('complex mapping', [
+    {
+      name: 'should map nested array slices for users, orders, and items',
+      rules: [
+        {
+          left: 'users[[0]]{{id,name}}',
+          right: 'users[[0]]',
+        },
+        {
+          left: 'users[[0]].orders[[0,1]]',
+          right: 'users[[0]].orders',
+        },
+        {
+          left: 'users[[0]].orders[[0,1]].items[[0,3]]',
+          right: 'users[[0]].orders[[0]].items',
+        },
+      ],
+      left: {
+        users: [
+          {
+            id: 1,
+            name: 'John',
+            orders: [
+              {
+                id: 101,
+                date: '2023-01-15',
+                items: [
+                  { id: 1001, name: 'Item 1', price: 10.99 },
+                  { id: 1002, name: 'Item 2', price: 20.99 },
+                  { id: 1003, name: 'Item 3', price: 30.99 },
+                  { id: 1004, name: 'Item 4', price: 40.99 },
+                  { id: 1005, name: 'Item 5', price: 50.99 },
+                ],
+              },
+              {
+                id: 102,
+                date: '2023-01-20',
+                items: [
+                  { id: 2001, name: 'Item A', price: 15.99 },
+                  { id: 2002, name: 'Item B', price: 25.99 },
+                  { id: 2003, name: 'Item C', price: 35.99 },
+                ],
+              },
+              {
+                id: 103,
+                date: '2023-01-25',
+                items: [
+                  { id: 2501, name: 'Item D', price: 45.99 },
+                  { id: 2502, name: 'Item E', price: 55.99 },
+                ],
+              },
+            ],
+          },
+          {
+            id: 2,
+            name: 'Jane',
+            orders: [
+              {
+                id: 201,
+                date: '2023-02-05',
+                items: [
+                  { id: 3001, name: 'Item X1', price: 100.99 },
+                  { id: 3002, name: 'Item X2', price: 200.99 },
+                  { id: 3003, name: 'Item X3', price: 300.99 },
+                  { id: 3004, name: 'Item X4', price: 400.99 },
+                ],
+              },
+              {
+                id: 202,
+                date: '2023-02-10',
+                items: [
+                  { id: 4001, name: 'Item Y1', price: 150.99 },
+                  { id: 4002, name: 'Item Y2', price: 250.99 },
+                ],
+              },
+              {
+                id: 203,
+                date: '2023-02-15',
+                items: [{ id: 5001, name: 'Item Z1', price: 350.99 }],
+              },
+            ],
+          },
+          {
+            id: 3,
+            name: 'Robert',
+            orders: [
+              {
+                id: 301,
+                date: '2023-03-05',
+                items: [
+                  { id: 6001, name: 'Item P1', price: 120.99 },
+                  { id: 6002, name: 'Item P2', price: 220.99 },
+                ],
+              },
+            ],
+          },
+          {
+            id: 4,
+            name: 'Emily',
+            orders: [
+              {
+                id: 401,
+                date: '2023-04-10',
+                items: [
+                  { id: 7001, name: 'Item Q1', price: 130.99 },
+                  { id: 7002, name: 'Item Q2', price: 230.99 },
+                ],
+              },
+            ],
+          },
+          {
+            id: 5,
+            name: 'Michael',
+            orders: [],
+          },
+          {
+            id: 6,
+            name: 'Sarah',
+            orders: [],
+          },
+        ],
+      },
+      right: {
+        users: [
+          {
+            id: 1,
+            name: 'John',
             orders: [
               {
                 id: 101,
@@ -1353,21 +1872,545 @@ describe('JSON Schema Mapping', () => {
     },
   ]);
 
-  // Tests for error thrown when applying formatting to non-string values
-  describe('formatting error handling', () => {
-    it('should throw error when applying format to object value', () => {
-      const rules = [
+  generateTests('variables in mapping', [
+    {
+      name: 'should bind variables in field names in both directions',
+      bidirectional,
+      variables: { locale: 'fr' },
+      rules: [{ left: 'labels.$locale', right: 'label' }],
+      left: { labels: { fr: 'Bonjour' } },
+      right: { label: 'Bonjour' },
+    },
+    {
+      name: 'should bind variables in indexes and key values in both directions',
+      bidirectional,
+      variables: { index: 0, sku: 'A-1' },
+      rules: [
+        { left: 'tenants[$index]', right: 'tenant' },
+        { left: 'lines[sku=$sku].qty', right: 'quantity' },
+      ],
+      left: { tenants: ['a'], lines: [{ qty: 3, sku: 'A-1' }] },
+      right: { tenant: 'a', quantity: 3 },
+    },
+  ]);
+
+  generateTests('conditional rules', [
+    {
+      name: 'should only map rules whose condition holds for the source',
+      rules: [
         {
-          left: 'data.objectValue',
-          right: 'formattedValue',
-          format: {
-            type: MappingRuleFormatType.TIMESTAMP,
-            left: TimestampFormats.ISO8601,
-            right: TimestampFormats.HTTP,
+          left: 'shipping',
+          right: 'delivery',
+          when: {
+            toRight: { path: 'fulfillment', operator: '==', value: 'ship' },
           },
         },
-      ];
-
+        {
+          left: 'discount',
+          right: 'discount',
+          when: { toRight: { path: 'discount', operator: '!=', value: 0 } },
+        },
+        { left: 'fulfillment', right: 'method' },
+      ],
+      left: {
+        fulfillment: 'pickup',
+        shipping: { city: 'Austin' },
+        discount: 0,
+      },
+      right: { method: 'pickup' },
+    },
+    {
+      name: 'should map rules whose condition holds',
+      rules: [
+        {
+          left: 'shipping',
+          right: 'delivery',
+          when: {
+            toRight: { path: 'fulfillment', operator: '==', value: 'ship' },
+          },
+        },
+      ],
+      left: { fulfillment: 'ship', shipping: { city: 'Austin' } },
+      right: { delivery: { city: 'Austin' } },
+    },
+    {
+      name: 'should check conditions separately per direction',
+      rightToLeft,
+      rules: [
+        {
+          left: 'discount',
+          right: 'discount',
+          when: {
+            toRight: () => false,
+            toLeft: (right: JSONType) =>
+              (right as { discount: number }).discount > 0,
+          },
+        },
+      ],
+      left: { discount: 5 },
+      right: { discount: 5 },
+    },
+    {
+      name: 'should skip literals and overrides of rules whose condition fails',
+      rules: [
+        {
+          literal: 'v2',
+          right: 'version',
+          when: { toRight: (left: JSONType) => left !== null },
+        },
+        {
+          left: 'name',
+          right: 'name',
+          when: { toRight: { path: 'active', operator: '==', value: true } },
+        },
+      ],
+      left: { name: 'a', active: false },
+      leftOverride: { name: 'b' },
+      right: { version: 'v2' },
+    },
+  ]);
+
+  generateTests('default values', [
+    {
+      name: 'should map source values that are present as they are',
+      bidirectional,
+      rules: [
+        {
+          left: 'status',
+          right: 'state',
+          default: { toRight: 'pending', toLeft: 'PENDING' },
+        },
+      ],
+      left: { status: 'active' },
+      right: { state: 'active' },
+    },
+    {
+      name: 'should fall back to the right default when the left value is missing',
+      rules: [
+        {
+          left: 'status',
+          right: 'state',
+          default: { toRight: 'pending', toLeft: 'PENDING' },
+        },
+      ],
+      left: {},
+      right: { state: 'pending' },
+    },
+    {
+      name: 'should fall back to the left default when the right value is missing',
+      rightToLeft,
+      rules: [
+        {
+          left: 'status',
+          right: 'state',
+          default: { toRight: 'pending', toLeft: 'PENDING' },
+        },
+      ],
+      left: { status: 'PENDING' },
+      right: {},
+    },
+    {
+      name: 'should not use the default for null values',
+      rules: [{ left: 'status', right: 'state', default: { toRight: 'x' } }],
+      left: { status: null },
+      right: { state: null },
+    },
+    {
+      name: 'should transform and format defaults like source values',
+      rules: [
+        {
+          left: 'count',
+          right: 'label',
+          default: { toRight: 0 },
+          transform: {
+            toRight: (count: number) => `${count} items`,
+            toLeft: (label: string) => parseInt(label, 10),
+          },
+        },
+        {
+          left: 'createdAt',
+          right: 'created',
+          default: { toRight: '2025-01-15T14:30:45.000Z' },
+          format: {
+            type: MappingRuleFormatType.TIMESTAMP,
+            toLeft: TimestampFormats.ISO8601,
+            toRight: 'yyyy-MM-dd',
+          },
+        },
+      ],
+      left: {},
+      right: { label: '0 items', created: '2025-01-15' },
+    },
+    {
+      name: 'should let overrides win over defaults',
+      rules: [{ left: 'status', right: 'state', default: { toRight: 'x' } }],
+      left: {},
+      leftOverride: { state: 'override' },
+      right: { state: 'override' },
+    },
+  ]);
+
+  generateTests('sub-plans', [
+    {
+      name: 'should map each array element with the sub-plan in both directions',
+      bidirectional,
+      rules: [
+        { left: 'orderId', right: 'id' },
+        { left: 'items', right: 'lines', plan: LINE_ITEM_PLAN },
+      ],
+      left: {
+        orderId: 7,
+        items: [
+          { sku: 'A-1', qty: 2 },
+          { sku: 'B-2', qty: 1 },
+        ],
+      },
+      right: {
+        id: 7,
+        lines: [
+          { productCode: 'A-1', quantity: 2 },
+          { productCode: 'B-2', quantity: 1 },
+        ],
+      },
+    },
+    {
+      name: 'should map the elements of nested arrays with the sub-plan in both directions',
+      bidirectional,
+      rules: [{ left: 'pallets', right: 'boxes', plan: LINE_ITEM_PLAN }],
+      left: {
+        pallets: [[{ sku: 'A-1', qty: 2 }, [{ sku: 'B-2', qty: 1 }]], []],
+      },
+      right: {
+        boxes: [
+          [
+            { productCode: 'A-1', quantity: 2 },
+            [{ productCode: 'B-2', quantity: 1 }],
+          ],
+          [],
+        ],
+      },
+    },
+    {
+      name: 'should map a sub-object with the sub-plan in both directions',
+      bidirectional,
+      rules: [{ left: 'item', right: 'line', plan: LINE_ITEM_PLAN }],
+      left: { item: { sku: 'A-1', qty: 2 } },
+      right: { line: { productCode: 'A-1', quantity: 2 } },
+    },
+    {
+      name: 'should map recursive structures with a self-referencing plan in both directions',
+      bidirectional,
+      rules: [{ left: 'comments', right: 'threads', plan: () => COMMENT_PLAN }],
+      left: {
+        comments: [
+          {
+            text: 'first',
+            replies: [
+              { text: 'reply', replies: [{ text: 'nested', replies: [] }] },
+            ],
+          },
+          { text: 'second', replies: [] },
+        ],
+      },
+      right: {
+        threads: [
+          {
+            body: 'first',
+            children: [
+              { body: 'reply', children: [{ body: 'nested', children: [] }] },
+            ],
+          },
+          { body: 'second', children: [] },
+        ],
+      },
+    },
+    {
+      name: 'should pass null elements and values through the sub-plan as they are',
+      rules: [
+        { left: 'items', right: 'lines', plan: LINE_ITEM_PLAN },
+        { left: 'item', right: 'line', plan: LINE_ITEM_PLAN },
+      ],
+      left: { items: [null, { sku: 'A-1', qty: 2 }], item: null },
+      right: { lines: [null, { productCode: 'A-1', quantity: 2 }], line: null },
+    },
+    {
+      name: 'should pass variables to sub-plans',
+      variables: { locale: 'fr' },
+      rules: [
+        {
+          left: 'items',
+          right: 'lines',
+          plan: subPlan([{ left: 'names.$locale', right: 'name' }]),
+        },
+      ],
+      left: { items: [{ names: { en: 'Chair', fr: 'Chaise' } }] },
+      right: { lines: [{ name: 'Chaise' }] },
+    },
+    {
+      name: 'should map defaults with the sub-plan',
+      rules: [
+        {
+          left: 'item',
+          right: 'line',
+          plan: LINE_ITEM_PLAN,
+          default: { toRight: { sku: 'NONE', qty: 0 } },
+        },
+      ],
+      left: {},
+      right: { line: { productCode: 'NONE', quantity: 0 } },
+    },
+  ]);
+
+  const NAME_TRANSFORM = {
+    toRight: ([first, last]: string[]) => `${first} ${last}`,
+    toLeft: (name: string) => name.split(' '),
+  };
+
+  generateTests('tuple rules', [
+    {
+      name: 'should combine several fields into one and split them back',
+      bidirectional,
+      rules: [
+        {
+          left: ['firstName', 'lastName'],
+          right: 'person.fullName',
+          transform: NAME_TRANSFORM,
+        },
+      ],
+      left: { firstName: 'Ann', lastName: 'Lee' },
+      right: { person: { fullName: 'Ann Lee' } },
+    },
+    {
+      name: 'should split one field into several and combine them back',
+      bidirectional,
+      rules: [
+        {
+          left: 'location',
+          right: ['lat', 'lng'],
+          transform: {
+            toRight: (value: string) => value.split(',').map(Number),
+            toLeft: ([lat, lng]: number[]) => `${lat},${lng}`,
+          },
+        },
+      ],
+      left: { location: '30.2,-97.7' },
+      right: { lat: 30.2, lng: -97.7 },
+    },
+    {
+      name: 'should map tuples as they are without a transform',
+      bidirectional,
+      rules: [
+        { left: ['a', 'b.c'], right: 'pair' },
+        { left: ['x', 'y'], right: ['point[0]', 'point[1]'] },
+      ],
+      left: { a: 1, b: { c: 'two' }, x: 3, y: 4 },
+      right: { pair: [1, 'two'], point: [3, 4] },
+    },
+    {
+      name: 'should keep missing values in their place in the tuple',
+      rules: [{ left: ['a', 'b', 'c'], right: 'values' }],
+      left: { b: 2 },
+      right: { values: [undefined, 2, undefined] },
+    },
+    {
+      name: 'should only use the default when every source value is missing',
+      rules: [
+        {
+          left: ['firstName', 'lastName'],
+          right: 'fullName',
+          transform: NAME_TRANSFORM,
+          default: { toRight: ['Jane', 'Doe'] },
+        },
+      ],
+      left: {},
+      right: { fullName: 'Jane Doe' },
+    },
+    {
+      name: 'should override target values path by path',
+      rightToLeft,
+      rules: [
+        {
+          left: ['first', 'last'],
+          right: 'fullName',
+          transform: NAME_TRANSFORM,
+        },
+      ],
+      left: { first: 'Ann', last: 'Smith' },
+      right: { fullName: 'Ann Lee' },
+      rightOverride: { last: 'Smith' },
+    },
+    {
+      name: 'should not map when every target value is overridden',
+      rules: [
+        {
+          left: 'fullName',
+          right: ['first', 'last'],
+          transform: {
+            toLeft: (v: JSONType) => v,
+            toRight: () => {
+              throw new Error('should not be called');
+            },
+          },
+        },
+      ],
+      left: { fullName: 'Ann Lee' },
+      leftOverride: { first: 'Bo', last: 'Smith' },
+      right: { first: 'Bo', last: 'Smith' },
+    },
+    {
+      name: 'should bind variables in every path',
+      variables: { a: 'first', b: 'last' },
+      rules: [{ left: ['$a', '$b'], right: 'names' }],
+      left: { first: 'Ann', last: 'Lee' },
+      right: { names: ['Ann', 'Lee'] },
+    },
+    {
+      name: 'should ignore tuple rules with an extract only target path',
+      rightToLeft,
+      rules: [
+        { left: 'id', right: 'id' },
+        { left: ['a', '..b'], right: 'pair' },
+      ],
+      left: { id: 1 },
+      right: { id: 1, pair: [1, 2] },
+    },
+  ]);
+
+  describe('tuple error handling', () => {
+    it('should throw when a tuple target gets a value that is not an array', () => {
+      const plan = compile([
+        {
+          left: 'name',
+          right: ['first', 'last'],
+          transform: {
+            toLeft: (v: JSONType) => v,
+            toRight: (v: JSONType) => v,
+          },
+        },
+      ]);
+
+      expect(() => map({ name: 'Ann Lee' }, plan)).toThrow(
+        'Rule 0: Right: Expected a tuple of 2 values, got string',
+      );
+    });
+
+    it('should name the path of a tuple that fails to bind', () => {
+      const plan = compile([{ left: ['a', 'b.$field'], right: 'pair' }]);
+
+      expect(() => map({}, plan)).toThrow(
+        "Rule 0: Left[1]: Unbound variable '$field'",
+      );
+    });
+  });
+
+  describe('condition error handling', () => {
+    it('should name the rule and direction of a failing condition', () => {
+      const plan = compile([
+        { left: 'a', right: 'a' },
+        {
+          left: 'b',
+          right: 'b',
+          when: {
+            toRight: () => {
+              throw new Error('bad condition');
+            },
+            toLeft: () => {
+              // eslint-disable-next-line @typescript-eslint/only-throw-error
+              throw 'not an error';
+            },
+          },
+        },
+      ]);
+
+      expect(() => map({}, plan)).toThrow(
+        'Rule 1: When toRight: bad condition',
+      );
+      expect(() => map({}, plan, undefined, MAP_DIRECTION.RightToLeft)).toThrow(
+        'Rule 1: When toLeft: not an error',
+      );
+    });
+  });
+
+  describe('variable error handling', () => {
+    const plan = compile([
+      { left: 'name', right: 'name' },
+      { left: 'labels.$locale', right: 'label' },
+      { left: 'values[sku=$sku]', right: 'items[$index]' },
+    ]);
+
+    it('should name the rule and side of an unbound variable', () => {
+      expect(() => map({}, plan)).toThrow(
+        "Rule 1: Left: Unbound variable '$locale'",
+      );
+      expect(() =>
+        map({}, plan, undefined, MAP_DIRECTION.LeftToRight, {
+          variables: { locale: 'en' },
+        }),
+      ).toThrow("Rule 2: Right: Unbound variable '$index'");
+      expect(() =>
+        map({}, plan, undefined, MAP_DIRECTION.RightToLeft, {
+          variables: {
+            locale: 'en',
+            index: 0,
+          },
+        }),
+      ).toThrow("Rule 2: Left: Unbound variable '$sku'");
+    });
+
+    it('should name the same rule when rules run in reverse order', () => {
+      const descPlan = compile(
+        [
+          { left: 'labels.$locale', right: 'label' },
+          { left: 'name', right: 'name' },
+        ],
+        { order: { toRight: MappingPlanRuleOrder.DESC } },
+      );
+
+      expect(() => map({}, descPlan)).toThrow(
+        "Rule 0: Left: Unbound variable '$locale'",
+      );
+    });
+
+    it('should report values that can not be used where the variable is', () => {
+      expect(() =>
+        map({}, plan, undefined, MAP_DIRECTION.LeftToRight, {
+          variables: {
+            locale: 1,
+          },
+        }),
+      ).toThrow(
+        "Rule 1: Left: Variable '$locale' must be a string to be used as a field name, got 1",
+      );
+    });
+
+    it('should not bind rules that do not run in the direction being mapped', () => {
+      const oneWayPlan = compile([
+        { left: 'a..b', right: 'x.$field' },
+        { literal: 'x', right: 'y.$field' },
+        { left: 'name', right: 'name' },
+      ]);
+
+      expect(
+        map({ name: 'a' }, oneWayPlan, undefined, MAP_DIRECTION.RightToLeft),
+      ).toStrictEqual({ name: 'a' });
+    });
+  });
+
+  // Tests for error thrown when applying formatting to non-string values
+  describe('formatting error handling', () => {
+    it('should throw error when applying format to object value', () => {
+      const rules = [
+        {
+          left: 'data.objectValue',
+          right: 'formattedValue',
+          format: {
+            type: MappingRuleFormatType.TIMESTAMP,
+            left: TimestampFormats.ISO8601,
+            right: TimestampFormats.HTTP,
+          },
+        },
+      ];
+
       const source = {
         data: {
           objectValue: { key: 'value' },
@@ -1380,6 +2423,903 @@ describe('JSON Schema Mapping', () => {
         map(source, plan);
       }).toThrow('Can not apply timestamp formatting to non-string value');
     });
+
+    it('should throw error for values not in a lookup table, naming the rule', () => {
+      const plan = compile([
+        { left: 'id', right: 'id' },
+        {
+          left: 'status',
+          right: 'state',
+          format: {
+            type: MappingRuleFormatType.LOOKUP,
+            table: [[1, 'active']],
+            fallback: { toRight: 'other' },
+          },
+        },
+      ]);
+
+      expect(() =>
+        map({ state: 'paused' }, plan, undefined, MAP_DIRECTION.RightToLeft),
+      ).toThrow('Rule 1: No lookup entry for right value "paused"');
+    });
+
+    it('should throw error when scaling non-number values, naming the rule', () => {
+      const plan = compile([
+        {
+          left: 'price',
+          right: 'cents',
+          format: { type: MappingRuleFormatType.SCALE, factor: 100 },
+        },
+      ]);
+
+      expect(() => map({ price: '19.99' }, plan)).toThrow(
+        'Rule 0: Can not apply scale formatting to non-number value',
+      );
+    });
+  });
+
+  describe('tracing', () => {
+    const plan = compile(
+      [
+        { left: 'id', right: 'userId' },
+        { right: 'version', literal: 2 },
+        { left: 'nickname', right: 'alias', default: { toRight: 'none' } },
+        {
+          left: 'price',
+          right: 'cents',
+          transform: {
+            toRight: (price: number) => price * 100,
+            toLeft: (cents: number) => cents / 100,
+          },
+          format: {
+            type: MappingRuleFormatType.SCALE,
+            factor: 1,
+            precision: { toRight: 0 },
+          },
+        },
+        {
+          left: 'note',
+          right: 'comment',
+          when: { toRight: { path: 'note', operator: '!=', value: null } },
+        },
+        { left: ['first', 'last'], right: 'names' },
+        { left: 'labels.$locale', right: 'label' },
+        { left: 'status', right: 'state' },
+      ],
+      { order: { toRight: MappingPlanRuleOrder.DESC } },
+    );
+
+    it('should record what each rule did, in the order the rules ran', () => {
+      const trace: MappingRuleTrace[] = [];
+
+      const result = map(
+        {
+          id: 1,
+          price: 19.999,
+          note: null,
+          first: 'Ann',
+          last: 'Lee',
+          labels: { fr: 'Bonjour' },
+          status: 'on',
+        },
+        plan,
+        { state: 'off' },
+        MAP_DIRECTION.LeftToRight,
+        { variables: { locale: 'fr' }, trace },
+      );
+
+      expect(result).toStrictEqual({
+        userId: 1,
+        version: 2,
+        alias: 'none',
+        cents: 2000,
+        names: ['Ann', 'Lee'],
+        label: 'Bonjour',
+        state: 'off',
+      });
+      expect(trace).toStrictEqual([
+        {
+          index: 0,
+          source: 'id',
+          target: 'userId',
+          applied: true,
+          extracted: 1,
+          value: 1,
+          origin: 'source',
+          duration: expect.any(Number) as number,
+        },
+        {
+          index: 1,
+          source: undefined,
+          target: 'version',
+          applied: true,
+          extracted: undefined,
+          value: 2,
+          origin: 'literal',
+          duration: expect.any(Number) as number,
+        },
+        {
+          index: 2,
+          source: 'nickname',
+          target: 'alias',
+          applied: true,
+          extracted: undefined,
+          value: 'none',
+          origin: 'default',
+          duration: expect.any(Number) as number,
+        },
+        {
+          index: 3,
+          source: 'price',
+          target: 'cents',
+          applied: true,
+          extracted: 19.999,
+          value: 2000,
+          origin: 'source',
+          duration: expect.any(Number) as number,
+        },
+        {
+          index: 4,
+          target: 'comment',
+          applied: false,
+          duration: expect.any(Number) as number,
+        },
+        {
+          index: 5,
+          source: ['first', 'last'],
+          target: 'names',
+          applied: true,
+          extracted: ['Ann', 'Lee'],
+          value: ['Ann', 'Lee'],
+          origin: 'source',
+          duration: expect.any(Number) as number,
+        },
+        {
+          index: 6,
+          source: 'labels.fr',
+          target: 'label',
+          applied: true,
+          extracted: 'Bonjour',
+          value: 'Bonjour',
+          origin: 'source',
+          duration: expect.any(Number) as number,
+        },
+        {
+          index: 7,
+          source: 'status',
+          target: 'state',
+          applied: true,
+          extracted: undefined,
+          value: undefined,
+          origin: 'override',
+          duration: expect.any(Number) as number,
+        },
+      ]);
+      expect(trace.every(({ duration }) => duration >= 0)).toBe(true);
+    });
+
+    it('should record rules in the order of the direction they ran in', () => {
+      const trace: MappingRuleTrace[] = [];
+
+      map(
+        { userId: 1, alias: 'Al', cents: 150, comment: 'hi', label: 'Hello' },
+        plan,
+        undefined,
+        MAP_DIRECTION.RightToLeft,
+        { variables: { locale: 'en' }, trace },
+      );
+
+      expect(trace.map(({ index, origin }) => [index, origin])).toStrictEqual([
+        [7, 'source'],
+        [6, 'source'],
+        [5, 'source'],
+        [4, 'source'],
+        [3, 'source'],
+        [2, 'source'],
+        [0, 'source'],
+      ]);
+      expect(trace[1].target).toBe('labels.en');
+      expect(trace[2].target).toStrictEqual(['first', 'last']);
+      expect(trace[4].value).toBe(1.5);
+    });
+  });
+
+  describe('collecting errors', () => {
+    const plan = compile([
+      { left: 'id', right: 'id' },
+      {
+        left: 'price',
+        right: 'cents',
+        transform: {
+          toRight: () => {
+            // eslint-disable-next-line @typescript-eslint/only-throw-error
+            throw 'bad price';
+          },
+          toLeft: (cents: number) => cents / 100,
+        },
+      },
+      {
+        left: 'created',
+        right: 'createdAt',
+        format: {
+          type: MappingRuleFormatType.TIMESTAMP,
+          toLeft: TimestampFormats.ISO8601,
+          toRight: TimestampFormats.HTTP,
+        },
+      },
+      { left: 'labels.$locale', right: 'label' },
+      { left: 'tags[-3]', right: 'tag' },
+      {
+        left: 'note',
+        right: 'comment',
+        when: {
+          toRight: () => {
+            // eslint-disable-next-line @typescript-eslint/only-throw-error
+            throw 'not an error';
+          },
+        },
+      },
+      { left: ['first', 'last'], right: 'names' },
+    ]);
+
+    const source = {
+      id: 1,
+      price: 2,
+      created: 3,
+      tags: ['new'],
+      first: 'Ann',
+      last: 'Lee',
+    };
+
+    it('should run every rule and throw every failure at the end', () => {
+      let error: MappingError | undefined;
+
+      try {
+        map(source, plan, undefined, MAP_DIRECTION.LeftToRight, {
+          collectErrors: true,
+        });
+      } catch (e) {
+        error = e as MappingError;
+      }
+
+      expect(error).toBeInstanceOf(MappingError);
+      expect(
+        (error as MappingError).failures.map(
+          ({ index, direction, source, target }) => ({
+            index,
+            direction,
+            source,
+            target,
+          }),
+        ),
+      ).toStrictEqual([
+        { index: 1, direction: 'toRight', source: 'price', target: 'cents' },
+        {
+          index: 2,
+          direction: 'toRight',
+          source: 'created',
+          target: 'createdAt',
+        },
+        {
+          index: 3,
+          direction: 'toRight',
+          source: 'labels.$locale',
+          target: 'label',
+        },
+        { index: 4, direction: 'toRight', source: 'tags[-3]', target: 'tag' },
+        { index: 5, direction: 'toRight', source: 'note', target: 'comment' },
+      ]);
+      expect((error as MappingError).failures[0].cause).toBe('bad price');
+      expect((error as MappingError).message).toBe(
+        [
+          '5 rules failed:',
+          'Rule 1 toRight: bad price',
+          'Rule 2 toRight: Can not apply timestamp formatting to non-string value',
+          "Rule 3 toRight: Left: Unbound variable '$locale'",
+          'Rule 4 toRight: Exception at tags[-3]: Reverse array index out of bounds: -2',
+          'Rule 5 toRight: When toRight: not an error',
+        ].join('\n'),
+      );
+    });
+
+    it('should name the direction the rules failed in', () => {
+      expect(() =>
+        map(
+          {
+            createdAt: 'Wed, 15 Jan 2025 14:30:45 GMT',
+            label: 'Hello',
+            names: 'Ann Lee',
+          },
+          plan,
+          undefined,
+          MAP_DIRECTION.RightToLeft,
+          { variables: { locale: 'en' }, collectErrors: true },
+        ),
+      ).toThrow(
+        [
+          '2 rules failed:',
+          'Rule 4 toLeft: Exception at tags[-3]: Reverse array index out of bounds: -3',
+          'Rule 6 toLeft: Left: Expected a tuple of 2 values, got string',
+        ].join('\n'),
+      );
+    });
+
+    it('should keep the rules that did not fail out of the failures', () => {
+      const trace: MappingRuleTrace[] = [];
+
+      expect(() =>
+        map(source, plan, undefined, MAP_DIRECTION.LeftToRight, {
+          trace,
+          collectErrors: true,
+        }),
+      ).toThrow(MappingError);
+      expect(trace.map(({ index }) => index)).toStrictEqual([0, 6]);
+    });
+
+    it('should return the result when no rule fails', () => {
+      expect(
+        map(
+          { id: 1, name: 'Ann' },
+          compile([{ left: 'id', right: 'id' }]),
+          undefined,
+          MAP_DIRECTION.LeftToRight,
+          { collectErrors: true },
+        ),
+      ).toStrictEqual({ id: 1 });
+    });
+
+    it('should count a single failure as one rule', () => {
+      const single = compile([
+        {
+          left: 'price',
+          right: 'cents',
+          transform: {
+            toRight: () => {
+              throw new Error('bad price');
+            },
+            toLeft: (cents: number) => cents,
+          },
+        },
+      ]);
+
+      expect(() =>
+        map({ price: 2 }, single, undefined, MAP_DIRECTION.LeftToRight, {
+          collectErrors: true,
+        }),
+      ).toThrow('1 rule failed:\nRule 0 toRight: bad price');
+    });
+
+    it('should stop at the first failure without collecting errors', () => {
+      expect(() => map(source, plan)).toThrow('bad price');
+    });
+  });
+
+  describe('async mapping', () => {
+    const delay = <T>(value: T, ms: number): Promise<T> =>
+      new Promise((resolve) => setTimeout(() => resolve(value), ms));
+
+    it('should await async transforms and format their results', async () => {
+      const plan = compile([
+        {
+          left: 'id',
+          right: 'code',
+          transform: {
+            toRight: (id: number) => delay(`U${id}`, 5),
+            toLeft: (code: string) => delay(Number(code.slice(1)), 5),
+          },
+        },
+        {
+          left: 'created',
+          right: 'createdAt',
+          transform: {
+            toRight: (created: string) => Promise.resolve(created.trim()),
+            toLeft: (createdAt: string) => createdAt,
+          },
+          format: {
+            type: MappingRuleFormatType.TIMESTAMP,
+            toLeft: TimestampFormats.ISO8601,
+            toRight: TimestampFormats.HTTP,
+          },
+        },
+        { left: 'name', right: 'name' },
+        { right: 'version', literal: 2 },
+      ]);
+
+      const right = await mapAsync(
+        { id: 7, created: ' 2025-01-15T14:30:45.000Z ', name: 'Ann' },
+        plan,
+      );
+
+      expect(right).toStrictEqual({
+        code: 'U7',
+        createdAt: 'Wed, 15 Jan 2025 14:30:45 GMT',
+        name: 'Ann',
+        version: 2,
+      });
+      expect(
+        await mapAsync(right, plan, { name: 'Bob' }, MAP_DIRECTION.RightToLeft),
+      ).toStrictEqual({
+        id: 7,
+        created: '2025-01-15T14:30:45.000Z',
+        name: 'Bob',
+      });
+    });
+
+    it('should map like map() when no transform is async', async () => {
+      const plan = compile([
+        { left: 'user.$field', right: 'profile' },
+        { left: 'missing', right: 'count', default: { toRight: 0 } },
+        {
+          left: 'tags',
+          right: 'labels',
+          transform: {
+            toRight: (tags: string[]) => tags.join(','),
+            toLeft: (labels: string) => labels.split(','),
+          },
+        },
+      ]);
+      const source = { user: { name: 'Ann' }, tags: ['a', 'b'] };
+      const variables = { field: 'name' };
+      const trace: MappingRuleTrace[] = [];
+      const asyncTrace: MappingRuleTrace[] = [];
+
+      expect(
+        await mapAsync(source, plan, undefined, MAP_DIRECTION.LeftToRight, {
+          variables,
+          trace: asyncTrace,
+        }),
+      ).toStrictEqual(
+        map(source, plan, undefined, MAP_DIRECTION.LeftToRight, {
+          variables,
+          trace,
+        }),
+      );
+      expect(
+        asyncTrace.map((record) => ({ ...record, duration: 0 })),
+      ).toStrictEqual(trace.map((record) => ({ ...record, duration: 0 })));
+    });
+
+    it('should time each rule by its own steps only', async () => {
+      const plan = compile([
+        {
+          left: 'slow',
+          right: 'slow',
+          transform: {
+            toRight: (slow: number) => delay(slow, 50),
+            toLeft: (slow: number) => slow,
+          },
+        },
+        {
+          left: 'fast',
+          right: 'fast',
+          transform: {
+            toRight: (fast: number) => Promise.resolve(fast),
+            toLeft: (fast: number) => fast,
+          },
+        },
+      ]);
+      const trace: MappingRuleTrace[] = [];
+
+      await mapAsync(
+        { slow: 1, fast: 2 },
+        plan,
+        undefined,
+        MAP_DIRECTION.LeftToRight,
+        { trace },
+      );
+
+      expect(trace.map(({ index }) => index)).toStrictEqual([0, 1]);
+      expect(trace[0].duration).toBeGreaterThanOrEqual(45);
+      expect(trace[1].duration).toBeLessThan(25);
+    });
+
+    it('should limit how many transforms run at once', async () => {
+      let running = 0;
+      let most = 0;
+
+      const slow = async (value: number): Promise<number> => {
+        running++;
+        most = Math.max(most, running);
+        await delay(undefined, 5);
+        running--;
+
+        return value * 2;
+      };
+
+      const plan = compile(
+        ['a', 'b', 'c', 'd', 'e'].map((field) => ({
+          left: field,
+          right: field,
+          transform: { toRight: slow, toLeft: slow },
+        })),
+      );
+      const source = { a: 1, b: 2, c: 3, d: 4, e: 5 };
+
+      expect(
+        await mapAsync(source, plan, undefined, MAP_DIRECTION.LeftToRight, {
+          concurrency: 2,
+        }),
+      ).toStrictEqual({ a: 2, b: 4, c: 6, d: 8, e: 10 });
+      expect(most).toBe(2);
+
+      most = 0;
+      await mapAsync(source, plan);
+      expect(most).toBe(5);
+    });
+
+    it('should let later rules win no matter which transform finishes first', async () => {
+      const plan = compile([
+        {
+          left: 'first',
+          right: 'name',
+          transform: {
+            toRight: (first: string) => delay(first, 10),
+            toLeft: (name: string) => name,
+          },
+        },
+        {
+          left: 'second',
+          right: 'name',
+          transform: {
+            toRight: (second: string) => delay(second, 1),
+            toLeft: (name: string) => name,
+          },
+        },
+      ]);
+
+      expect(
+        await mapAsync({ first: 'Ann', second: 'Bob' }, plan),
+      ).toStrictEqual({ name: 'Bob' });
+      expect(
+        await mapAsync(
+          { first: 'Ann', second: 'Bob' },
+          plan,
+          undefined,
+          undefined,
+          { concurrency: 1 },
+        ),
+      ).toStrictEqual({ name: 'Bob' });
+    });
+
+    it('should reject a concurrency that is not a positive integer', async () => {
+      const plan = compile([{ left: 'a', right: 'b' }]);
+
+      for (const concurrency of [0, 1.5, -1]) {
+        await expect(
+          mapAsync({ a: 1 }, plan, undefined, undefined, { concurrency }),
+        ).rejects.toThrow(
+          `Concurrency must be a positive integer, got ${concurrency}`,
+        );
+      }
+    });
+
+    it('should reject with the reason of a signal that is already aborted', async () => {
+      const controller = new AbortController();
+      const reason = new Error('cancelled');
+
+      controller.abort(reason);
+
+      await expect(
+        mapAsync(
+          { a: 1 },
+          compile([{ left: 'a', right: 'b' }]),
+          undefined,
+          undefined,
+          { signal: controller.signal },
+        ),
+      ).rejects.toBe(reason);
+    });
+
+    it('should stop starting transforms once the signal aborts', async () => {
+      const controller = new AbortController();
+      const started: string[] = [];
+
+      const plan = compile(
+        ['a', 'b', 'c'].map((field) => ({
+          left: field,
+          right: field,
+          transform: {
+            toRight: async (value: string) => {
+              started.push(field);
+
+              if (field === 'a') {
+                controller.abort('stop');
+              }
+
+              await delay(undefined, 5);
+
+              // a failure after the abort is not reported, the mapping already rejected
+              throw new Error(`late ${value}`);
+            },
+            toLeft: (value: string) => value,
+          },
+        })),
+      );
+
+      await expect(
+        mapAsync({ a: 'a', b: 'b', c: 'c' }, plan, undefined, undefined, {
+          concurrency: 1,
+          signal: controller.signal,
+        }),
+      ).rejects.toBe('stop');
+
+      await delay(undefined, 20);
+      expect(started).toStrictEqual(['a']);
+    });
+
+    it('should finish normally when the signal is never aborted', async () => {
+      const controller = new AbortController();
+
+      expect(
+        await mapAsync(
+          { a: 1 },
+          compile([
+            {
+              left: 'a',
+              right: 'b',
+              transform: {
+                toRight: (a: number) => delay(a + 1, 1),
+                toLeft: (b: number) => b - 1,
+              },
+            },
+          ]),
+          undefined,
+          undefined,
+          { signal: controller.signal },
+        ),
+      ).toStrictEqual({ b: 2 });
+
+      // the mapping no longer listens, aborting now does nothing
+      controller.abort();
+    });
+
+    it('should reject with the first failure without collecting errors', async () => {
+      const plan = compile([
+        {
+          left: 'a',
+          right: 'b',
+          transform: {
+            toRight: () => Promise.reject(new Error('bad a')),
+            toLeft: (b: number) => b,
+          },
+        },
+        { left: 'c.$field', right: 'd' },
+      ]);
+
+      await expect(mapAsync({ a: 1 }, plan)).rejects.toThrow(
+        "Rule 1: Left: Unbound variable '$field'",
+      );
+      await expect(
+        mapAsync({ a: 1 }, plan, undefined, undefined, {
+          variables: { field: 'x' },
+        }),
+      ).rejects.toThrow('bad a');
+    });
+
+    it('should collect every failure in rule order', async () => {
+      const plan = compile([
+        { left: 'id', right: 'id' },
+        {
+          left: 'price',
+          right: 'cents',
+          transform: {
+            toRight: () =>
+              delay(undefined, 10).then(() =>
+                Promise.reject(new Error('bad price')),
+              ),
+            toLeft: (cents: number) => cents / 100,
+          },
+        },
+        {
+          left: 'created',
+          right: 'createdAt',
+          transform: {
+            toRight: (created: number) => Promise.resolve(created),
+            toLeft: (createdAt: number) => createdAt,
+          },
+          format: {
+            type: MappingRuleFormatType.TIMESTAMP,
+            toLeft: TimestampFormats.ISO8601,
+            toRight: TimestampFormats.HTTP,
+          },
+        },
+        { left: 'labels.$locale', right: 'label' },
+        { left: 'name', right: 'names[-3]' },
+      ]);
+      const trace: MappingRuleTrace[] = [];
+
+      await expect(
+        mapAsync(
+          { id: 1, price: 2, created: 3, name: 'Ann' },
+          plan,
+          undefined,
+          MAP_DIRECTION.LeftToRight,
+          { trace, collectErrors: true },
+        ),
+      ).rejects.toThrow(
+        [
+          '4 rules failed:',
+          'Rule 1 toRight: bad price',
+          'Rule 2 toRight: Can not apply timestamp formatting to non-string value',
+          "Rule 3 toRight: Left: Unbound variable '$locale'",
+          'Rule 4 toRight: Exception at names[-3]: Reverse array index out of bounds: -3',
+        ].join('\n'),
+      );
+      expect(trace.map(({ index }) => index)).toStrictEqual([0]);
+    });
+
+    it('should make map() fail on transforms that return promises', () => {
+      const plan = compile([
+        {
+          left: 'a',
+          right: 'b',
+          transform: {
+            toRight: (a: number) => Promise.resolve(a),
+            toLeft: (b: number) => b,
+          },
+        },
+      ]);
+
+      expect(() => map({ a: 1 }, plan)).toThrow(
+        'Rule 0: Transform returned a promise, use mapAsync()',
+      );
+    });
+
+    it('should not leave rejected promises of transforms unhandled in map()', async () => {
+      const plan = compile([
+        {
+          left: 'a',
+          right: 'b',
+          transform: {
+            toRight: () => Promise.reject(new Error('boom')),
+            toLeft: (b: number) => b,
+          },
+        },
+      ]);
+      const unhandled: unknown[] = [];
+      const onUnhandled = (reason: unknown) => unhandled.push(reason);
+
+      process.on('unhandledRejection', onUnhandled);
+
+      try {
+        expect(() => map({ a: 1 }, plan)).toThrow(
+          'Rule 0: Transform returned a promise, use mapAsync()',
+        );
+        expect(() =>
+          generateFunctions(plan).toRight({ a: 1 }, undefined, undefined),
+        ).toThrow('Rule 0: Transform returned a promise, use mapAsync()');
+
+        // unhandled rejections are reported after the microtasks ran
+        await new Promise((resolve) => setTimeout(resolve, 10));
+      } finally {
+        process.off('unhandledRejection', onUnhandled);
+      }
+
+      expect(unhandled).toStrictEqual([]);
+    });
+  });
+
+  describe('async sub-plans', () => {
+    const delay = <T>(value: T, ms: number): Promise<T> =>
+      new Promise((resolve) => setTimeout(() => resolve(value), ms));
+
+    const plan = compile([
+      {
+        left: 'items',
+        right: 'lines',
+        plan: subPlan([
+          {
+            left: 'sku',
+            right: 'productCode',
+            transform: {
+              toRight: (sku: string) => delay(sku.toLowerCase(), 1),
+              toLeft: (code: string) => delay(code.toUpperCase(), 1),
+            },
+          },
+        ]),
+      },
+    ]);
+
+    it('should await the transforms of sub-plans in both directions', async () => {
+      const left = { items: [{ sku: 'A-1' }, [null, { sku: 'B-2' }]] };
+      const right = {
+        lines: [{ productCode: 'a-1' }, [null, { productCode: 'b-2' }]],
+      };
+
+      expect(await mapAsync(left, plan)).toStrictEqual(right);
+      expect(
+        await mapAsync(right, plan, undefined, MAP_DIRECTION.RightToLeft),
+      ).toStrictEqual(left);
+      expect(() => map(left, plan)).toThrow(
+        'Rule 0: Transform returned a promise, use mapAsync()',
+      );
+    });
+
+    it('should pass variables and the abort signal on to sub-plans', async () => {
+      const controller = new AbortController();
+      const withVariables = compile([
+        {
+          left: 'items',
+          right: 'lines',
+          plan: subPlan([
+            {
+              left: 'names.$locale',
+              right: 'name',
+              transform: {
+                toRight: (name: string) => {
+                  controller.abort('stop');
+                  return delay(name, 1);
+                },
+                toLeft: (name: string) => name,
+              },
+            },
+          ]),
+        },
+      ]);
+
+      await expect(
+        mapAsync(
+          { items: [{ names: { fr: 'Chaise' } }] },
+          withVariables,
+          undefined,
+          MAP_DIRECTION.LeftToRight,
+          { variables: { locale: 'fr' }, signal: controller.signal },
+        ),
+      ).rejects.toBe('stop');
+    });
+
+    it('should map sub-plans without async methods synchronously', async () => {
+      expect(
+        await mapAsync(
+          { items: [{ sku: 'A-1', qty: 2 }] },
+          compile([
+            { left: 'items', right: 'lines', plan: LINE_ITEM_PLAN_SYNC },
+          ]),
+        ),
+      ).toStrictEqual({ lines: [{ productCode: 'A-1', quantity: 2 }] });
+    });
+  });
+
+  describe('single rules', () => {
+    const plan = compile([
+      { left: 'a', right: 'b' },
+      { right: 'c', literal: 1 },
+    ]);
+
+    it('should list the rules that run in a direction', () => {
+      expect(ruleIndexes(plan, MAP_DIRECTION.LeftToRight)).toStrictEqual([
+        0, 1,
+      ]);
+      expect(ruleIndexes(plan, MAP_DIRECTION.RightToLeft)).toStrictEqual([0]);
+    });
+
+    it('should run one rule into a result', () => {
+      expect(
+        mapRule(
+          { c: 1 },
+          { a: 2 },
+          plan,
+          0,
+          undefined,
+          MAP_DIRECTION.LeftToRight,
+          undefined,
+        ),
+      ).toStrictEqual({ c: 1, b: 2 });
+    });
+
+    it('should not run a rule that does not run in the direction', () => {
+      expect(() =>
+        mapRule(
+          undefined,
+          { b: 2 },
+          plan,
+          1,
+          undefined,
+          MAP_DIRECTION.RightToLeft,
+          undefined,
+        ),
+      ).toThrow('Rule 1: Does not run in this direction');
+    });
   });
 
   generateTests('overrideValues in mapping', [
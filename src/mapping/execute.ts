@@ -1,123 +1,982 @@
 import {
   MappingPlan,
   MappingPlanRuleOrder,
+  MappingRule,
+  MappingRuleCondition,
   MappingRuleFormatType,
+  MappingRuleKeyCase,
+  MappingRuleLookup,
+  MappingRuleScale,
+  MappingSubPlan,
+  MappingSubPlanAsyncOptions,
 } from './plan.js';
-import { JSONType } from '../types.js';
+import { JSONArray, JSONType } from '../types.js';
 import { format as TimestampFormatter } from '../formatters/timestamp.js';
-import { extractValue, injectValue } from './parser/utilities.js';
+import {
+  bindVariables,
+  extractValue,
+  injectValue,
+  isExtractOnly,
+} from './parser/utilities.js';
+import { PathSegment } from './parser/ast/types.js';
+import { PathVariables } from './parser/ast/variables.js';
+import { stringifyNodes, toNodes } from './parser/nodes.js';
 
 export enum MAP_DIRECTION {
   LeftToRight = 0,
   RightToLeft = 1,
 }
 
+/**
+ * What one rule did in a call to map(), in the order the rules ran.
+ */
+export interface MappingRuleTrace {
+  // the index of the rule in the plan
+  index: number;
+  // the path the value was read from, with variables filled in, a list for a tuple, undefined for a literal without one
+  source?: string | string[];
+  // the path the value was written to, with variables filled in, a list for a tuple
+  target: string | string[];
+  // false if the condition of the rule did not hold, the rule did nothing then
+  applied: boolean;
+  // the value read from the source path
+  extracted?: JSONType;
+  // the value after the default, sub-plan, transform and format, before any override
+  value?: JSONType;
+  // where the written value came from, an override wins for any target path it has a value for
+  origin?: 'override' | 'literal' | 'default' | 'source';
+  // milliseconds spent on the rule
+  duration: number;
+}
+
+/**
+ * One side of a rule. A side with a list of paths holds a tuple of values, one
+ * per path, rather than a single value.
+ */
+interface RuleSide {
+  paths: PathSegment[][];
+  tuple: boolean;
+  side: 'Left' | 'Right';
+}
+
+function _ruleSide(
+  path: PathSegment[] | undefined,
+  paths: PathSegment[][] | undefined,
+  side: 'Left' | 'Right',
+): RuleSide | undefined {
+  if (paths) {
+    return { paths, tuple: true, side };
+  }
+
+  return path && { paths: [path], tuple: false, side };
+}
+
+function _sideLabel(side: RuleSide, pathIndex: number): string {
+  return side.tuple ? `${side.side}[${pathIndex}]` : side.side;
+}
+
+function _bindRuleSide(
+  side: RuleSide,
+  variables: PathVariables | undefined,
+  index: number,
+): RuleSide {
+  const paths = side.paths.map((path, pathIndex) => {
+    try {
+      return bindVariables(path, variables);
+    } catch (e) {
+      // same form as compile errors, so the rule can be found in the plan
+      throw new Error(
+        `Rule ${index}: ${_sideLabel(side, pathIndex)}: ${(e as Error).message}`,
+      );
+    }
+  });
+
+  return { ...side, paths };
+}
+
+/**
+ * A rule that failed in a call to map() with collectErrors.
+ */
+export interface MappingRuleFailure {
+  // the index of the rule in the plan
+  index: number;
+  direction: 'toLeft' | 'toRight';
+  // the paths of the rule on either side, as written in the rule, a list for a tuple
+  source?: string | string[];
+  target: string | string[];
+  // what the rule threw
+  cause: unknown;
+}
+
+/**
+ * Thrown by map() with collectErrors, after every rule that could run has,
+ * listing the rules that failed.
+ */
+export class MappingError extends Error {
+  constructor(public readonly failures: MappingRuleFailure[]) {
+    super(
+      [
+        `${failures.length} ${failures.length === 1 ? 'rule' : 'rules'} failed:`,
+        ...failures.map(({ index, direction, cause }) => {
+          const message =
+            cause instanceof Error ? cause.message : String(cause);
+
+          const prefix = `Rule ${index}: `;
+
+          // most rule errors already name the rule, it is named once with the direction here
+          return `Rule ${index} ${direction}: ${message.startsWith(prefix) ? message.slice(prefix.length) : message}`;
+        }),
+      ].join('\n'),
+    );
+  }
+}
+
+function _sidePaths(side: RuleSide): string | string[] {
+  const paths = side.paths.map((path) => stringifyNodes(toNodes(path)));
+
+  return side.tuple ? paths : paths[0];
+}
+
+function _extractRuleValue(source: JSONType, side: RuleSide): JSONType {
+  return side.tuple
+    ? side.paths.map((path) => extractValue(source, path))
+    : extractValue(source, side.paths[0]);
+}
+
+function _isMissing(value: JSONType, side: RuleSide): boolean {
+  // a tuple is only missing when every one of its values is
+  return side.tuple && Array.isArray(value)
+    ? value.every((item) => item === undefined)
+    : value === undefined;
+}
+
+function _injectRuleValue(
+  result: JSONType,
+  value: JSONType,
+  overrides: JSONType[],
+  side: RuleSide,
+  index: number,
+): JSONType {
+  if (side.tuple && value !== undefined && !Array.isArray(value)) {
+    throw new Error(
+      `Rule ${index}: ${side.side}: Expected a tuple of ${side.paths.length} values, got ${typeof value}`,
+    );
+  }
+
+  const values: JSONType[] = side.tuple
+    ? side.paths.map((_path, pathIndex) => (value as JSONArray)?.[pathIndex])
+    : [value];
+
+  // override values win over mapped ones, path by path
+  return side.paths.reduce(
+    (current, path, pathIndex) =>
+      injectValue(
+        current,
+        overrides[pathIndex] !== undefined
+          ? overrides[pathIndex]
+          : values[pathIndex],
+        path,
+      ),
+    result,
+  );
+}
+
+function _testRuleCondition(
+  condition: MappingRuleCondition,
+  source: JSONType,
+  variables: PathVariables | undefined,
+  index: number,
+  direction: 'toLeft' | 'toRight',
+): boolean {
+  try {
+    return condition.test(source, variables);
+  } catch (e) {
+    const myError = e instanceof Error ? e : new Error(String(e));
+    throw new Error(`Rule ${index}: When ${direction}: ${myError.message}`);
+  }
+}
+
+function _formatRuleValue(
+  formatter: MappingRuleLookup | MappingRuleScale | MappingRuleKeyCase,
+  value: JSONType,
+  direction: MAP_DIRECTION,
+  index: number,
+): JSONType {
+  try {
+    return direction === MAP_DIRECTION.LeftToRight
+      ? formatter.toRight(value)
+      : formatter.toLeft(value);
+  } catch (e) {
+    throw new Error(`Rule ${index}: ${(e as Error).message}`);
+  }
+}
+
+interface NestedArrayCopy {
+  source: JSONArray;
+  target: JSONArray;
+  next: number;
+}
+
+/**
+ * A copy of value with every item that is not an array, in nested arrays of
+ * any depth, replaced by what replace makes of it, in document order.
+ *
+ * The arrays are walked with a stack instead of recursion because their depth
+ * is unknown.
+ */
+function _replaceItems(
+  value: JSONType,
+  replace: (item: JSONType) => JSONType,
+): JSONType {
+  if (!Array.isArray(value)) {
+    return replace(value);
+  }
+
+  const copy: JSONArray = [];
+  const stack: NestedArrayCopy[] = [{ source: value, target: copy, next: 0 }];
+
+  while (stack.length > 0) {
+    const current = stack[stack.length - 1];
+
+    if (current.next >= current.source.length) {
+      stack.pop();
+      continue;
+    }
+
+    const item = current.source[current.next++];
+
+    if (Array.isArray(item)) {
+      const nested: JSONArray = [];
+      current.target.push(nested);
+      stack.push({ source: item, target: nested, next: 0 });
+    } else {
+      current.target.push(replace(item));
+    }
+  }
+
+  return copy;
+}
+
+function _mapSubPlanItem(
+  item: JSONType,
+  plan: MappingSubPlan,
+  direction: MAP_DIRECTION,
+  variables: PathVariables | undefined,
+): JSONType {
+  // there is nothing to map in a missing value
+  if (item === undefined || item === null) {
+    return item;
+  }
+
+  return direction === MAP_DIRECTION.LeftToRight
+    ? plan.map(item, undefined, { variables })
+    : plan.reverseMap(item, undefined, { variables });
+}
+
+function _applySubPlan(
+  value: JSONType,
+  plan: MappingSubPlan,
+  direction: MAP_DIRECTION,
+  variables: PathVariables | undefined,
+): JSONType {
+  return _replaceItems(value, (item) =>
+    _mapSubPlanItem(item, plan, direction, variables),
+  );
+}
+
+async function _mapSubPlanItemAsync(
+  item: JSONType,
+  plan: MappingSubPlan,
+  direction: MAP_DIRECTION,
+  options: MappingSubPlanAsyncOptions,
+): Promise<JSONType> {
+  // a sub-plan without async methods can only be mapped synchronously
+  if (
+    !plan.mapAsync ||
+    !plan.reverseMapAsync ||
+    item === undefined ||
+    item === null
+  ) {
+    return _mapSubPlanItem(item, plan, direction, options.variables);
+  }
+
+  return direction === MAP_DIRECTION.LeftToRight
+    ? plan.mapAsync(item, undefined, options)
+    : plan.reverseMapAsync(item, undefined, options);
+}
+
+async function _applySubPlanAsync(
+  value: JSONType,
+  plan: MappingSubPlan,
+  direction: MAP_DIRECTION,
+  options: MappingSubPlanAsyncOptions,
+): Promise<JSONType> {
+  const items: JSONType[] = [];
+
+  // each item is swapped for its position in items, and then for what the sub-plan made of it
+  const positions = _replaceItems(value, (item) => items.push(item) - 1);
+  const mapped: JSONType[] = [];
+
+  for (const item of items) {
+    mapped.push(await _mapSubPlanItemAsync(item, plan, direction, options));
+  }
+
+  return _replaceItems(positions, (position) => mapped[position as number]);
+}
+
+/**
+ * A rule with its sides, as far as it can be worked out without a value to map.
+ */
+interface PreparedRule {
+  index: number;
+  rule: MappingRule<any, any>;
+  unboundSource?: RuleSide;
+  unboundTarget: RuleSide;
+}
+
+/**
+ * A rule on its way through map(). Everything but the transform and format of
+ * a rule only reads the source value, so the steps before and after those can
+ * run apart, which is what lets mapAsync() wait for transforms concurrently.
+ */
+interface RuleRun extends PreparedRule {
+  started?: number;
+  // milliseconds the rule spent so far when its steps ran apart, see mapAsync()
+  elapsed?: number;
+  // false if the condition of the rule did not hold
+  applied: boolean;
+  source?: RuleSide;
+  target?: RuleSide;
+  overrides: JSONType[];
+  extracted: JSONType;
+  value: JSONType;
+  origin?: MappingRuleTrace['origin'];
+  // true if the value came from the source, and still has to go through the transform and format
+  pending: boolean;
+}
+
+// plans do not change, so the rules each direction runs only have to be worked out once per plan
+const preparedRules = new WeakMap<
+  MappingPlan,
+  Partial<Record<MAP_DIRECTION, PreparedRule[]>>
+>();
+
+function _prepareRules(
+  plan: MappingPlan,
+  direction: MAP_DIRECTION,
+): PreparedRule[] {
+  const cached = preparedRules.get(plan) ?? {};
+
+  if (cached[direction]) {
+    return cached[direction];
+  }
+
+  const order: MappingPlanRuleOrder =
+    direction === MAP_DIRECTION.LeftToRight
+      ? plan.toLeftOrder
+      : plan.toRightOrder;
+
+  const prepared: PreparedRule[] = [];
+
+  // rules keep their plan index, so errors name the same rule in either order
+  plan.rules.forEach((rule, index) => {
+    const leftSide = _ruleSide(rule.leftPath, rule.leftPaths, 'Left');
+    const rightSide = _ruleSide(rule.rightPath, rule.rightPaths, 'Right');
+
+    const unboundTarget =
+      direction === MAP_DIRECTION.LeftToRight ? rightSide : leftSide;
+
+    // target path will not exist if we are mapping into a literal, which means ignore this rule for this direction
+    if (!unboundTarget) {
+      return;
+    }
+
+    // search paths, like recursive descent, are one-way just like literals, so ignore this rule for this direction
+    if (unboundTarget.paths.some(isExtractOnly)) {
+      return;
+    }
+
+    prepared.push({
+      index,
+      rule,
+      unboundSource:
+        direction === MAP_DIRECTION.LeftToRight ? leftSide : rightSide,
+      unboundTarget,
+    });
+  });
+
+  if (order === MappingPlanRuleOrder.DESC) {
+    prepared.reverse();
+  }
+
+  preparedRules.set(plan, { ...cached, [direction]: prepared });
+
+  return prepared;
+}
+
+function _ruleRun(prepared: PreparedRule): RuleRun {
+  return {
+    ...prepared,
+    applied: false,
+    overrides: [],
+    extracted: undefined,
+    value: undefined,
+    pending: false,
+  };
+}
+
+function _ruleRuns(plan: MappingPlan, direction: MAP_DIRECTION): RuleRun[] {
+  return _prepareRules(plan, direction).map(_ruleRun);
+}
+
+function _startRule(
+  run: RuleRun,
+  sourceValue: JSONType,
+  overrideValues: JSONType,
+  direction: MAP_DIRECTION,
+  variables: PathVariables | undefined,
+): void {
+  const { rule, index } = run;
+
+  const condition =
+    direction === MAP_DIRECTION.LeftToRight
+      ? rule.rightCondition
+      : rule.leftCondition;
+
+  // conditional rules are skipped entirely, before anything is extracted or injected
+  if (
+    condition &&
+    !_testRuleCondition(
+      condition,
+      sourceValue,
+      variables,
+      index,
+      direction === MAP_DIRECTION.LeftToRight ? 'toRight' : 'toLeft',
+    )
+  ) {
+    return;
+  }
+
+  run.applied = true;
+
+  // variables are only bound for rules that run, in the direction they run
+  const target = _bindRuleSide(run.unboundTarget, variables, index);
+
+  const source =
+    run.unboundSource && _bindRuleSide(run.unboundSource, variables, index);
+
+  run.target = target;
+  run.source = source;
+
+  // Separate this from the below because it is possible for overrideValues to be defined, BUT, the specific
+  // path for this rule pulls out an undefined. There is one override per target path.
+  run.overrides =
+    overrideValues === undefined
+      ? target.paths.map(() => undefined)
+      : target.paths.map((path) => extractValue(overrideValues, path));
+
+  // We only look for literals and real values if overrides didn't have a value for every target path
+  if (run.overrides.every((override) => override !== undefined)) {
+    return;
+  }
+
+  if (rule.hasLiteral) {
+    run.value = rule.literal;
+    run.origin = 'literal';
+  } else if (source) {
+    run.extracted = _extractRuleValue(sourceValue, source);
+    run.value = run.extracted;
+    run.origin = 'source';
+    run.pending = true;
+
+    // a default stands in for a missing source value, so it is transformed and formatted like one
+    if (_isMissing(run.value, source)) {
+      run.value =
+        direction === MAP_DIRECTION.LeftToRight
+          ? rule.rightDefault
+          : rule.leftDefault;
+
+      if (run.value !== undefined) {
+        run.origin = 'default';
+      }
+    }
+  }
+}
+
+function _ruleTransform(
+  run: RuleRun,
+  direction: MAP_DIRECTION,
+): ((value: any) => unknown) | undefined {
+  return direction === MAP_DIRECTION.LeftToRight
+    ? run.rule.rightTransform
+    : run.rule.leftTransform;
+}
+
+function _formatRule(
+  run: RuleRun,
+  value: JSONType,
+  direction: MAP_DIRECTION,
+): JSONType {
+  const { rule, index } = run;
+
+  if (!rule.format) {
+    return value;
+  }
+
+  switch (rule.format.type) {
+    case MappingRuleFormatType.TIMESTAMP:
+      if (typeof value !== 'string') {
+        throw new Error(
+          'Can not apply timestamp formatting to non-string value',
+        );
+      }
+
+      return direction === MAP_DIRECTION.LeftToRight
+        ? TimestampFormatter(value, rule.format.toRight, rule.format.toLeft)
+        : TimestampFormatter(value, rule.format.toLeft, rule.format.toRight);
+
+    case MappingRuleFormatType.LOOKUP:
+      return _formatRuleValue(
+        rule.lookup as MappingRuleLookup, // we know this exists because the rule has a lookup format
+        value,
+        direction,
+        index,
+      );
+
+    case MappingRuleFormatType.SCALE:
+      return _formatRuleValue(
+        rule.scale as MappingRuleScale, // we know this exists because the rule has a scale format
+        value,
+        direction,
+        index,
+      );
+
+    case MappingRuleFormatType.KEY_CASE:
+      return _formatRuleValue(
+        rule.keyCase as MappingRuleKeyCase, // we know this exists because the rule has a key case format
+        value,
+        direction,
+        index,
+      );
+  }
+}
+
+function _duration(run: RuleRun): number {
+  return (run.elapsed ?? 0) + performance.now() - (run.started as number);
+}
+
+function _finishRule(
+  result: JSONType,
+  run: RuleRun,
+  trace: MappingRuleTrace[] | undefined,
+): JSONType {
+  const { index, source, target, overrides } = run;
+
+  if (!target) {
+    trace?.push({
+      index,
+      target: _sidePaths(run.unboundTarget),
+      applied: false,
+      duration: _duration(run),
+    });
+
+    return result;
+  }
+
+  // finally, send the value to set to the target paths on the current result.
+  const injected = _injectRuleValue(
+    result,
+    run.value,
+    overrides,
+    target,
+    index,
+  );
+
+  trace?.push({
+    index,
+    source: source && _sidePaths(source),
+    target: _sidePaths(target),
+    applied: true,
+    extracted: run.extracted,
+    value: run.value,
+    origin: overrides.some((override) => override !== undefined)
+      ? 'override'
+      : run.origin,
+    duration: _duration(run),
+  });
+
+  return injected;
+}
+
+function _failRule(
+  failures: MappingRuleFailure[] | undefined,
+  run: RuleRun,
+  direction: MAP_DIRECTION,
+  cause: unknown,
+): void {
+  if (!failures) {
+    throw cause;
+  }
+
+  // the rule writes nothing, the rest of the rules still run
+  failures.push({
+    index: run.index,
+    direction: direction === MAP_DIRECTION.LeftToRight ? 'toRight' : 'toLeft',
+    source: run.unboundSource && _sidePaths(run.unboundSource),
+    target: _sidePaths(run.unboundTarget),
+    cause,
+  });
+}
+
+function _runRule(
+  result: JSONType,
+  run: RuleRun,
+  sourceValue: JSONType,
+  overrideValues: JSONType,
+  direction: MAP_DIRECTION,
+  variables: PathVariables | undefined,
+  trace: MappingRuleTrace[] | undefined,
+): JSONType {
+  _startRule(run, sourceValue, overrideValues, direction, variables);
+
+  if (run.pending) {
+    const subPlan = run.rule.plan;
+    const mapped = subPlan
+      ? _applySubPlan(run.value, subPlan, direction, variables)
+      : run.value;
+
+    const transform = _ruleTransform(run, direction);
+    const value = transform ? transform(mapped) : mapped;
+
+    if (value instanceof Promise) {
+      // nobody awaits the promise, so it must not become an unhandled rejection
+      value.catch(() => {});
+
+      throw new Error(
+        `Rule ${run.index}: Transform returned a promise, use mapAsync()`,
+      );
+    }
+
+    // we know that whatever type is returned from transform is a JSONType
+    run.value = _formatRule(run, value as JSONType, direction);
+  }
+
+  return _finishRule(result, run, trace);
+}
+
+/**
+ * Options for map().
+ */
+export interface MappingOptions {
+  // values for the "$name" variables in rule paths
+  variables?: PathVariables;
+  // a list that a record of each rule that runs is appended to
+  trace?: MappingRuleTrace[];
+  // keep running the rules after one fails, and throw a MappingError with all failures at the end
+  collectErrors?: boolean;
+}
+
 /**
  * Maps values from source to destination using the provided mapping plan
  *
  * @param sourceValue - Source object or array to map from
  * @param plan - Compiled mapping plan
- * @param direction - 0 for left→right, 1 for right→left
  * @param overrideValues - Optional values to override in the result
+ * @param direction - 0 for left→right, 1 for right→left
+ * @param options - Optional variables, trace and collectErrors
  * @returns The mapped object or array
+ * @throws {MappingError} If collectErrors is set and any rule failed.
  */
 export function map(
   sourceValue: JSONType,
   plan: MappingPlan,
   overrideValues?: JSONType,
   direction: MAP_DIRECTION = MAP_DIRECTION.LeftToRight,
+  options: MappingOptions = {},
 ): JSONType {
-  const order: MappingPlanRuleOrder =
-    direction === MAP_DIRECTION.LeftToRight
-      ? plan.toLeftOrder
-      : plan.toRightOrder;
+  const { variables, trace, collectErrors } = options;
 
-  const rules =
-    order === MappingPlanRuleOrder.ASC ? plan.rules : plan.rules.reverse();
+  // with collectErrors, a failing rule is recorded here instead of ending the mapping
+  const failures: MappingRuleFailure[] | undefined = collectErrors
+    ? []
+    : undefined;
 
   // We build up the result on each iteration through the rules. setValueAtPath() will create a result if one doesn't
   // exist, or it will use the one that does exist after it was created on previous iterations of the rules loop.
   let result: JSONType = undefined;
 
   // Apply each mapping rule
-  for (const rule of rules) {
-    const targetPath =
-      direction === MAP_DIRECTION.LeftToRight ? rule.rightPath : rule.leftPath;
+  for (const run of _ruleRuns(plan, direction)) {
+    if (trace) {
+      run.started = performance.now();
+    }
 
-    // target path will not exist if we are mapping into a literal, which means ignore this rule for this direction
-    if (!targetPath) {
-      continue;
+    try {
+      result = _runRule(
+        result,
+        run,
+        sourceValue,
+        overrideValues,
+        direction,
+        variables,
+        trace,
+      );
+    } catch (e) {
+      _failRule(failures, run, direction, e);
     }
+  }
 
-    const sourcePath =
-      direction === MAP_DIRECTION.LeftToRight ? rule.leftPath : rule.rightPath;
+  if (failures?.length) {
+    throw new MappingError(failures);
+  }
 
-    const transform =
-      direction === MAP_DIRECTION.LeftToRight
-        ? rule.rightTransform
-        : rule.leftTransform;
+  return result;
+}
 
-    let formatType: MappingRuleFormatType | undefined;
-    let formatSource: string | undefined;
-    let formatDestination: string | undefined;
+/**
+ * The indexes of the rules of a plan that run in a direction, in the order
+ * they run in.
+ *
+ * @param plan - Compiled mapping plan
+ * @param direction - 0 for left→right, 1 for right→left
+ * @returns The rule indexes
+ */
+export function ruleIndexes(
+  plan: MappingPlan,
+  direction: MAP_DIRECTION,
+): number[] {
+  return _prepareRules(plan, direction).map(({ index }) => index);
+}
 
-    if (rule.format) {
-      formatType = rule.format.type;
+/**
+ * Runs a single rule of a plan into result, exactly like map() runs it. This
+ * is for code generated from a plan, for the rules it does not handle itself.
+ *
+ * @param result - The result of the rules that ran before
+ * @param sourceValue - Source object or array to map from
+ * @param plan - Compiled mapping plan
+ * @param index - The index of the rule in the plan, one of ruleIndexes()
+ * @param overrideValues - Optional values to override in the result
+ * @param direction - 0 for left→right, 1 for right→left
+ * @param variables - Optional values for the "$name" variables in rule paths
+ * @returns The result with the value of the rule written to it
+ */
+export function mapRule(
+  result: JSONType,
+  sourceValue: JSONType,
+  plan: MappingPlan,
+  index: number,
+  overrideValues: JSONType,
+  direction: MAP_DIRECTION,
+  variables: PathVariables | undefined,
+): JSONType {
+  const prepared = _prepareRules(plan, direction).find(
+    (rule) => rule.index === index,
+  );
 
-      if (direction === MAP_DIRECTION.LeftToRight) {
-        formatSource = rule.format.toLeft;
-        formatDestination = rule.format.toRight;
-      } else {
-        formatSource = rule.format.toRight;
-        formatDestination = rule.format.toLeft;
+  if (!prepared) {
+    throw new Error(`Rule ${index}: Does not run in this direction`);
+  }
+
+  return _runRule(
+    result,
+    _ruleRun(prepared),
+    sourceValue,
+    overrideValues,
+    direction,
+    variables,
+    undefined,
+  );
+}
+
+/**
+ * Options for mapAsync().
+ */
+export interface MappingAsyncOptions extends MappingOptions {
+  // the most transforms waited on at once, 10 if not given
+  concurrency?: number;
+  // stops the mapping, mapAsync() rejects with the reason of the signal
+  signal?: AbortSignal;
+}
+
+/**
+ * Runs tasks with at most concurrency of them at once. Stops starting new
+ * tasks after one fails or the signal aborts, and rejects right away on abort
+ * without waiting for the tasks still running.
+ */
+async function _runConcurrently(
+  tasks: (() => Promise<void>)[],
+  concurrency: number,
+  signal: AbortSignal | undefined,
+): Promise<void> {
+  let next = 0;
+  let stopped = false;
+  let onAbort: (() => void) | undefined;
+
+  // listen before any task starts, a task may abort the signal right away
+  const aborted = signal
+    ? new Promise<never>((_resolve, reject) => {
+        onAbort = () => {
+          stopped = true;
+          // the reason is whatever the caller aborted with, just like throwIfAborted() throws it
+          // eslint-disable-next-line @typescript-eslint/prefer-promise-reject-errors
+          reject(signal.reason);
+        };
+
+        signal.addEventListener('abort', onAbort, { once: true });
+      })
+    : undefined;
+
+  const worker = async (): Promise<void> => {
+    while (!stopped && next < tasks.length) {
+      try {
+        await tasks[next++]();
+      } catch (e) {
+        stopped = true;
+        throw e;
       }
     }
+  };
 
-    // Determine the value to set
-    let valueToSet: JSONType = undefined;
+  const workers = Promise.all(
+    Array.from({ length: Math.min(concurrency, tasks.length) }, worker),
+  );
 
-    // Separate this from the below because it is possible for overrideValues to be defined, BUT, the specific
-    // path for this rule pulls out an undefined.
-    if (overrideValues !== undefined) {
-      valueToSet = extractValue(overrideValues, targetPath);
+  if (!aborted) {
+    await workers;
+    return;
+  }
+
+  // tasks still running after an abort may fail later, nobody is waiting for them anymore
+  workers.catch(() => {});
+
+  try {
+    await Promise.race([workers, aborted]);
+  } finally {
+    signal?.removeEventListener('abort', onAbort as () => void);
+  }
+}
+
+/**
+ * Maps values from source to destination like map(), but allows transforms
+ * that return promises. Every rule reads only the source value, so the
+ * transforms of all rules are awaited concurrently, up to the concurrency
+ * limit. Results are still written in rule order, so later rules win just as
+ * they do in map().
+ *
+ * @param sourceValue - Source object or array to map from
+ * @param plan - Compiled mapping plan
+ * @param overrideValues - Optional values to override in the result
+ * @param direction - 0 for left→right, 1 for right→left
+ * @param options - Optional variables, trace and collectErrors like map(), and a concurrency limit and abort signal
+ * @returns The mapped object or array
+ * @throws {MappingError} If collectErrors is set and any rule failed.
+ */
+export async function mapAsync(
+  sourceValue: JSONType,
+  plan: MappingPlan,
+  overrideValues?: JSONType,
+  direction: MAP_DIRECTION = MAP_DIRECTION.LeftToRight,
+  options: MappingAsyncOptions = {},
+): Promise<JSONType> {
+  const { variables, trace, collectErrors, concurrency = 10, signal } = options;
+
+  if (!Number.isInteger(concurrency) || concurrency < 1) {
+    throw new Error(
+      `Concurrency must be a positive integer, got ${concurrency}`,
+    );
+  }
+
+  signal?.throwIfAborted();
+
+  const failures: MappingRuleFailure[] | undefined = collectErrors
+    ? []
+    : undefined;
+
+  // failures are only reported once all rules ran, in rule order like map() does
+  const errors = new Map<RuleRun, unknown>();
+
+  const fail = (run: RuleRun, e: unknown): void => {
+    if (!failures) {
+      throw e;
     }
 
-    // We only look for literals and real values if overrides didn't have a value to set
-    // We nest all this to avoid redundant checks
-    if (valueToSet === undefined) {
-      if (rule.hasLiteral) {
-        valueToSet = rule.literal;
-      } else if (sourcePath) {
-        valueToSet = extractValue(sourceValue, sourcePath);
+    errors.set(run, e);
+  };
 
-        if (transform) {
-          // we know that whatever type is returned from transform is a JSONType
-          valueToSet = transform(valueToSet) as JSONType;
-        }
+  const runs = _ruleRuns(plan, direction);
+
+  for (const run of runs) {
+    if (trace) {
+      run.started = performance.now();
+    }
+
+    try {
+      _startRule(run, sourceValue, overrideValues, direction, variables);
+    } catch (e) {
+      fail(run, e);
+    }
 
-        if (formatType) {
-          switch (formatType) {
-            case MappingRuleFormatType.TIMESTAMP:
-              if (typeof valueToSet !== 'string') {
-                throw new Error(
-                  'Can not apply timestamp formatting to non-string value',
-                );
-              }
-
-              valueToSet = TimestampFormatter(
-                valueToSet,
-                formatDestination as string, // we know this is a string because of higher up logic
-                formatSource as string, // we know this is a string because of higher up logic
-              );
-
-              break;
+    // a rule is only timed while its own steps run, not while other rules run
+    if (trace) {
+      run.elapsed = performance.now() - (run.started as number);
+    }
+  }
+
+  await _runConcurrently(
+    runs
+      .filter((run) => run.pending && !errors.has(run))
+      .map((run) => async () => {
+        const started = performance.now();
+
+        try {
+          const subPlan = run.rule.plan;
+          const mapped = subPlan
+            ? await _applySubPlanAsync(run.value, subPlan, direction, {
+                variables,
+                concurrency,
+                signal,
+              })
+            : run.value;
+
+          const transform = _ruleTransform(run, direction);
+          const value = transform ? await transform(mapped) : mapped;
+
+          // we know that whatever type is returned from transform is a JSONType
+          run.value = _formatRule(run, value as JSONType, direction);
+        } catch (e) {
+          fail(run, e);
+        } finally {
+          if (trace) {
+            run.elapsed = (run.elapsed as number) + performance.now() - started;
           }
         }
-      }
+      }),
+    concurrency,
+    signal,
+  );
+
+  let result: JSONType = undefined;
+
+  for (const run of runs) {
+    if (errors.has(run)) {
+      _failRule(failures, run, direction, errors.get(run));
+      continue;
+    }
+
+    if (trace) {
+      run.started = performance.now();
+    }
+
+    try {
+      result = _finishRule(result, run, trace);
+    } catch (e) {
+      _failRule(failures, run, direction, e);
     }
+  }
 
-    // finally, send the value to set to the target path on the current result.
-    result = injectValue(result, valueToSet, targetPath);
+  if (failures?.length) {
+    throw new MappingError(failures);
   }
 
   return result;
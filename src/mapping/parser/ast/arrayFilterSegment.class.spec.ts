@@ -0,0 +1,150 @@
+import { describe, expect, it } from 'vitest';
+import { ArrayFilterSegment } from './arrayFilterSegment.class.js';
+import {
+  FilterComparisonExpression,
+  FilterFieldOperand,
+  FilterLiteralOperand,
+  FilterLogicalExpression,
+} from './filterExpression.class.js';
+import { JSONArray, JSONObject } from '../../../types.js';
+
+const isBilling = new FilterComparisonExpression(
+  new FilterFieldOperand(['type']),
+  '==',
+  new FilterLiteralOperand('billing'),
+);
+
+const isBillingCountry = new FilterLogicalExpression(
+  isBilling,
+  '&&',
+  new FilterComparisonExpression(
+    new FilterFieldOperand(['region', 'country']),
+    '==',
+    new FilterLiteralOperand('US'),
+  ),
+);
+
+function addresses(): JSONArray {
+  return [
+    { type: 'billing', street: '1 Main St' },
+    { type: 'shipping', street: '2 Side St' },
+    { type: 'billing', street: '3 High St' },
+  ];
+}
+
+describe('ArrayFilterSegment', () => {
+  const segment = new ArrayFilterSegment("[?(@.type == 'billing')]", isBilling);
+
+  describe('Construction', () => {
+    it('should create a filter segment', () => {
+      expect(segment.sourceText).toBe("[?(@.type == 'billing')]");
+      expect(segment.expression).toBe(isBilling);
+    });
+  });
+
+  describe('getValue()', () => {
+    it('should return the matching elements in order', () => {
+      const result = segment.getValue(addresses());
+
+      expect(result.chain).toBe(true);
+      expect(result.result).toStrictEqual([
+        { type: 'billing', street: '1 Main St' },
+        { type: 'billing', street: '3 High St' },
+      ]);
+    });
+
+    it('should return an empty result when nothing matches', () => {
+      expect(segment.getValue([1, 'a', null]).result).toStrictEqual([]);
+    });
+
+    it('should treat non-array sources as empty', () => {
+      expect(
+        segment.getValue({ type: 'billing' } as unknown as JSONArray).result,
+      ).toStrictEqual([]);
+    });
+
+    it('should not allow modification of source through result', () => {
+      const source = addresses();
+
+      const result = segment.getValue(source);
+      (result.result[0] as JSONObject).street = 'changed';
+
+      expect(source).toStrictEqual(addresses());
+    });
+  });
+
+  describe('setValue()', () => {
+    it('should only update the matching elements', () => {
+      const result = segment.setValue(addresses(), [
+        { type: 'billing', street: 'A' },
+        { type: 'billing', street: 'B' },
+      ]);
+
+      expect(result).toStrictEqual([
+        { type: 'billing', street: 'A' },
+        { type: 'shipping', street: '2 Side St' },
+        { type: 'billing', street: 'B' },
+      ]);
+    });
+
+    it('should leave extra matching elements untouched', () => {
+      const result = segment.setValue(addresses(), { street: 'A' });
+
+      expect(result).toStrictEqual([
+        { street: 'A' },
+        { type: 'shipping', street: '2 Side St' },
+        { type: 'billing', street: '3 High St' },
+      ]);
+    });
+
+    it('should append extra values, seeded so they match the filter', () => {
+      const result = segment.setValue(
+        [{ type: 'shipping', street: '2 Side St' }],
+        [{ street: 'A' }, 'not an object'],
+      );
+
+      expect(result).toStrictEqual([
+        { type: 'shipping', street: '2 Side St' },
+        { street: 'A', type: 'billing' },
+        'not an object',
+      ]);
+    });
+
+    it('should seed nested fields of appended values', () => {
+      const nestedSegment = new ArrayFilterSegment(
+        "[?(@.type == 'billing' && @.region.country == 'US')]",
+        isBillingCountry,
+      );
+
+      const result = nestedSegment.setValue(undefined, [
+        { street: 'A', region: 'replaced' },
+        { street: 'B', region: { state: 'CA' } },
+      ]);
+
+      expect(result).toStrictEqual([
+        { street: 'A', type: 'billing', region: { country: 'US' } },
+        {
+          street: 'B',
+          type: 'billing',
+          region: { state: 'CA', country: 'US' },
+        },
+      ]);
+      expect(nestedSegment.getValue(result).result).toHaveLength(2);
+    });
+
+    it('should treat undefined as no values', () => {
+      expect(segment.setValue(addresses(), undefined)).toStrictEqual(
+        addresses(),
+      );
+    });
+
+    it('should not allow modification of value through result', () => {
+      const value = [{ street: 'A' }];
+
+      const result = segment.setValue(undefined, value);
+      (result[0] as JSONObject).street = 'changed';
+
+      expect(value).toStrictEqual([{ street: 'A' }]);
+    });
+  });
+});
@@ -0,0 +1,101 @@
+import { JSONType, JSONArray, JSONObject } from '../../../types.js';
+import { clone, _isObject } from '../../../helpers.js';
+import {
+  AbstractPathIteratorSegment,
+  ChainResult,
+} from './abstractPathIteratorSegment.class.js';
+import {
+  AbstractFilterExpression,
+  FilterSeed,
+} from './filterExpression.class.js';
+
+// Array filter segment (e.g., "[?(@.type == 'billing')]")
+export class ArrayFilterSegment extends AbstractPathIteratorSegment {
+  constructor(
+    sourceText: string,
+    public readonly expression: AbstractFilterExpression,
+  ) {
+    super(sourceText);
+  }
+
+  private _matchingIndexes(source: JSONArray): number[] {
+    const indexes: number[] = [];
+
+    source.forEach((item, index) => {
+      if (this.expression.test(item)) {
+        indexes.push(index);
+      }
+    });
+
+    return indexes;
+  }
+
+  private _applySeed(item: JSONObject, seed: FilterSeed): void {
+    let current = item;
+
+    seed.path.slice(0, -1).forEach((key) => {
+      if (!_isObject(current[key])) {
+        current[key] = {};
+      }
+      current = current[key] as JSONObject;
+    });
+
+    current[seed.path[seed.path.length - 1]] = clone(seed.value);
+  }
+
+  /**
+   * New elements are appended to the destination, so they need the values the
+   * filter requires, or they would not match when extracted again.
+   */
+  private _seed(item: JSONType | undefined): JSONType | undefined {
+    if (!_isObject(item)) {
+      return item;
+    }
+
+    this.expression.seeds().forEach((seed) => this._applySeed(item, seed));
+
+    return item;
+  }
+
+  public getValue(source: JSONArray): ChainResult {
+    // runtime-check
+    if (!Array.isArray(source)) {
+      source = [];
+    }
+
+    const result = this._matchingIndexes(source).map((index) =>
+      clone(source[index]),
+    );
+
+    return { result, chain: true };
+  }
+
+  /**
+   * Writes values back to the positions of the matching elements, in order.
+   * Values beyond the number of matches are appended as new elements.
+   */
+  public setValue(
+    destination: JSONType | undefined,
+    value: JSONType | undefined,
+  ): JSONArray {
+    if (!Array.isArray(destination)) {
+      destination = [];
+    }
+    if (!Array.isArray(value)) {
+      value = value === undefined ? [] : [value];
+    }
+
+    const scopedDestination = destination;
+    const indexes = this._matchingIndexes(scopedDestination);
+
+    clone(value).forEach((item, position) => {
+      if (position < indexes.length) {
+        scopedDestination[indexes[position]] = item;
+      } else {
+        scopedDestination.push(this._seed(item));
+      }
+    });
+
+    return scopedDestination;
+  }
+}
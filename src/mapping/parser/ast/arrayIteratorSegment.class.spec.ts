@@ -416,6 +416,174 @@ describe('ArraySegment', () => {
     });
   });
 
+  describe('Strided slices', () => {
+    const array = [0, 1, 2, 3, 4, 5, 6, 7, 8, 9];
+
+    const getStrided = (
+      start: number,
+      size: number | undefined,
+      stride: number,
+      source: JSONType = array,
+    ) =>
+      new ArrayIteratorSegment(
+        `[[${start},${size ?? ''},${stride}]]`,
+        start,
+        size,
+        stride,
+      ).getValue(source as JSONArray).result;
+
+    it('should store the stride', () => {
+      const segment = new ArrayIteratorSegment('[[0,10,2]]', 0, 10, 2);
+      expect(segment.stride).toBe(2);
+      expect(new ArrayIteratorSegment('[[0]]', 0).stride).toBeUndefined();
+    });
+
+    it('should get every nth element of the window', () => {
+      expect(getStrided(0, 10, 2)).toStrictEqual([0, 2, 4, 6, 8]);
+      expect(getStrided(1, 5, 2)).toStrictEqual([1, 3, 5]);
+      expect(getStrided(0, 100, 3)).toStrictEqual([0, 3, 6, 9]);
+      expect(getStrided(2, 3, 1)).toStrictEqual([2, 3, 4]);
+    });
+
+    it('should get every nth element to the end without a size', () => {
+      expect(getStrided(0, undefined, 3)).toStrictEqual([0, 3, 6, 9]);
+      expect(getStrided(-4, undefined, 2)).toStrictEqual([6, 8]);
+      expect(getStrided(20, undefined, 2)).toStrictEqual([]);
+    });
+
+    it('should walk the window backwards with a negative stride', () => {
+      expect(getStrided(0, undefined, -1)).toStrictEqual([
+        9, 8, 7, 6, 5, 4, 3, 2, 1, 0,
+      ]);
+      expect(getStrided(0, 5, -2)).toStrictEqual([4, 2, 0]);
+      expect(getStrided(0, 100, -3)).toStrictEqual([9, 6, 3, 0]);
+    });
+
+    it('should stride over negative size windows', () => {
+      expect(getStrided(-1, -5, 2)).toStrictEqual([9, 7, 5]);
+      expect(getStrided(-1, -5, -2)).toStrictEqual([5, 7, 9]);
+      expect(getStrided(20, -15, 2)).toStrictEqual([9, 7]);
+      expect(getStrided(3, -10, 2)).toStrictEqual([3, 1]);
+    });
+
+    it('should only stride over the part of the window inside the array', () => {
+      expect(getStrided(-12, 6, 2)).toStrictEqual([0, 2]);
+      expect(getStrided(-20, 5, 2)).toStrictEqual([]);
+      expect(getStrided(-20, -3, 2)).toStrictEqual([]);
+      expect(getStrided(15, 5, 2)).toStrictEqual([]);
+      expect(getStrided(0, 0, 2)).toStrictEqual([]);
+      expect(getStrided(0, 10, 2, 'not an array')).toStrictEqual([]);
+    });
+
+    it('should set values back to the positions they were read from', () => {
+      const segment = new ArrayIteratorSegment('[[1,,2]]', 1, undefined, 2);
+      const destination = [0, 1, 2, 3, 4, 5];
+
+      const result = segment.setValue(
+        destination,
+        (segment.getValue(destination).result as number[]).map((n) => n * 10),
+      );
+
+      expect(result).toStrictEqual([0, 10, 2, 30, 4, 50]);
+    });
+
+    it('should set values back in reverse with a negative stride', () => {
+      const segment = new ArrayIteratorSegment('[[0,5,-2]]', 0, 5, -2);
+
+      expect(segment.setValue([0, 1, 2, 3, 4, 5], ['a', 'b'])).toStrictEqual([
+        0,
+        1,
+        'b',
+        3,
+        'a',
+        5,
+      ]);
+    });
+
+    it('should limit values to the window', () => {
+      const segment = new ArrayIteratorSegment('[[0,3,2]]', 0, 3, 2);
+
+      expect(segment.setValue([0, 1, 2, 3], ['a', 'b', 'c'])).toStrictEqual([
+        'a',
+        1,
+        'b',
+        3,
+      ]);
+      expect(segment.setValue([0, 1], 'a')).toStrictEqual(['a', 1]);
+      expect(segment.setValue([0, 1], undefined)).toStrictEqual([0, 1]);
+    });
+
+    it('should extend short destinations without leaving holes', () => {
+      const segment = new ArrayIteratorSegment('[[0,,2]]', 0, undefined, 2);
+      const reversed = new ArrayIteratorSegment('[[0,,-2]]', 0, undefined, -2);
+      const sized = new ArrayIteratorSegment('[[1,10,3]]', 1, 10, 3);
+
+      const result = segment.setValue(undefined, ['a', 'b', 'c']);
+
+      expect(result).toStrictEqual(['a', undefined, 'b', undefined, 'c']);
+      expect(segment.getValue(result).result).toStrictEqual(['a', 'b', 'c']);
+      expect(reversed.setValue([], ['a', 'b', 'c'])).toStrictEqual([
+        'c',
+        undefined,
+        'b',
+        undefined,
+        'a',
+      ]);
+      expect(sized.setValue(['x'], ['a', 'b'])).toStrictEqual([
+        'x',
+        'a',
+        undefined,
+        undefined,
+        'b',
+      ]);
+    });
+
+    it('should not extend short destinations from a start counted from the end', () => {
+      const segment = new ArrayIteratorSegment('[[-1,,2]]', -1, undefined, 2);
+      const reversed = new ArrayIteratorSegment(
+        '[[-1,,-2]]',
+        -1,
+        undefined,
+        -2,
+      );
+      const sized = new ArrayIteratorSegment('[[-4,6,2]]', -4, 6, 2);
+
+      expect(() => segment.setValue([], [1, 2, 3])).toThrow(
+        'Strided slice counted from the end can not extend the array: [[-1,,2]]',
+      );
+      expect(() => reversed.setValue([1, 2], [7, 8, 9])).toThrow(
+        'Strided slice counted from the end can not extend the array: [[-1,,-2]]',
+      );
+      expect(() => sized.setValue([0, 1, 2, 3], ['a', 'b', 'c'])).toThrow(
+        'Strided slice counted from the end can not extend the array: [[-4,6,2]]',
+      );
+
+      // values that fit are set, and read back, as usual
+      const destination = [0, 1, 2, 3, 4, 5];
+      const result = sized.setValue(destination, ['a', 'b']);
+
+      expect(result).toStrictEqual([0, 1, 'a', 3, 'b', 5]);
+      expect(sized.getValue(result).result).toStrictEqual(['a', 'b']);
+      expect(reversed.setValue([1, 2], [7])).toStrictEqual([1, 7]);
+    });
+
+    it('should not set anything through an empty window', () => {
+      const segment = new ArrayIteratorSegment('[[0,0,2]]', 0, 0, 2);
+
+      expect(segment.setValue([1, 2], ['a'])).toStrictEqual([1, 2]);
+    });
+
+    it('should not allow modification of value through result', () => {
+      const segment = new ArrayIteratorSegment('[[0,,2]]', 0, undefined, 2);
+      const value = [{ id: 1 }];
+
+      const result = segment.setValue([], value);
+      (result[0] as { id: number }).id = 2;
+
+      expect(value).toStrictEqual([{ id: 1 }]);
+    });
+  });
+
   describe('Static methods', () => {
     it('should use static getValue with a single segment', () => {
       const segment = new ArrayIteratorSegment('[[1,3]]', 1, 3);
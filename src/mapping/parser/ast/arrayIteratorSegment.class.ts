@@ -5,15 +5,114 @@ import {
   ChainResult,
 } from './abstractPathIteratorSegment.class.js';
 
+// The inclusive positions a slice visits, first may be after last when visiting backwards
+interface SliceWindow {
+  first: number;
+  last: number;
+}
+
+// Array slice segment (e.g., [[0]], [[1,3]], [[-1,-3]], [[0,10,2]], [[0,,-1]])
 export class ArrayIteratorSegment extends AbstractPathIteratorSegment {
   constructor(
     sourceText: string,
     public readonly start: number,
     public readonly size?: number,
+    public readonly stride?: number,
   ) {
     super(sourceText);
   }
 
+  private _isStrided(): boolean {
+    return this.stride !== undefined && this.stride !== 1;
+  }
+
+  /**
+   * The first and last absolute positions of a window of size elements, in
+   * the order they are visited. Positions before the start of the array are
+   * always cut off, positions past its end only when clampEnd is set.
+   */
+  private _window(
+    length: number,
+    size: number,
+    clampEnd: boolean,
+  ): SliceWindow | undefined {
+    const startIndex = this.start < 0 ? length + this.start : this.start;
+    const end = clampEnd ? length - 1 : Infinity;
+
+    if (size === 0) {
+      return undefined;
+    }
+
+    if (size > 0) {
+      const first = Math.max(startIndex, 0);
+      const last = Math.min(startIndex + size - 1, end);
+      return first <= last ? { first, last } : undefined;
+    }
+
+    const first = Math.min(startIndex, end);
+    const last = Math.max(startIndex + size + 1, 0);
+    return first >= last ? { first, last } : undefined;
+  }
+
+  /**
+   * Every stride-th position of the window, up to limit positions. A negative
+   * stride walks the window backwards, starting from its last position.
+   */
+  private _stridePositions(
+    window: SliceWindow | undefined,
+    limit: number,
+  ): number[] {
+    const positions: number[] = [];
+
+    if (!window) {
+      return positions;
+    }
+
+    const stride = this.stride as number;
+    const direction = window.last < window.first ? -1 : 1;
+    const windowSize = Math.abs(window.last - window.first) + 1;
+    let offset = stride > 0 ? 0 : windowSize - 1;
+
+    while (offset >= 0 && offset < windowSize && positions.length < limit) {
+      positions.push(window.first + offset * direction);
+      offset += stride;
+    }
+
+    return positions;
+  }
+
+  private _getStridePositions(length: number): number[] {
+    // take natural length of source, from start to the end
+    const size = this.size ?? Math.max(length - this.start, 0);
+
+    return this._stridePositions(this._window(length, size, true), Infinity);
+  }
+
+  private _setStridePositions(length: number, count: number): number[] {
+    const positions = this._getStridePositions(length);
+
+    if (positions.length >= count) {
+      return positions;
+    }
+
+    // the destination is too short to hold every value, so the window runs past its end,
+    // without a size it is just big enough to hold every value
+    const size = this.size ?? (count - 1) * Math.abs(this.stride as number) + 1;
+    const extended = this._stridePositions(
+      this._window(length, size, false),
+      count,
+    );
+
+    // a start counted from the end moves as the array grows, so the values could never be read back
+    if (this.start < 0 && extended.some((position) => position >= length)) {
+      throw new Error(
+        `Strided slice counted from the end can not extend the array: ${this.sourceText}`,
+      );
+    }
+
+    return extended;
+  }
+
   private _getIterate(
     source: JSONArray,
     handler: (item: JSONType) => void,
@@ -72,7 +171,13 @@ export class ArrayIteratorSegment extends AbstractPathIteratorSegment {
       source = [];
     }
 
-    this._getIterate(source, (item) => result.push(clone(item)));
+    if (this._isStrided()) {
+      this._getStridePositions(source.length).forEach((position) =>
+        result.push(clone(source[position])),
+      );
+    } else {
+      this._getIterate(source, (item) => result.push(clone(item)));
+    }
 
     return { result, chain: true };
   }
@@ -88,6 +193,10 @@ export class ArrayIteratorSegment extends AbstractPathIteratorSegment {
       value = value === undefined ? [] : [value];
     }
 
+    if (this._isStrided()) {
+      return this._setStrideValue(destination, value);
+    }
+
     let start = this.start;
     let size = this.size;
 
@@ -121,4 +230,26 @@ export class ArrayIteratorSegment extends AbstractPathIteratorSegment {
 
     return destination;
   }
+
+  /**
+   * Strided slices write each value back to exactly the position it would be
+   * read from, leaving the positions in between untouched.
+   */
+  private _setStrideValue(destination: JSONArray, value: JSONArray): JSONArray {
+    const positions = this._setStridePositions(
+      destination.length,
+      value.length,
+    );
+    const scopedDestination = destination;
+
+    clone(value.slice(0, positions.length)).forEach((item, index) => {
+      // skipped positions past the end are filled, so the array is never sparse
+      while (scopedDestination.length < positions[index]) {
+        scopedDestination.push(undefined);
+      }
+      scopedDestination[positions[index]] = item;
+    });
+
+    return scopedDestination;
+  }
 }
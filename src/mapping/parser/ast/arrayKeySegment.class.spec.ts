@@ -0,0 +1,132 @@
+import { describe, expect, it } from 'vitest';
+import { ArrayKeySegment } from './arrayKeySegment.class.js';
+import { JSONArray, JSONObject, JSONType } from '../../../types.js';
+
+describe('ArrayKeySegment', () => {
+  const segment = new ArrayKeySegment('[id=2]', 'id', 2);
+
+  const users = (): JSONArray => [
+    { id: 1, name: 'Ann' },
+    { id: 2, name: 'Bob' },
+    { id: 2, name: 'Bob again' },
+  ];
+
+  describe('Construction', () => {
+    it('should create a keyed element segment', () => {
+      expect(segment.sourceText).toBe('[id=2]');
+      expect(segment.key).toBe('id');
+      expect(segment.value).toBe(2);
+    });
+  });
+
+  describe('getValue()', () => {
+    it('should return the first element with a matching key', () => {
+      expect(segment.getValue(users())).toStrictEqual({
+        result: { id: 2, name: 'Bob' },
+        chain: false,
+      });
+    });
+
+    it('should compare values strictly', () => {
+      expect(
+        segment.getValue([{ id: '2' }, { id: [2] }, 2, null]).result,
+      ).toBeUndefined();
+      expect(
+        new ArrayKeySegment('[id=null]', 'id', null).getValue([
+          {},
+          { id: null },
+        ]).result,
+      ).toStrictEqual({ id: null });
+    });
+
+    it('should return undefined when nothing matches or source is not an array', () => {
+      [[], [{ id: 3 }], undefined, null, { id: 2 }, 'abc'].forEach((source) => {
+        expect(
+          segment.getValue(source as unknown as JSONArray).result,
+        ).toBeUndefined();
+      });
+    });
+
+    it('should not allow modification of source through result', () => {
+      const source = users();
+
+      (segment.getValue(source).result as JSONObject).name = 'Changed';
+
+      expect(source).toStrictEqual(users());
+    });
+  });
+
+  describe('setValue()', () => {
+    it('should replace the first matching element', () => {
+      expect(segment.setValue(users(), { id: 2, name: 'Bo' })).toStrictEqual([
+        { id: 1, name: 'Ann' },
+        { id: 2, name: 'Bo' },
+        { id: 2, name: 'Bob again' },
+      ]);
+    });
+
+    it('should append the value when nothing matches', () => {
+      expect(segment.setValue([{ id: 1 }], { name: 'Bob' })).toStrictEqual([
+        { id: 1 },
+        { name: 'Bob', id: 2 },
+      ]);
+    });
+
+    it('should add the key to object values that do not have it', () => {
+      expect(segment.setValue(users(), { name: 'Bo' })[1]).toStrictEqual({
+        name: 'Bo',
+        id: 2,
+      });
+      expect(segment.setValue(undefined, { id: 3 })).toStrictEqual([{ id: 3 }]);
+      expect(segment.setValue(undefined, 'abc')).toStrictEqual(['abc']);
+    });
+
+    it('should only write undefined over an existing element', () => {
+      expect(segment.setValue([{ id: 1 }], undefined)).toStrictEqual([
+        { id: 1 },
+      ]);
+      expect(segment.setValue([{ id: 2 }], undefined)).toStrictEqual([
+        undefined,
+      ]);
+    });
+
+    it('should not append values of nothing but undefined', () => {
+      [undefined, {}, { email: undefined }, { a: {} }, [undefined], []].forEach(
+        (value) => {
+          expect(segment.setValue([{ id: 1 }], value)).toStrictEqual([
+            { id: 1 },
+          ]);
+        },
+      );
+      expect(segment.setValue([], { a: [null] })).toStrictEqual([
+        { a: [null], id: 2 },
+      ]);
+    });
+
+    it('should not append values of nothing but undefined at any depth', () => {
+      let value: JSONType = [undefined];
+      for (let depth = 0; depth < 20000; depth++) {
+        value = depth % 2 === 0 ? { a: value } : [value];
+      }
+
+      expect(segment.setValue([], value)).toStrictEqual([]);
+    });
+
+    it('should create an array when destination is not one', () => {
+      [undefined, null, { id: 2 }, 'abc'].forEach((destination) => {
+        expect(
+          segment.setValue(destination as JSONType, { name: 'Bo' }),
+        ).toStrictEqual([{ name: 'Bo', id: 2 }]);
+      });
+    });
+
+    it('should not allow modification of the written value through destination', () => {
+      const value = { name: 'Bo', tags: ['a'] };
+
+      const result = segment.setValue([], value);
+      ((result[0] as JSONObject).tags as JSONArray).push('b');
+
+      expect(value).toStrictEqual({ name: 'Bo', tags: ['a'] });
+    });
+  });
+});
@@ -0,0 +1,116 @@
+import { JSONType, JSONArray } from '../../../types.js';
+import { clone, _isObject } from '../../../helpers.js';
+import {
+  AbstractPathIteratorSegment,
+  NoChainResult,
+} from './abstractPathIteratorSegment.class.js';
+
+function _children(value: JSONType | undefined): JSONType[] {
+  if (Array.isArray(value)) {
+    return value;
+  }
+
+  if (_isObject(value)) {
+    return Object.values(value);
+  }
+
+  return [];
+}
+
+/**
+ * Undefined, or objects and arrays of nothing else, which is what writing
+ * undefined below a missing element builds.
+ *
+ * The value is searched with a stack instead of recursion because its depth
+ * is unknown.
+ */
+function _isUndefinedOnly(value: JSONType | undefined): boolean {
+  const stack: (JSONType | undefined)[] = [value];
+
+  while (stack.length > 0) {
+    const current = stack.pop();
+
+    if (
+      current !== undefined &&
+      !Array.isArray(current) &&
+      !_isObject(current)
+    ) {
+      return false;
+    }
+
+    for (const child of _children(current)) {
+      stack.push(child);
+    }
+  }
+
+  return true;
+}
+
+// Keyed array element segment, selects the element with a matching field (e.g., "users[id=42]", 'lines[sku="A-1"]')
+export class ArrayKeySegment extends AbstractPathIteratorSegment {
+  constructor(
+    sourceText: string,
+    public readonly key: string,
+    public readonly value: JSONType,
+  ) {
+    super(sourceText);
+  }
+
+  private _matchingIndex(source: JSONArray): number {
+    return source.findIndex(
+      (item) =>
+        _isObject(item) &&
+        Object.hasOwn(item, this.key) &&
+        item[this.key] === this.value,
+    );
+  }
+
+  /**
+   * Elements written through the selector need the key, or they would not be
+   * found again. A key that is already present is left alone.
+   */
+  private _seed(item: JSONType | undefined): JSONType | undefined {
+    if (_isObject(item) && !Object.hasOwn(item, this.key)) {
+      item[this.key] = clone(this.value);
+    }
+
+    return item;
+  }
+
+  public getValue(source: JSONArray): NoChainResult {
+    if (!Array.isArray(source)) {
+      return { result: undefined, chain: false };
+    }
+
+    const index = this._matchingIndex(source);
+
+    return {
+      result: index < 0 ? undefined : clone(source[index]),
+      chain: false,
+    };
+  }
+
+  /**
+   * Upserts value, it replaces the first matching element, or is appended
+   * when nothing matches. A value of nothing but undefined is not appended,
+   * so mapping a missing value does not add an element with only its key.
+   */
+  public setValue(
+    destination: JSONType | undefined,
+    value: JSONType | undefined,
+  ): JSONArray {
+    if (!Array.isArray(destination)) {
+      destination = [];
+    }
+
+    const index = this._matchingIndex(destination);
+
+    if (index >= 0) {
+      destination[index] = this._seed(clone(value));
+    } else if (!_isUndefinedOnly(value)) {
+      destination.push(this._seed(clone(value)));
+    }
+
+    return destination;
+  }
+}
@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import { ArrayVariableIndexSegment } from './arrayVariableIndexSegment.class.js';
+import { ArrayIndexSegmentClass } from './arrayIndexSegment.class.js';
+
+describe('ArrayVariableIndexSegment', () => {
+  const segment = new ArrayVariableIndexSegment('[$index]', 'index');
+
+  describe('Construction', () => {
+    it('should create an index variable segment', () => {
+      expect(segment.sourceText).toBe('[$index]');
+      expect(segment.variable).toBe('index');
+    });
+  });
+
+  describe('bind()', () => {
+    it('should bind to the index given by the variable', () => {
+      const bound = segment.bind({ index: -1 });
+
+      expect(bound).toBeInstanceOf(ArrayIndexSegmentClass);
+      expect(bound.sourceText).toBe('[-1]');
+      expect(bound.index).toBe(-1);
+      expect(bound.getValue(['a', 'b']).result).toBe('b');
+    });
+
+    it('should throw on unbound variables', () => {
+      expect(() => segment.bind({ other: 1 })).toThrow(
+        "Unbound variable '$index'",
+      );
+    });
+
+    it('should throw on values that are not integers', () => {
+      [
+        ['1', '"1"'],
+        [1.5, '1.5'],
+        [null, 'null'],
+      ].forEach(([index, description]) => {
+        expect(() => segment.bind({ index })).toThrow(
+          `Variable '$index' must be an integer to be used as an index, got ${description}`,
+        );
+      });
+    });
+  });
+
+  describe('getValue() and setValue()', () => {
+    it('should throw, because the variable was never bound', () => {
+      expect(() => segment.getValue()).toThrow("Unbound variable '$index'");
+      expect(() => segment.setValue()).toThrow("Unbound variable '$index'");
+    });
+  });
+});
@@ -0,0 +1,41 @@
+import { JSONType } from '../../../types.js';
+import {
+  AbstractPathIteratorSegment,
+  NoChainResult,
+} from './abstractPathIteratorSegment.class.js';
+import { ArrayIndexSegmentClass } from './arrayIndexSegment.class.js';
+import {
+  PathVariables,
+  resolveVariable,
+  unboundVariableError,
+} from './variables.js';
+
+// Array index given by a variable (e.g., "[$index]"), bound to an ArrayIndexSegmentClass before use
+export class ArrayVariableIndexSegment extends AbstractPathIteratorSegment {
+  constructor(
+    sourceText: string,
+    public readonly variable: string,
+  ) {
+    super(sourceText);
+  }
+
+  public bind(variables: PathVariables): ArrayIndexSegmentClass {
+    const index = resolveVariable(variables, this.variable);
+
+    if (typeof index !== 'number' || !Number.isInteger(index)) {
+      throw new Error(
+        `Variable '$${this.variable}' must be an integer to be used as an index, got ${JSON.stringify(index)}`,
+      );
+    }
+
+    return new ArrayIndexSegmentClass(`[${index}]`, index);
+  }
+
+  public getValue(): NoChainResult {
+    throw unboundVariableError(this.variable);
+  }
+
+  public setValue(): JSONType {
+    throw unboundVariableError(this.variable);
+  }
+}
@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { ArrayVariableKeySegment } from './arrayVariableKeySegment.class.js';
+import { ArrayKeySegment } from './arrayKeySegment.class.js';
+
+describe('ArrayVariableKeySegment', () => {
+  const segment = new ArrayVariableKeySegment('[sku=$sku]', 'sku', 'sku');
+
+  describe('Construction', () => {
+    it('should create a key variable segment', () => {
+      expect(segment.sourceText).toBe('[sku=$sku]');
+      expect(segment.key).toBe('sku');
+      expect(segment.variable).toBe('sku');
+    });
+  });
+
+  describe('bind()', () => {
+    it('should bind to a keyed element with the value of the variable', () => {
+      const bound = segment.bind({ sku: 'A-1' });
+
+      expect(bound).toBeInstanceOf(ArrayKeySegment);
+      expect(bound.sourceText).toBe('["sku"="A-1"]');
+      expect(bound.key).toBe('sku');
+      expect(bound.value).toBe('A-1');
+      expect(
+        bound.getValue([{ sku: 'B-2' }, { sku: 'A-1', qty: 1 }]).result,
+      ).toStrictEqual({ sku: 'A-1', qty: 1 });
+    });
+
+    it('should bind numbers, booleans and null', () => {
+      [1, true, null].forEach((sku) => {
+        expect(segment.bind({ sku }).value).toBe(sku);
+      });
+    });
+
+    it('should throw on unbound variables', () => {
+      expect(() => segment.bind({})).toThrow("Unbound variable '$sku'");
+    });
+
+    it('should throw on objects and arrays', () => {
+      expect(() => segment.bind({ sku: { a: 1 } })).toThrow(
+        `Variable '$sku' must be a string, number, boolean or null to be used as a key value, got {"a":1}`,
+      );
+      expect(() => segment.bind({ sku: [1] })).toThrow(
+        `Variable '$sku' must be a string, number, boolean or null to be used as a key value, got [1]`,
+      );
+    });
+  });
+
+  describe('getValue() and setValue()', () => {
+    it('should throw, because the variable was never bound', () => {
+      expect(() => segment.getValue()).toThrow("Unbound variable '$sku'");
+      expect(() => segment.setValue()).toThrow("Unbound variable '$sku'");
+    });
+  });
+});
@@ -0,0 +1,47 @@
+import { JSONType } from '../../../types.js';
+import {
+  AbstractPathIteratorSegment,
+  NoChainResult,
+} from './abstractPathIteratorSegment.class.js';
+import { ArrayKeySegment } from './arrayKeySegment.class.js';
+import {
+  PathVariables,
+  resolveVariable,
+  unboundVariableError,
+} from './variables.js';
+
+// Keyed array element with the value given by a variable (e.g., "[sku=$sku]"), bound to an ArrayKeySegment before use
+export class ArrayVariableKeySegment extends AbstractPathIteratorSegment {
+  constructor(
+    sourceText: string,
+    public readonly key: string,
+    public readonly variable: string,
+  ) {
+    super(sourceText);
+  }
+
+  public bind(variables: PathVariables): ArrayKeySegment {
+    const value = resolveVariable(variables, this.variable);
+
+    // keys are compared strictly, so objects and arrays would never match anything
+    if (typeof value === 'object' && value !== null) {
+      throw new Error(
+        `Variable '$${this.variable}' must be a string, number, boolean or null to be used as a key value, got ${JSON.stringify(value)}`,
+      );
+    }
+
+    return new ArrayKeySegment(
+      `[${JSON.stringify(this.key)}=${JSON.stringify(value)}]`,
+      this.key,
+      value,
+    );
+  }
+
+  public getValue(): NoChainResult {
+    throw unboundVariableError(this.variable);
+  }
+
+  public setValue(): JSONType {
+    throw unboundVariableError(this.variable);
+  }
+}
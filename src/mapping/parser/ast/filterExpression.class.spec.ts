@@ -0,0 +1,200 @@
+import { describe, expect, it } from 'vitest';
+import {
+  FilterComparisonExpression,
+  FilterComparisonOperator,
+  FilterFieldOperand,
+  FilterLiteralOperand,
+  FilterLogicalExpression,
+  FilterNotExpression,
+  FilterTruthyExpression,
+} from './filterExpression.class.js';
+import { JSONType } from '../../../types.js';
+
+function field(...path: (string | number)[]): FilterFieldOperand {
+  return new FilterFieldOperand(path);
+}
+
+function literal(value: JSONType): FilterLiteralOperand {
+  return new FilterLiteralOperand(value);
+}
+
+function compare(
+  left: JSONType,
+  operator: FilterComparisonOperator,
+  right: JSONType,
+): boolean {
+  return new FilterComparisonExpression(
+    literal(left),
+    operator,
+    literal(right),
+  ).test(undefined);
+}
+
+describe('Filter expressions', () => {
+  describe('FilterFieldOperand', () => {
+    const item = { a: { b: [10, { c: 'deep' }] }, n: null };
+
+    it('should resolve the current element for an empty path', () => {
+      expect(field().evaluate(item)).toBe(item);
+    });
+
+    it('should resolve nested fields and array positions', () => {
+      expect(field('a', 'b', 0).evaluate(item)).toBe(10);
+      expect(field('a', 'b', 1, 'c').evaluate(item)).toBe('deep');
+      expect(field('n').evaluate(item)).toBeNull();
+    });
+
+    it('should resolve undefined for missing or inherited fields', () => {
+      expect(field('missing').evaluate(item)).toBeUndefined();
+      expect(field('a', 'b', 5).evaluate(item)).toBeUndefined();
+      expect(field('n', 'x').evaluate(item)).toBeUndefined();
+      expect(field('a', 'constructor').evaluate(item)).toBeUndefined();
+      expect(field('x').evaluate('primitive')).toBeUndefined();
+    });
+  });
+
+  describe('FilterLiteralOperand', () => {
+    it('should always resolve the literal', () => {
+      expect(literal('billing').evaluate()).toBe('billing');
+      expect(literal(null).evaluate()).toBeNull();
+    });
+  });
+
+  describe('FilterComparisonExpression', () => {
+    it('should compare equality strictly', () => {
+      expect(compare('a', '==', 'a')).toBe(true);
+      expect(compare(1, '==', '1')).toBe(false);
+      expect(compare(null, '==', undefined)).toBe(false);
+      expect(compare('a', '!=', 'b')).toBe(true);
+      expect(compare(1, '!=', 1)).toBe(false);
+    });
+
+    it('should order numbers', () => {
+      expect(compare(1, '<', 2)).toBe(true);
+      expect(compare(2, '<', 2)).toBe(false);
+      expect(compare(2, '<=', 2)).toBe(true);
+      expect(compare(3, '<=', 2)).toBe(false);
+      expect(compare(3, '>', 2)).toBe(true);
+      expect(compare(2, '>', 2)).toBe(false);
+      expect(compare(2, '>=', 2)).toBe(true);
+      expect(compare(1, '>=', 2)).toBe(false);
+    });
+
+    it('should order strings', () => {
+      expect(compare('a', '<', 'b')).toBe(true);
+      expect(compare('b', '>=', 'a')).toBe(true);
+    });
+
+    it('should never order mismatched types', () => {
+      expect(compare(1, '<', '2')).toBe(false);
+      expect(compare('1', '>=', 1)).toBe(false);
+      expect(compare(null, '<=', 0)).toBe(false);
+      expect(compare(undefined, '>', 0)).toBe(false);
+    });
+
+    it('should compare fields of the element', () => {
+      const expression = new FilterComparisonExpression(
+        field('type'),
+        '==',
+        literal('billing'),
+      );
+
+      expect(expression.test({ type: 'billing' })).toBe(true);
+      expect(expression.test({ type: 'shipping' })).toBe(false);
+      expect(expression.test({})).toBe(false);
+    });
+
+    it('should seed equality between a field and a literal', () => {
+      expect(
+        new FilterComparisonExpression(
+          field('a', 'type'),
+          '==',
+          literal('billing'),
+        ).seeds(),
+      ).toStrictEqual([{ path: ['a', 'type'], value: 'billing' }]);
+
+      expect(
+        new FilterComparisonExpression(literal(1), '==', field('id')).seeds(),
+      ).toStrictEqual([{ path: ['id'], value: 1 }]);
+    });
+
+    it('should not seed anything it can not guarantee', () => {
+      [
+        new FilterComparisonExpression(field('a'), '!=', literal(1)),
+        new FilterComparisonExpression(field('a'), '>', literal(1)),
+        new FilterComparisonExpression(field('a'), '==', field('b')),
+        new FilterComparisonExpression(literal(1), '==', literal(1)),
+        new FilterComparisonExpression(field(), '==', literal(1)),
+        new FilterComparisonExpression(field('a', 0), '==', literal(1)),
+      ].forEach((expression) => {
+        expect(expression.seeds()).toStrictEqual([]);
+      });
+    });
+  });
+
+  describe('FilterTruthyExpression', () => {
+    it('should test the truthiness of an operand', () => {
+      const expression = new FilterTruthyExpression(field('active'));
+
+      expect(expression.test({ active: true })).toBe(true);
+      expect(expression.test({ active: 'yes' })).toBe(true);
+      expect(expression.test({ active: 0 })).toBe(false);
+      expect(expression.test({})).toBe(false);
+      expect(expression.seeds()).toStrictEqual([]);
+    });
+  });
+
+  describe('FilterNotExpression', () => {
+    it('should negate an expression', () => {
+      const expression = new FilterNotExpression(
+        new FilterTruthyExpression(field('active')),
+      );
+
+      expect(expression.test({ active: true })).toBe(false);
+      expect(expression.test({ active: false })).toBe(true);
+      expect(expression.seeds()).toStrictEqual([]);
+    });
+  });
+
+  describe('FilterLogicalExpression', () => {
+    const isBilling = new FilterComparisonExpression(
+      field('type'),
+      '==',
+      literal('billing'),
+    );
+    const isPrimary = new FilterComparisonExpression(
+      field('primary'),
+      '==',
+      literal(true),
+    );
+
+    it('should combine expressions with AND', () => {
+      const expression = new FilterLogicalExpression(
+        isBilling,
+        '&&',
+        isPrimary,
+      );
+
+      expect(expression.test({ type: 'billing', primary: true })).toBe(true);
+      expect(expression.test({ type: 'billing', primary: false })).toBe(false);
+      expect(expression.test({ type: 'other', primary: true })).toBe(false);
+      expect(expression.seeds()).toStrictEqual([
+        { path: ['type'], value: 'billing' },
+        { path: ['primary'], value: true },
+      ]);
+    });
+
+    it('should combine expressions with OR', () => {
+      const expression = new FilterLogicalExpression(
+        isBilling,
+        '||',
+        isPrimary,
+      );
+
+      expect(expression.test({ type: 'billing', primary: false })).toBe(true);
+      expect(expression.test({ type: 'other', primary: true })).toBe(true);
+      expect(expression.test({ type: 'other', primary: false })).toBe(false);
+      expect(expression.seeds()).toStrictEqual([]);
+    });
+  });
+});
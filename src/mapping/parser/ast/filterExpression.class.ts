@@ -0,0 +1,195 @@
+import { JSONType, JSONObject } from '../../../types.js';
+
+export type FilterFieldPath = (string | number)[];
+
+export type FilterComparisonOperator = '==' | '!=' | '<' | '<=' | '>' | '>=';
+
+export type FilterLogicalOperator = '&&' | '||';
+
+/**
+ * A field value that an element must hold to match a filter. Used to seed new
+ * elements on inject, so they match the filter when extracted again.
+ */
+export interface FilterSeed {
+  path: string[];
+  value: JSONType;
+}
+
+export abstract class AbstractFilterOperand {
+  public abstract evaluate(item: JSONType): JSONType | undefined;
+}
+
+// Field of the current element (e.g., "@.address.type", "@[0]", "@")
+export class FilterFieldOperand extends AbstractFilterOperand {
+  constructor(public readonly path: FilterFieldPath) {
+    super();
+  }
+
+  public evaluate(item: JSONType): JSONType | undefined {
+    let current: JSONType | undefined = item;
+
+    for (const key of this.path) {
+      if (typeof current !== 'object' || current === null) {
+        return undefined;
+      }
+
+      if (!Object.hasOwn(current, key)) {
+        return undefined;
+      }
+
+      current = (current as JSONObject)[key];
+    }
+
+    return current;
+  }
+}
+
+// Literal value (e.g., "'billing'", "42", "true", "null")
+export class FilterLiteralOperand extends AbstractFilterOperand {
+  constructor(public readonly value: JSONType) {
+    super();
+  }
+
+  public evaluate(): JSONType {
+    return this.value;
+  }
+}
+
+export abstract class AbstractFilterExpression {
+  public abstract test(item: JSONType): boolean;
+
+  /**
+   * Returns the field values every matching element is guaranteed to hold.
+   * Expressions that can't guarantee any values return no seeds.
+   */
+  public seeds(): FilterSeed[] {
+    return [];
+  }
+}
+
+// Comparison of two operands (e.g., "@.type == 'billing'")
+export class FilterComparisonExpression extends AbstractFilterExpression {
+  constructor(
+    public readonly left: AbstractFilterOperand,
+    public readonly operator: FilterComparisonOperator,
+    public readonly right: AbstractFilterOperand,
+  ) {
+    super();
+  }
+
+  private _compareOrdered(
+    left: string | number,
+    right: string | number,
+  ): boolean {
+    switch (this.operator) {
+      case '<':
+        return left < right;
+      case '<=':
+        return left <= right;
+      case '>':
+        return left > right;
+      default:
+        return left >= right;
+    }
+  }
+
+  public test(item: JSONType): boolean {
+    const left = this.left.evaluate(item);
+    const right = this.right.evaluate(item);
+
+    if (this.operator === '==') {
+      return left === right;
+    }
+
+    if (this.operator === '!=') {
+      return left !== right;
+    }
+
+    // ordering only makes sense between two numbers or two strings
+    const bothNumbers = typeof left === 'number' && typeof right === 'number';
+    const bothStrings = typeof left === 'string' && typeof right === 'string';
+
+    if (!bothNumbers && !bothStrings) {
+      return false;
+    }
+
+    return this._compareOrdered(left, right);
+  }
+
+  public seeds(): FilterSeed[] {
+    if (this.operator !== '==') {
+      return [];
+    }
+
+    const field =
+      this.left instanceof FilterFieldOperand ? this.left : this.right;
+    const literal =
+      this.left instanceof FilterLiteralOperand ? this.left : this.right;
+
+    if (
+      !(field instanceof FilterFieldOperand) ||
+      !(literal instanceof FilterLiteralOperand)
+    ) {
+      return [];
+    }
+
+    // only object fields can be seeded, array positions are not ours to pick
+    const path = field.path.filter((key) => typeof key === 'string');
+
+    if (path.length === 0 || path.length !== field.path.length) {
+      return [];
+    }
+
+    return [{ path, value: literal.value }];
+  }
+}
+
+// Truthiness of a single operand (e.g., "@.active")
+export class FilterTruthyExpression extends AbstractFilterExpression {
+  constructor(public readonly operand: AbstractFilterOperand) {
+    super();
+  }
+
+  public test(item: JSONType): boolean {
+    return Boolean(this.operand.evaluate(item));
+  }
+}
+
+// Negation of an expression (e.g., "!(@.type == 'billing')")
+export class FilterNotExpression extends AbstractFilterExpression {
+  constructor(public readonly expression: AbstractFilterExpression) {
+    super();
+  }
+
+  public test(item: JSONType): boolean {
+    return !this.expression.test(item);
+  }
+}
+
+// Logical combination of two expressions (e.g., "@.a == 1 && @.b == 2")
+export class FilterLogicalExpression extends AbstractFilterExpression {
+  constructor(
+    public readonly left: AbstractFilterExpression,
+    public readonly operator: FilterLogicalOperator,
+    public readonly right: AbstractFilterExpression,
+  ) {
+    super();
+  }
+
+  public test(item: JSONType): boolean {
+    if (this.operator === '&&') {
+      return this.left.test(item) && this.right.test(item);
+    }
+
+    return this.left.test(item) || this.right.test(item);
+  }
+
+  public seeds(): FilterSeed[] {
+    // either side of an OR could be the one that matched, so nothing is guaranteed
+    if (this.operator === '||') {
+      return [];
+    }
+
+    return [...this.left.seeds(), ...this.right.seeds()];
+  }
+}
@@ -0,0 +1,94 @@
+import { describe, expect, it } from 'vitest';
+import { ObjectEntriesSegment } from './objectEntriesSegment.class.js';
+import { JSONObject, JSONType } from '../../../types.js';
+
+describe('ObjectEntriesSegment', () => {
+  const segment = new ObjectEntriesSegment('@entries');
+
+  describe('Construction', () => {
+    it('should create an entries segment', () => {
+      expect(segment.sourceText).toBe('@entries');
+    });
+  });
+
+  describe('getValue()', () => {
+    it('should return the key/value pairs of an object in key order', () => {
+      expect(
+        segment.getValue({ accept: 'json', limits: { max: 1 } }),
+      ).toStrictEqual([
+        { key: 'accept', value: 'json' },
+        { key: 'limits', value: { max: 1 } },
+      ]);
+    });
+
+    it('should return an empty array for non-objects', () => {
+      [undefined, null, 'abc', 1, [{ key: 'a', value: 1 }]].forEach(
+        (source) => {
+          expect(segment.getValue(source as JSONType)).toStrictEqual([]);
+        },
+      );
+    });
+
+    it('should not allow modification of source through result', () => {
+      const source = { limits: { max: 1 } };
+
+      const result = segment.getValue(source);
+      ((result[0] as JSONObject).value as JSONObject).max = 2;
+
+      expect(source).toStrictEqual({ limits: { max: 1 } });
+    });
+  });
+
+  describe('setValue()', () => {
+    it('should rebuild an object from key/value pairs', () => {
+      expect(
+        segment.setValue(undefined, [
+          { key: 'accept', value: 'json' },
+          { key: 'limits', value: { max: 1 } },
+        ]),
+      ).toStrictEqual({ accept: 'json', limits: { max: 1 } });
+    });
+
+    it('should replace the destination', () => {
+      expect(
+        segment.setValue({ old: true }, [{ key: 'new', value: true }]),
+      ).toStrictEqual({ new: true });
+    });
+
+    it('should skip pairs without a string key, and let later keys win', () => {
+      expect(
+        segment.setValue(undefined, [
+          { key: 'a', value: 1 },
+          { key: 2, value: 2 },
+          { value: 3 },
+          'not a pair',
+          null,
+          { key: 'a', value: 4 },
+          { key: 'b' },
+        ]),
+      ).toStrictEqual({ a: 4, b: undefined });
+    });
+
+    it('should create an empty object for values that are not arrays', () => {
+      expect(segment.setValue({ a: 1 }, { a: 2 })).toStrictEqual({});
+      expect(segment.setValue({ a: 1 }, undefined)).toStrictEqual({});
+    });
+
+    it('should round trip with getValue()', () => {
+      const source = { a: 1, b: [2], c: { d: null } };
+
+      expect(
+        segment.setValue(undefined, segment.getValue(source)),
+      ).toStrictEqual(source);
+    });
+
+    it('should not allow modification of value through result', () => {
+      const value = [{ key: 'limits', value: { max: 1 } }];
+
+      const result = segment.setValue(undefined, value);
+      (result.limits as JSONObject).max = 2;
+
+      expect(value).toStrictEqual([{ key: 'limits', value: { max: 1 } }]);
+    });
+  });
+});
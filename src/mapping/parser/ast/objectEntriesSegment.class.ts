@@ -0,0 +1,48 @@
+import { AbstractPathIndexSegment } from './abstractPathIndexSegment.class.js';
+import { JSONType, JSONObject, JSONArray } from '../../../types.js';
+import { clone, _isObject } from '../../../helpers.js';
+
+// Object entries segment, converts between a record and a list of key/value pairs (e.g., "headers.@entries")
+export class ObjectEntriesSegment extends AbstractPathIndexSegment {
+  constructor(sourceText: string) {
+    super(sourceText);
+  }
+
+  /**
+   * Returns the source object as an array of {key, value} pairs, in key order.
+   */
+  public getValue(source: JSONType): JSONArray {
+    if (!_isObject(source)) {
+      return [];
+    }
+
+    return Object.keys(source).map((key) => ({
+      key,
+      value: clone(source[key]),
+    }));
+  }
+
+  /**
+   * Rebuilds an object from an array of {key, value} pairs. The pairs replace
+   * the destination, so keys that are no longer listed are dropped. Pairs
+   * without a string key can not become a field, and are skipped.
+   */
+  public setValue(
+    _destination: JSONType | undefined,
+    value: JSONType | undefined,
+  ): JSONObject {
+    const output: JSONObject = {};
+
+    if (!Array.isArray(value)) {
+      return output;
+    }
+
+    value.forEach((entry) => {
+      if (_isObject(entry) && typeof entry.key === 'string') {
+        output[entry.key] = clone(entry.value);
+      }
+    });
+
+    return output;
+  }
+}
@@ -15,6 +15,79 @@ describe('ObjectFieldSegment', () => {
       expect(segment.name).toBe('[field]');
       expect(segment.sourceText).toBe('\\[field\\]');
     });
+
+    it('should create a quoted object field segment', () => {
+      const segment = new ObjectIndexSegment('["{a,b}"]', '{a,b}', true);
+      expect(segment.name).toBe('{a,b}');
+      expect(segment.quoted).toBe(true);
+      expect(segment.getValue({ '{a,b}': 1, a: 2, b: 3 })).toBe(1);
+      expect(segment.setValue({}, 4)).toStrictEqual({ '{a,b}': 4 });
+    });
+
+    it('should reject malformed aliases in field selections', () => {
+      expect(
+        () => new ObjectIndexSegment('{id, : name}', '{id, : name}'),
+      ).toThrow("Invalid field selection ': name', expected 'alias: field'");
+      expect(() => new ObjectIndexSegment('{a: b: c}', '{a: b: c}')).toThrow(
+        "Invalid field selection 'a: b: c', expected 'alias: field'",
+      );
+    });
+
+    it('should reject field selections with duplicate keys', () => {
+      expect(
+        () =>
+          new ObjectIndexSegment('{name, name: title}', '{name, name: title}'),
+      ).toThrow("Duplicate field selection 'name'");
+    });
+  });
+
+  describe('Multi-field selections', () => {
+    const source = { id: 1, name: 'John', email: 'john@example.com', age: 30 };
+
+    it('should get the selected fields', () => {
+      const segment = new ObjectIndexSegment('{id,name}', '{id,name}');
+
+      expect(segment.getValue(source)).toStrictEqual({ id: 1, name: 'John' });
+    });
+
+    it('should get aliased fields under their alias', () => {
+      const segment = new ObjectIndexSegment(
+        '{id, full_name: name, email_address: email}',
+        '{id, full_name: name, email_address: email}',
+      );
+
+      expect(segment.getValue(source)).toStrictEqual({
+        id: 1,
+        full_name: 'John',
+        email_address: 'john@example.com',
+      });
+      expect(segment.getValue('not an object')).toStrictEqual({});
+    });
+
+    it('should set aliased fields back under their original names', () => {
+      const segment = new ObjectIndexSegment(
+        '{id, full_name: name}',
+        '{id, full_name: name}',
+      );
+
+      const result = segment.setValue(
+        { age: 30, name: 'Jane' },
+        { id: 2, full_name: 'John', ignored: true },
+      );
+
+      expect(result).toStrictEqual({ age: 30, name: 'John', id: 2 });
+    });
+
+    it('should leave the destination alone for non-object values', () => {
+      const segment = new ObjectIndexSegment(
+        '{id, full_name: name}',
+        '{id, full_name: name}',
+      );
+
+      expect(segment.setValue({ id: 1 }, 'John')).toStrictEqual({ id: 1 });
+      expect(segment.setValue(undefined, ['John'])).toStrictEqual({});
+      expect(segment.setValue(undefined, null)).toStrictEqual({});
+    });
   });
 
   describe('getValue()', () => {
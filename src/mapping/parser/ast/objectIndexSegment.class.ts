@@ -1,25 +1,63 @@
 import { AbstractPathIndexSegment } from './abstractPathIndexSegment.class.js';
 import { JSONType, JSONObject } from '../../../types.js';
 
-// Field access segment (e.g., "user")
+// A field selected by a multi-field segment, and the key it is known by outside the object
+export interface FieldSelection {
+  field: string;
+  alias: string;
+}
+
+// Field access segment (e.g., "user", "{id,name}", "{id,full_name:name}", '["a.b"]')
 export class ObjectIndexSegment extends AbstractPathIndexSegment {
-  private fields: string[] = [];
-  private multiMatch: boolean = false;
+  public readonly selections: FieldSelection[] = [];
+  public readonly multiMatch: boolean = false;
 
   constructor(
     text: string,
     public readonly name: string,
+    public readonly quoted: boolean = false,
   ) {
     super(text);
 
-    const multiNameMatch = name.match(/^{([^}]+)}$/);
+    // a quoted name is always taken literally, even if it looks like a field selection
+    const multiNameMatch = quoted ? null : name.match(/^{([^}]+)}$/);
 
     if (multiNameMatch) {
-      this.fields = multiNameMatch[1].split(',').map((field) => field.trim());
+      this.selections = multiNameMatch[1]
+        .split(',')
+        .map((selection) => this._parseSelection(selection));
       this.multiMatch = true;
+      this._assertUniqueAliases();
     } else {
-      this.fields = [name];
+      this.selections = [{ field: name, alias: name }];
+    }
+  }
+
+  private _parseSelection(selection: string): FieldSelection {
+    const parts = selection.split(':').map((part) => part.trim());
+
+    if (parts.length === 1) {
+      return { field: parts[0], alias: parts[0] };
     }
+
+    if (parts.length !== 2 || !parts[0] || !parts[1]) {
+      throw new Error(
+        `Invalid field selection '${selection.trim()}', expected 'alias: field'`,
+      );
+    }
+
+    return { field: parts[1], alias: parts[0] };
+  }
+
+  private _assertUniqueAliases(): void {
+    const seen: Record<string, boolean> = {};
+
+    this.selections.forEach(({ alias }) => {
+      if (seen[alias]) {
+        throw new Error(`Duplicate field selection '${alias}'`);
+      }
+      seen[alias] = true;
+    });
   }
 
   private getValues(source: JSONType): JSONObject {
@@ -30,8 +68,8 @@ export class ObjectIndexSegment extends AbstractPathIndexSegment {
       return output;
     }
 
-    this.fields.forEach((field) => {
-      output[field] =
+    this.selections.forEach(({ field, alias }) => {
+      output[alias] =
         field in source ? (source as JSONObject)[field] : undefined;
     });
 
@@ -61,7 +99,31 @@ export class ObjectIndexSegment extends AbstractPathIndexSegment {
       source = {};
     }
     source = source as JSONObject;
+
+    if (this.multiMatch) {
+      return this.setValues(source, value);
+    }
+
     source[this.name] = value;
     return source;
   }
+
+  /**
+   * The inverse of getValues(), each aliased key of value is written back to
+   * the field it was selected from.
+   */
+  private setValues(
+    destination: JSONObject,
+    value: JSONType | undefined,
+  ): JSONObject {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+      return destination;
+    }
+
+    this.selections.forEach(({ field, alias }) => {
+      destination[field] = value[alias];
+    });
+
+    return destination;
+  }
 }
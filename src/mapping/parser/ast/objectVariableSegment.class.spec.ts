@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { ObjectVariableSegment } from './objectVariableSegment.class.js';
+import { ObjectIndexSegment } from './objectIndexSegment.class.js';
+
+describe('ObjectVariableSegment', () => {
+  const segment = new ObjectVariableSegment('$locale', 'locale');
+
+  describe('Construction', () => {
+    it('should create a field variable segment', () => {
+      expect(segment.sourceText).toBe('$locale');
+      expect(segment.variable).toBe('locale');
+    });
+  });
+
+  describe('bind()', () => {
+    it('should bind to a single field named by the variable', () => {
+      const bound = segment.bind({ locale: 'en-US' });
+
+      expect(bound).toBeInstanceOf(ObjectIndexSegment);
+      expect(bound.sourceText).toBe('["en-US"]');
+      expect(bound.name).toBe('en-US');
+      expect(bound.getValue({ 'en-US': 'Hello' })).toBe('Hello');
+    });
+
+    it('should take values that look like selections literally', () => {
+      const bound = segment.bind({ locale: '{a, b}' });
+
+      expect(bound.multiMatch).toBe(false);
+      expect(bound.getValue({ '{a, b}': 1, a: 2 })).toBe(1);
+    });
+
+    it('should throw on unbound variables', () => {
+      expect(() => segment.bind({})).toThrow("Unbound variable '$locale'");
+      expect(() => segment.bind({ locale: undefined })).toThrow(
+        "Unbound variable '$locale'",
+      );
+    });
+
+    it('should throw on values that are not strings', () => {
+      expect(() => segment.bind({ locale: 1 })).toThrow(
+        "Variable '$locale' must be a string to be used as a field name, got 1",
+      );
+    });
+  });
+
+  describe('getValue() and setValue()', () => {
+    it('should throw, because the variable was never bound', () => {
+      expect(() => segment.getValue()).toThrow("Unbound variable '$locale'");
+      expect(() => segment.setValue()).toThrow("Unbound variable '$locale'");
+    });
+  });
+});
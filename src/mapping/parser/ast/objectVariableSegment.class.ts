@@ -0,0 +1,39 @@
+import { JSONType } from '../../../types.js';
+import { AbstractPathIndexSegment } from './abstractPathIndexSegment.class.js';
+import { ObjectIndexSegment } from './objectIndexSegment.class.js';
+import {
+  PathVariables,
+  resolveVariable,
+  unboundVariableError,
+} from './variables.js';
+
+// Field named by a variable (e.g., "labels.$locale"), bound to an ObjectIndexSegment before use
+export class ObjectVariableSegment extends AbstractPathIndexSegment {
+  constructor(
+    sourceText: string,
+    public readonly variable: string,
+  ) {
+    super(sourceText);
+  }
+
+  public bind(variables: PathVariables): ObjectIndexSegment {
+    const name = resolveVariable(variables, this.variable);
+
+    if (typeof name !== 'string') {
+      throw new Error(
+        `Variable '$${this.variable}' must be a string to be used as a field name, got ${JSON.stringify(name)}`,
+      );
+    }
+
+    // quoted, so the value is always a single field, even if it looks like a selection
+    return new ObjectIndexSegment(`[${JSON.stringify(name)}]`, name, true);
+  }
+
+  public getValue(): JSONType | undefined {
+    throw unboundVariableError(this.variable);
+  }
+
+  public setValue(): JSONType | undefined {
+    throw unboundVariableError(this.variable);
+  }
+}
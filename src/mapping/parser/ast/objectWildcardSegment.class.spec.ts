@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest';
+import { ObjectWildcardSegment } from './objectWildcardSegment.class.js';
+import { JSONObject, JSONType } from '../../../types.js';
+
+describe('ObjectWildcardSegment', () => {
+  describe('Construction', () => {
+    it('should create a wildcard segment', () => {
+      const segment = new ObjectWildcardSegment('*');
+      expect(segment.sourceText).toBe('*');
+    });
+  });
+
+  describe('getValue()', () => {
+    const segment = new ObjectWildcardSegment('*');
+
+    it('should return every key and value of an object', () => {
+      const source = { a: 1, b: { c: 2 }, d: [3] };
+
+      expect(segment.getValue(source)).toStrictEqual({
+        a: 1,
+        b: { c: 2 },
+        d: [3],
+      });
+    });
+
+    it('should not allow modification of source through result', () => {
+      const source = { a: { b: 1 } };
+
+      const result = segment.getValue(source);
+      (result.a as JSONObject).b = 2;
+
+      expect(source).toStrictEqual({ a: { b: 1 } });
+    });
+
+    it('should return an empty object for an empty object', () => {
+      expect(segment.getValue({})).toStrictEqual({});
+    });
+
+    [
+      { name: 'array', source: [1, 2, 3] },
+      { name: 'string', source: 'abc' },
+      { name: 'number', source: 123 },
+      { name: 'null', source: null },
+      { name: 'undefined', source: undefined },
+    ].forEach(({ name, source }) => {
+      it(`should return an empty object for ${name} source`, () => {
+        expect(segment.getValue(source as JSONType)).toStrictEqual({});
+      });
+    });
+  });
+
+  describe('setValue()', () => {
+    const segment = new ObjectWildcardSegment('*');
+
+    it('should merge keys into an existing object', () => {
+      const destination = { a: 1, b: 2 };
+
+      const result = segment.setValue(destination, { b: 3, c: 4 });
+
+      expect(result).toStrictEqual({ a: 1, b: 3, c: 4 });
+    });
+
+    it('should create an object if destination is not an object', () => {
+      [undefined, null, 'abc', 123, [1, 2]].forEach((destination) => {
+        const result = segment.setValue(destination as JSONType, { a: 1 });
+
+        expect(result).toStrictEqual({ a: 1 });
+      });
+    });
+
+    it('should ignore values that are not objects', () => {
+      [undefined, null, 'abc', 123, [1, 2]].forEach((value) => {
+        const result = segment.setValue({ a: 1 }, value as JSONType);
+
+        expect(result).toStrictEqual({ a: 1 });
+      });
+    });
+  });
+});
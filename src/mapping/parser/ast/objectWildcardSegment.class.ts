@@ -0,0 +1,54 @@
+import { AbstractPathIndexSegment } from './abstractPathIndexSegment.class.js';
+import { JSONType, JSONObject } from '../../../types.js';
+import { clone, _isObject } from '../../../helpers.js';
+
+// Wildcard field access segment (e.g., "metrics.*.count")
+export class ObjectWildcardSegment extends AbstractPathIndexSegment {
+  constructor(sourceText: string) {
+    super(sourceText);
+  }
+
+  /**
+   * Returns every key/value of the source object. The keys are preserved so
+   * that the remainder of the path can be resolved per key, and the same keys
+   * can be written back on inject.
+   */
+  public getValue(source: JSONType): JSONObject {
+    const output: JSONObject = {};
+
+    if (!_isObject(source)) {
+      return output;
+    }
+
+    Object.keys(source).forEach((key) => {
+      output[key] = clone(source[key]);
+    });
+
+    return output;
+  }
+
+  /**
+   * Writes each key/value of value into the destination object, leaving any
+   * other keys in the destination untouched.
+   */
+  public setValue(
+    destination: JSONType | undefined,
+    value: JSONType | undefined,
+  ): JSONObject {
+    if (!_isObject(destination)) {
+      destination = {};
+    }
+
+    if (!_isObject(value)) {
+      return destination;
+    }
+
+    const scopedDestination = destination;
+
+    Object.keys(value).forEach((key) => {
+      scopedDestination[key] = value[key];
+    });
+
+    return scopedDestination;
+  }
+}
@@ -0,0 +1,87 @@
+import { describe, expect, it } from 'vitest';
+import { RecursiveDescentSegment } from './recursiveDescentSegment.class.js';
+import { JSONObject, JSONType } from '../../../types.js';
+
+describe('RecursiveDescentSegment', () => {
+  describe('Construction', () => {
+    it('should create a recursive descent segment', () => {
+      const segment = new RecursiveDescentSegment('..email', 'email');
+      expect(segment.name).toBe('email');
+      expect(segment.sourceText).toBe('..email');
+    });
+  });
+
+  describe('getValue()', () => {
+    const segment = new RecursiveDescentSegment('..id', 'id');
+
+    it('should find matches at every depth in document order', () => {
+      const source = {
+        id: 1,
+        owner: { id: 2, name: 'Jane' },
+        items: [{ id: 3 }, { sku: 'x', parts: [{ id: 4 }] }, 5],
+        last: { id: 6 },
+      };
+
+      expect(segment.getValue(source)).toStrictEqual([1, 2, 3, 4, 6]);
+    });
+
+    it('should search inside matched values', () => {
+      const source = { id: { id: { id: 'deep' } } };
+
+      expect(segment.getValue(source)).toStrictEqual([
+        { id: { id: 'deep' } },
+        { id: 'deep' },
+        'deep',
+      ]);
+    });
+
+    it('should search arrays at the root', () => {
+      expect(segment.getValue([{ id: 1 }, [{ id: 2 }]])).toStrictEqual([1, 2]);
+    });
+
+    it('should include null and undefined matches', () => {
+      expect(
+        segment.getValue({ a: { id: null }, b: { id: undefined } }),
+      ).toStrictEqual([null, undefined]);
+    });
+
+    it('should not match inherited properties', () => {
+      const constructorSegment = new RecursiveDescentSegment(
+        '..constructor',
+        'constructor',
+      );
+
+      expect(constructorSegment.getValue({ a: {} })).toStrictEqual([]);
+    });
+
+    it('should not allow modification of source through result', () => {
+      const source = { a: { id: { value: 1 } } };
+
+      const result = segment.getValue(source);
+      (result[0] as JSONObject).value = 2;
+
+      expect(source).toStrictEqual({ a: { id: { value: 1 } } });
+    });
+
+    [
+      { name: 'string', source: 'abc' },
+      { name: 'number', source: 123 },
+      { name: 'null', source: null },
+      { name: 'undefined', source: undefined },
+    ].forEach(({ name, source }) => {
+      it(`should return no matches for ${name} source`, () => {
+        expect(segment.getValue(source as JSONType)).toStrictEqual([]);
+      });
+    });
+  });
+
+  describe('setValue()', () => {
+    it('should always throw', () => {
+      const segment = new RecursiveDescentSegment('..id', 'id');
+
+      expect(() => segment.setValue()).toThrow(
+        'Recursive descent paths can not be injected into',
+      );
+    });
+  });
+});
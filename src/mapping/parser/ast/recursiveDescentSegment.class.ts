@@ -0,0 +1,71 @@
+import { AbstractPathIndexSegment } from './abstractPathIndexSegment.class.js';
+import { JSONType, JSONArray } from '../../../types.js';
+import { clone } from '../../../helpers.js';
+
+// Recursive descent segment (e.g., "..email"), searches every depth for a field
+export class RecursiveDescentSegment extends AbstractPathIndexSegment {
+  constructor(
+    sourceText: string,
+    public readonly name: string,
+  ) {
+    super(sourceText);
+  }
+
+  private _children(value: JSONType): JSONType[] {
+    if (Array.isArray(value)) {
+      return value;
+    }
+
+    if (typeof value === 'object' && value !== null) {
+      return Object.values(value);
+    }
+
+    return [];
+  }
+
+  private _match(value: JSONType): JSONType[] {
+    if (
+      typeof value !== 'object' ||
+      value === null ||
+      Array.isArray(value) ||
+      !Object.hasOwn(value, this.name)
+    ) {
+      return [];
+    }
+
+    return [clone(value[this.name])];
+  }
+
+  /**
+   * Returns all values of the named field, at any depth, in document order.
+   *
+   * The search uses a stack instead of recursion because the depth of the
+   * source is unknown.
+   */
+  public getValue(source: JSONType): JSONArray {
+    const matches: JSONArray = [];
+    const stack: JSONType[] = [source];
+
+    while (stack.length > 0) {
+      const current = stack.pop();
+
+      matches.push(...this._match(current));
+
+      // push in reverse so the first child is searched first
+      const children = this._children(current);
+      for (let i = children.length - 1; i >= 0; i--) {
+        stack.push(children[i]);
+      }
+    }
+
+    return matches;
+  }
+
+  /**
+   * Search results have no single location to write back to, so recursive
+   * descent paths can only be extracted from.
+   */
+  public setValue(): never {
+    throw new Error('Recursive descent paths can not be injected into');
+  }
+}
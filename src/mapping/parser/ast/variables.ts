@@ -0,0 +1,27 @@
+import { JSONType } from '../../../types.js';
+
+// Values for the "$name" variables of a path, keyed by name without the "$"
+export type PathVariables = Record<string, JSONType>;
+
+export function unboundVariableError(name: string): Error {
+  return new Error(`Unbound variable '$${name}'`);
+}
+
+/**
+ * Looks up the value of a variable, undefined counts as unbound.
+ *
+ * @param {PathVariables} variables - The variables to look in.
+ * @param {string} name - The variable name, without the "$".
+ * @return {JSONType} The value of the variable.
+ * @throws {Error} If the variable is not bound.
+ */
+export function resolveVariable(
+  variables: PathVariables,
+  name: string,
+): JSONType {
+  if (!Object.hasOwn(variables, name) || variables[name] === undefined) {
+    throw unboundVariableError(name);
+  }
+
+  return variables[name];
+}
@@ -3,6 +3,15 @@ import { Parser, ParseError } from './core.js';
 import { ObjectIndexSegment } from './ast/objectIndexSegment.class.js';
 import { ArrayIndexSegmentClass } from './ast/arrayIndexSegment.class.js';
 import { ArrayIteratorSegment } from './ast/arrayIteratorSegment.class.js';
+import { ObjectWildcardSegment } from './ast/objectWildcardSegment.class.js';
+import { ObjectEntriesSegment } from './ast/objectEntriesSegment.class.js';
+import { RecursiveDescentSegment } from './ast/recursiveDescentSegment.class.js';
+import { ArrayFilterSegment } from './ast/arrayFilterSegment.class.js';
+import { ArrayKeySegment } from './ast/arrayKeySegment.class.js';
+import { ObjectVariableSegment } from './ast/objectVariableSegment.class.js';
+import { ArrayVariableIndexSegment } from './ast/arrayVariableIndexSegment.class.js';
+import { ArrayVariableKeySegment } from './ast/arrayVariableKeySegment.class.js';
+import { JSONType } from '../../types.js';
 import { PathSegment } from './ast/types.js';
 
 describe('Path Parser', () => {
@@ -171,6 +180,520 @@ describe('Path Parser', () => {
       expect((segments[1] as ArrayIteratorSegment).start).toBe(-2);
       expect((segments[1] as ArrayIteratorSegment).size).toBe(-1);
     });
+
+    it('should parse slice with start, size and stride', () => {
+      const parser = new Parser('samples[[0,10,2]].value');
+      const segments = parser.parsePath();
+
+      expect(segments).toHaveLength(3);
+      expect(segments[1]).toBeInstanceOf(ArrayIteratorSegment);
+      expect(segments[1].sourceText).toBe('[[0,10,2]]');
+      expect((segments[1] as ArrayIteratorSegment).start).toBe(0);
+      expect((segments[1] as ArrayIteratorSegment).size).toBe(10);
+      expect((segments[1] as ArrayIteratorSegment).stride).toBe(2);
+    });
+
+    it('should parse slice with a negative stride and no size', () => {
+      const parser = new Parser('samples[[-1,,-3]]');
+      const segments = parser.parsePath();
+
+      expect(segments).toHaveLength(2);
+      expect(segments[1].sourceText).toBe('[[-1,,-3]]');
+      expect((segments[1] as ArrayIteratorSegment).start).toBe(-1);
+      expect((segments[1] as ArrayIteratorSegment).size).toBeUndefined();
+      expect((segments[1] as ArrayIteratorSegment).stride).toBe(-3);
+    });
+  });
+
+  describe('Quoted field segments', () => {
+    it('should parse double and single quoted field names', () => {
+      const parser = new Parser(`data["field.with.dots"]['a b'].c`);
+      const segments = parser.parsePath();
+
+      expect(segments).toHaveLength(4);
+      expect(segments[1]).toBeInstanceOf(ObjectIndexSegment);
+      expect((segments[1] as ObjectIndexSegment).name).toBe('field.with.dots');
+      expect((segments[1] as ObjectIndexSegment).quoted).toBe(true);
+      expect(segments[1].sourceText).toBe('["field.with.dots"]');
+      expect((segments[2] as ObjectIndexSegment).name).toBe('a b');
+      expect(segments[2].sourceText).toBe("['a b']");
+      expect((segments[3] as ObjectIndexSegment).name).toBe('c');
+      expect((segments[3] as ObjectIndexSegment).quoted).toBe(false);
+    });
+
+    it('should parse quoted field names at the root and before array segments', () => {
+      const parser = new Parser(`["[weird]"][0]['x'][[0]]`);
+      const segments = parser.parsePath();
+
+      expect(segments).toHaveLength(4);
+      expect((segments[0] as ObjectIndexSegment).name).toBe('[weird]');
+      expect(segments[1]).toBeInstanceOf(ArrayIndexSegmentClass);
+      expect((segments[2] as ObjectIndexSegment).name).toBe('x');
+      expect(segments[3]).toBeInstanceOf(ArrayIteratorSegment);
+    });
+
+    it('should apply string escapes and unicode to quoted field names', () => {
+      const parser = new Parser(
+        `["say \\"hi\\""]['it\\'s']["tab\\there"]["\\u00e9t\\u{1F389}"]["日本"]`,
+      );
+      const names = parser
+        .parsePath()
+        .map((segment) => (segment as ObjectIndexSegment).name);
+
+      expect(names).toStrictEqual([
+        'say "hi"',
+        "it's",
+        'tab\there',
+        'ét🎉',
+        '日本',
+      ]);
+    });
+
+    it('should take quoted field names literally', () => {
+      const parser = new Parser(`["*"]["{a,b}"][""]`);
+      const segments = parser.parsePath();
+
+      expect(segments).toHaveLength(3);
+      segments.forEach((segment) => {
+        expect(segment).toBeInstanceOf(ObjectIndexSegment);
+      });
+      expect((segments[1] as ObjectIndexSegment).getValue({ '{a,b}': 1 })).toBe(
+        1,
+      );
+      expect((segments[2] as ObjectIndexSegment).name).toBe('');
+    });
+
+    it('should parse a quoted field name after a recursive descent', () => {
+      const parser = new Parser(`users..["e-mail address"]`);
+      const segments = parser.parsePath();
+
+      expect(segments).toHaveLength(2);
+      expect(segments[1]).toBeInstanceOf(RecursiveDescentSegment);
+      expect((segments[1] as RecursiveDescentSegment).name).toBe(
+        'e-mail address',
+      );
+      expect(segments[1].sourceText).toBe('..["e-mail address"]');
+    });
+
+    it('should report malformed quoted field names', () => {
+      expect(() => new Parser(`data["abc`).parsePath()).toThrow(
+        'Parse error at position 5: Unterminated string',
+      );
+      expect(() => new Parser(`data["abc"`).parsePath()).toThrow(
+        "Parse error at position 10: Expected closing bracket ']', got 'end of input'",
+      );
+      expect(() => new Parser(`data['abc'x]`).parsePath()).toThrow(
+        "Parse error at position 10: Expected closing bracket ']', got 'x'",
+      );
+    });
+  });
+
+  describe('Keyed element segments', () => {
+    it('should parse keyed elements with number, string, boolean and null values', () => {
+      const parser = new Parser(
+        `users[id=42].lines[ sku = "A-1" ][active=true][parent=null][code='x']`,
+      );
+      const segments = parser.parsePath();
+
+      expect(segments).toHaveLength(7);
+      expect(segments[1]).toBeInstanceOf(ArrayKeySegment);
+      expect(segments[1].sourceText).toBe('[id=42]');
+      expect((segments[1] as ArrayKeySegment).key).toBe('id');
+      expect((segments[1] as ArrayKeySegment).value).toBe(42);
+      expect(segments[3].sourceText).toBe('[ sku = "A-1" ]');
+      expect((segments[3] as ArrayKeySegment).key).toBe('sku');
+      expect((segments[3] as ArrayKeySegment).value).toBe('A-1');
+      expect((segments[4] as ArrayKeySegment).value).toBe(true);
+      expect((segments[5] as ArrayKeySegment).value).toBeNull();
+      expect((segments[6] as ArrayKeySegment).value).toBe('x');
+    });
+
+    it('should parse keyed elements with a quoted key', () => {
+      const parser = new Parser(`["first name" = 'Ann'].age`);
+      const segments = parser.parsePath();
+
+      expect(segments).toHaveLength(2);
+      expect(segments[0]).toBeInstanceOf(ArrayKeySegment);
+      expect(segments[0].sourceText).toBe(`["first name" = 'Ann']`);
+      expect((segments[0] as ArrayKeySegment).key).toBe('first name');
+      expect((segments[0] as ArrayKeySegment).value).toBe('Ann');
+    });
+
+    it('should parse keyed elements with negative and decimal numbers', () => {
+      const segments = new Parser('a[x=-1.5][y=2e3]').parsePath();
+
+      expect((segments[1] as ArrayKeySegment).value).toBe(-1.5);
+      expect((segments[2] as ArrayKeySegment).value).toBe(2000);
+    });
+
+    it('should still read bracketed names without "=" as indexes', () => {
+      expect(() => new Parser('users[abc]').parsePath()).toThrow(
+        "Parse error at position 6: Expected integer, got 'a'",
+      );
+    });
+
+    it('should report malformed keyed elements', () => {
+      expect(() => new Parser('users[id=]').parsePath()).toThrow(
+        "Parse error at position 9: Expected key value, got ']'",
+      );
+      expect(() => new Parser('users[id=abc]').parsePath()).toThrow(
+        "Parse error at position 9: Expected key value, got 'abc'",
+      );
+      expect(() => new Parser('users[id=1').parsePath()).toThrow(
+        "Parse error at position 10: Expected key closing bracket ']', got 'end of input'",
+      );
+      expect(() => new Parser(`users["id"=1 2]`).parsePath()).toThrow(
+        "Parse error at position 13: Expected key closing bracket ']', got '2'",
+      );
+      expect(() => new Parser(`users..["id"=1]`).parsePath()).toThrow(
+        `Parse error at position 7: Expected field name after recursive descent, got '["id"=1]'`,
+      );
+    });
+  });
+
+  describe('Variable segments', () => {
+    it('should parse variables as field names, indexes and key values', () => {
+      const parser = new Parser(
+        'labels.$locale.tenants[$index].lines[ sku = $sku ]',
+      );
+      const segments = parser.parsePath();
+
+      expect(segments).toHaveLength(6);
+      expect(segments[1]).toBeInstanceOf(ObjectVariableSegment);
+      expect(segments[1].sourceText).toBe('$locale');
+      expect((segments[1] as ObjectVariableSegment).variable).toBe('locale');
+      expect(segments[3]).toBeInstanceOf(ArrayVariableIndexSegment);
+      expect(segments[3].sourceText).toBe('[$index]');
+      expect((segments[3] as ArrayVariableIndexSegment).variable).toBe('index');
+      expect(segments[5]).toBeInstanceOf(ArrayVariableKeySegment);
+      expect(segments[5].sourceText).toBe('[ sku = $sku ]');
+      expect((segments[5] as ArrayVariableKeySegment).key).toBe('sku');
+      expect((segments[5] as ArrayVariableKeySegment).variable).toBe('sku');
+    });
+
+    it('should parse variables at the root and with a quoted key', () => {
+      const segments = new Parser(`$tenant["first name"=$name]`).parsePath();
+
+      expect(segments).toHaveLength(2);
+      expect(segments[0]).toBeInstanceOf(ObjectVariableSegment);
+      expect(segments[1]).toBeInstanceOf(ArrayVariableKeySegment);
+      expect((segments[1] as ArrayVariableKeySegment).key).toBe('first name');
+    });
+
+    it('should read escaped, quoted and partial variables as field names', () => {
+      const segments = new Parser(`\\$a.["$b"].$.$1.a$c.$d-e`).parsePath();
+
+      expect(
+        segments.map((segment) => (segment as ObjectIndexSegment).name),
+      ).toStrictEqual(['$a', '$b', '$', '$1', 'a$c', '$d-e']);
+      segments.forEach((segment) => {
+        expect(segment).toBeInstanceOf(ObjectIndexSegment);
+      });
+    });
+
+    it('should report malformed variables', () => {
+      expect(() => new Parser('users[$]').parsePath()).toThrow(
+        "Parse error at position 6: Expected integer, got '$'",
+      );
+      expect(() => new Parser('users[$i').parsePath()).toThrow(
+        "Parse error at position 8: Expected array index closing bracket ']', got 'end of input'",
+      );
+      expect(() => new Parser('users[id=$]').parsePath()).toThrow(
+        "Parse error at position 9: Expected key value, got '$'",
+      );
+      expect(() => new Parser('users..$email').parsePath()).toThrow(
+        "Parse error at position 7: Expected field name after recursive descent, got '$email'",
+      );
+    });
+  });
+
+  describe('Multi-field segments', () => {
+    it('should parse a field selection with aliases', () => {
+      const parser = new Parser('user.{id, full_name: name}');
+      const segments = parser.parsePath();
+
+      expect(segments).toHaveLength(2);
+      expect(segments[1]).toBeInstanceOf(ObjectIndexSegment);
+      expect(segments[1].sourceText).toBe('{id, full_name: name}');
+      expect(
+        (segments[1] as ObjectIndexSegment).getValue({ id: 1, name: 'John' }),
+      ).toStrictEqual({
+        id: 1,
+        full_name: 'John',
+      });
+    });
+
+    it('should report invalid field selections at the segment position', () => {
+      expect(() => new Parser('user.{id, full_name:}').parsePath()).toThrow(
+        "Parse error at position 5: Invalid field selection 'full_name:', expected 'alias: field'",
+      );
+      expect(() => new Parser('user.{id, id: name}').parsePath()).toThrow(
+        "Parse error at position 5: Duplicate field selection 'id'",
+      );
+    });
+  });
+
+  describe('Wildcard segments', () => {
+    it('should parse a wildcard between field names', () => {
+      const parser = new Parser('metrics.*.count');
+      const segments = parser.parsePath();
+
+      expect(segments).toHaveLength(3);
+      expect(segments[0]).toBeInstanceOf(ObjectIndexSegment);
+      expect((segments[0] as ObjectIndexSegment).name).toBe('metrics');
+      expect(segments[1]).toBeInstanceOf(ObjectWildcardSegment);
+      expect(segments[1].sourceText).toBe('*');
+      expect(segments[2]).toBeInstanceOf(ObjectIndexSegment);
+      expect((segments[2] as ObjectIndexSegment).name).toBe('count');
+    });
+
+    it('should parse a wildcard at the root and before array segments', () => {
+      const parser = new Parser('*[0].*');
+      const segments = parser.parsePath();
+
+      expect(segments).toHaveLength(3);
+      expect(segments[0]).toBeInstanceOf(ObjectWildcardSegment);
+      expect(segments[1]).toBeInstanceOf(ArrayIndexSegmentClass);
+      expect(segments[2]).toBeInstanceOf(ObjectWildcardSegment);
+    });
+
+    it('should parse an escaped asterisk as a field name', () => {
+      const parser = new Parser('metrics.\\*.count');
+      const segments = parser.parsePath();
+
+      expect(segments).toHaveLength(3);
+      expect(segments[1]).toBeInstanceOf(ObjectIndexSegment);
+      expect((segments[1] as ObjectIndexSegment).name).toBe('*');
+    });
+
+    it('should parse field names containing an asterisk', () => {
+      const parser = new Parser('metrics.**.a*b');
+      const segments = parser.parsePath();
+
+      expect(segments).toHaveLength(3);
+      expect(segments[1]).toBeInstanceOf(ObjectIndexSegment);
+      expect((segments[1] as ObjectIndexSegment).name).toBe('**');
+      expect(segments[2]).toBeInstanceOf(ObjectIndexSegment);
+      expect((segments[2] as ObjectIndexSegment).name).toBe('a*b');
+    });
+  });
+
+  describe('Entries segments', () => {
+    it('should parse an entries segment after a field', () => {
+      const parser = new Parser('headers.@entries[[0]].key');
+      const segments = parser.parsePath();
+
+      expect(segments).toHaveLength(4);
+      expect(segments[1]).toBeInstanceOf(ObjectEntriesSegment);
+      expect(segments[1].sourceText).toBe('@entries');
+      expect(segments[2]).toBeInstanceOf(ArrayIteratorSegment);
+    });
+
+    it('should parse an entries segment at the root', () => {
+      const segments = new Parser('@entries').parsePath();
+
+      expect(segments).toHaveLength(1);
+      expect(segments[0]).toBeInstanceOf(ObjectEntriesSegment);
+    });
+
+    it('should parse escaped, quoted and longer names as fields', () => {
+      const segments = new Parser(
+        'a.\\@entries["@entries"].@entriesList',
+      ).parsePath();
+
+      expect(segments).toHaveLength(4);
+      segments.forEach((segment) => {
+        expect(segment).toBeInstanceOf(ObjectIndexSegment);
+      });
+      expect((segments[1] as ObjectIndexSegment).name).toBe('@entries');
+      expect((segments[2] as ObjectIndexSegment).name).toBe('@entries');
+      expect((segments[3] as ObjectIndexSegment).name).toBe('@entriesList');
+    });
+
+    it('should reject an entries segment after a recursive descent', () => {
+      expect(() => new Parser('..@entries').parsePath()).toThrow(
+        "Parse error at position 2: Expected field name after recursive descent, got '@entries'",
+      );
+    });
+  });
+
+  describe('Recursive descent segments', () => {
+    it('should parse a recursive descent at the root', () => {
+      const parser = new Parser('..email');
+      const segments = parser.parsePath();
+
+      expect(segments).toHaveLength(1);
+      expect(segments[0]).toBeInstanceOf(RecursiveDescentSegment);
+      expect((segments[0] as RecursiveDescentSegment).name).toBe('email');
+      expect(segments[0].sourceText).toBe('..email');
+    });
+
+    it('should parse a recursive descent between segments', () => {
+      const parser = new Parser('orders[0]..address.city');
+      const segments = parser.parsePath();
+
+      expect(segments).toHaveLength(4);
+      expect(segments[0]).toBeInstanceOf(ObjectIndexSegment);
+      expect(segments[1]).toBeInstanceOf(ArrayIndexSegmentClass);
+      expect(segments[2]).toBeInstanceOf(RecursiveDescentSegment);
+      expect((segments[2] as RecursiveDescentSegment).name).toBe('address');
+      expect(segments[3]).toBeInstanceOf(ObjectIndexSegment);
+      expect((segments[3] as ObjectIndexSegment).name).toBe('city');
+    });
+
+    it('should parse chained recursive descents', () => {
+      const parser = new Parser('data..users..id');
+      const segments = parser.parsePath();
+
+      expect(segments).toHaveLength(3);
+      expect(segments[1]).toBeInstanceOf(RecursiveDescentSegment);
+      expect((segments[1] as RecursiveDescentSegment).name).toBe('users');
+      expect(segments[2]).toBeInstanceOf(RecursiveDescentSegment);
+      expect((segments[2] as RecursiveDescentSegment).name).toBe('id');
+    });
+
+    it('should parse a recursive descent to an escaped field name', () => {
+      const parser = new Parser('..\\[id\\]');
+      const segments = parser.parsePath();
+
+      expect(segments).toHaveLength(1);
+      expect((segments[0] as RecursiveDescentSegment).name).toBe('[id]');
+      expect(segments[0].sourceText).toBe('..\\[id\\]');
+    });
+  });
+
+  describe('Filter segments', () => {
+    function parseFilter(path: string): ArrayFilterSegment {
+      const segments = new Parser(path).parsePath();
+      const segment = segments.find(
+        (candidate) => candidate instanceof ArrayFilterSegment,
+      );
+
+      if (!segment) {
+        expect.fail(`no filter segment in ${path}`);
+      }
+
+      return segment;
+    }
+
+    function matches(filter: string, items: JSONType[]): JSONType[] {
+      return parseFilter(filter).getValue(items).result;
+    }
+
+    it('should parse a filter between field names', () => {
+      const parser = new Parser("addresses[?(@.type == 'billing')].street");
+      const segments = parser.parsePath();
+
+      expect(segments).toHaveLength(3);
+      expect(segments[0]).toBeInstanceOf(ObjectIndexSegment);
+      expect(segments[1]).toBeInstanceOf(ArrayFilterSegment);
+      expect(segments[1].sourceText).toBe("[?(@.type == 'billing')]");
+      expect(segments[2]).toBeInstanceOf(ObjectIndexSegment);
+      expect((segments[2] as ObjectIndexSegment).name).toBe('street');
+    });
+
+    it('should parse filters followed by other array segments', () => {
+      const parser = new Parser('rows[?(@.ok)][[0,2]][0]');
+      const segments = parser.parsePath();
+
+      expect(segments).toHaveLength(4);
+      expect(segments[1]).toBeInstanceOf(ArrayFilterSegment);
+      expect(segments[2]).toBeInstanceOf(ArrayIteratorSegment);
+      expect(segments[3]).toBeInstanceOf(ArrayIndexSegmentClass);
+    });
+
+    it('should evaluate every comparison operator', () => {
+      const items = [1, 2, 3];
+
+      expect(matches('[?(@ == 2)]', items)).toStrictEqual([2]);
+      expect(matches('[?(@ != 2)]', items)).toStrictEqual([1, 3]);
+      expect(matches('[?(@ < 2)]', items)).toStrictEqual([1]);
+      expect(matches('[?(@ <= 2)]', items)).toStrictEqual([1, 2]);
+      expect(matches('[?(@ > 2)]', items)).toStrictEqual([3]);
+      expect(matches('[?(@ >= 2)]', items)).toStrictEqual([2, 3]);
+      expect(matches('[?(2 < @)]', items)).toStrictEqual([3]);
+    });
+
+    it('should resolve quoted field names in filter operands', () => {
+      const items = [{ 'a b': { 'c.d': 1 } }, { 'a b': { 'c.d': 2 } }];
+
+      expect(matches(`[?(@["a b"]['c.d'] == 2)]`, items)).toStrictEqual([
+        items[1],
+      ]);
+    });
+
+    it('should evaluate logical operators with precedence and parentheses', () => {
+      const items = [
+        { a: 1, b: 1, c: 1 },
+        { a: 1, b: 0, c: 0 },
+        { a: 0, b: 0, c: 1 },
+      ];
+
+      // && binds tighter than ||
+      expect(
+        matches('[?(@.a == 1 && @.b == 1 || @.c == 1)]', items),
+      ).toStrictEqual([items[0], items[2]]);
+      expect(
+        matches('[?(@.a == 1 && (@.b == 1 || @.c == 0))]', items),
+      ).toStrictEqual([items[0], items[1]]);
+      expect(matches('[?(!(@.a == 1) || !@.b)]', items)).toStrictEqual([
+        items[1],
+        items[2],
+      ]);
+      expect(matches('[?(@.a&&@.b)]', items)).toStrictEqual([items[0]]);
+    });
+
+    it('should parse literals', () => {
+      const items = [
+        { v: 'billing' },
+        { v: 'it\'s "quoted"' },
+        { v: 'line\nbreak\ttab\r\b\f\v\0\\' },
+        { v: 'caf\u00e9 😀' },
+        { v: -1.5e2 },
+        { v: true },
+        { v: false },
+        { v: null },
+      ];
+
+      expect(matches(`[?(@.v == 'billing')]`, items)).toStrictEqual([items[0]]);
+      expect(matches(`[?(@.v == "billing")]`, items)).toStrictEqual([items[0]]);
+      expect(matches(`[?(@.v == 'it\\'s "quoted"')]`, items)).toStrictEqual([
+        items[1],
+      ]);
+      expect(matches(`[?(@.v == "it's \\"quoted\\"")]`, items)).toStrictEqual([
+        items[1],
+      ]);
+      expect(
+        matches(`[?(@.v == 'line\\nbreak\\ttab\\r\\b\\f\\v\\0\\\\')]`, items),
+      ).toStrictEqual([items[2]]);
+      expect(
+        matches(`[?(@.v == 'caf\\u00E9 \\u{1F600}')]`, items),
+      ).toStrictEqual([items[3]]);
+      expect(
+        matches(`[?(@.v == 'caf\\u00e9 \\uD83D\\uDE00')]`, items),
+      ).toStrictEqual([items[3]]);
+      expect(matches(`[?(@.v == 'café 😀')]`, items)).toStrictEqual([items[3]]);
+      expect(matches('[?(@.v == -150)]', items)).toStrictEqual([items[4]]);
+      expect(matches('[?(@.v == -1.5e2)]', items)).toStrictEqual([items[4]]);
+      expect(matches('[?(@.v == true)]', items)).toStrictEqual([items[5]]);
+      expect(matches('[?(@.v == false)]', items)).toStrictEqual([items[6]]);
+      expect(matches('[?(@.v == null)]', items)).toStrictEqual([items[7]]);
+    });
+
+    it('should parse nested fields and indexes in filter fields', () => {
+      const items = [{ a: { b: [{ c: 1 }] } }, { a: { b: [{ c: 2 }] } }];
+
+      expect(matches('[?(@.a.b[0].c == 2)]', items)).toStrictEqual([items[1]]);
+    });
+
+    it('should allow whitespace around filter tokens', () => {
+      expect(
+        matches("[?(  @.type   ==   'a'  &&  ( @.n >= 1 )  )]", [
+          { type: 'a', n: 1 },
+          { type: 'a', n: 0 },
+        ]),
+      ).toStrictEqual([{ type: 'a', n: 1 }]);
+    });
   });
 
   describe('Complex paths', () => {
@@ -1026,6 +1549,23 @@ describe('Path Parser', () => {
           error:
             "Parse error at position 9: Expected integer after comma, got 'a'",
         },
+        {
+          name: 'missing stride after second comma in slice',
+          parserInput: 'users[[0,,]]',
+          error:
+            "Parse error at position 10: Expected integer after comma, got ']'",
+        },
+        {
+          name: 'zero stride in slice',
+          parserInput: 'users[[0,4,0]]',
+          error: 'Parse error at position 11: Slice stride can not be 0',
+        },
+        {
+          name: 'too many slice parameters',
+          parserInput: 'users[[0,4,1,2]]',
+          error:
+            "Parse error at position 12: Expected slice closing bracket ']', got ','",
+        },
         {
           name: 'invalid integer after comma in slice (with suffix)',
           parserInput: 'users[[0,abc]].name',
@@ -1075,6 +1615,116 @@ describe('Path Parser', () => {
           error:
             "Parse error at position 7: Expected array index closing bracket ']', got '}'",
         },
+        {
+          name: 'recursive descent without a field name',
+          parserInput: 'users..',
+          error: 'Parse error at position 7: Expected identifier',
+        },
+        {
+          name: 'recursive descent with too many dots',
+          parserInput: 'users...id',
+          error: 'Parse error at position 7: Expected identifier',
+        },
+        {
+          name: 'recursive descent to an array index',
+          parserInput: 'users..[0]',
+          error: 'Parse error at position 7: Expected identifier',
+        },
+        {
+          name: 'recursive descent to a wildcard',
+          parserInput: 'users..*',
+          error:
+            "Parse error at position 7: Expected field name after recursive descent, got '*'",
+        },
+        {
+          name: 'filter without parenthesis',
+          parserInput: 'users[?@.a]',
+          error:
+            "Parse error at position 7: Expected filter opening parenthesis '(', got '@'",
+        },
+        {
+          name: 'filter without closing parenthesis',
+          parserInput: 'users[?(@.a]',
+          error:
+            "Parse error at position 11: Expected filter closing parenthesis ')', got ']'",
+        },
+        {
+          name: 'filter without closing bracket',
+          parserInput: 'users[?(@.a).name',
+          error:
+            "Parse error at position 12: Expected filter closing bracket ']', got '.'",
+        },
+        {
+          name: 'empty filter',
+          parserInput: 'users[?()]',
+          error: "Parse error at position 8: Expected filter operand, got ')'",
+        },
+        {
+          name: 'filter with unknown operand',
+          parserInput: 'users[?(@.a == billing)]',
+          error:
+            "Parse error at position 15: Expected filter operand, got 'billing'",
+        },
+        {
+          name: 'filter with missing operand',
+          parserInput: 'users[?(@.a ==',
+          error:
+            "Parse error at position 14: Expected filter operand, got 'end of input'",
+        },
+        {
+          name: 'filter with unclosed group',
+          parserInput: 'users[?((@.a == 1]',
+          error:
+            "Parse error at position 17: Expected closing parenthesis ')', got ']'",
+        },
+        {
+          name: 'filter with empty field name',
+          parserInput: 'users[?(@. == 1)]',
+          error: 'Parse error at position 10: Expected identifier',
+        },
+        {
+          name: 'filter with negative field index',
+          parserInput: 'users[?(@[-1] == 1)]',
+          error: "Parse error at position 10: Expected integer, got '-'",
+        },
+        {
+          name: 'filter with field index at end of input',
+          parserInput: 'users[?(@[',
+          error:
+            "Parse error at position 10: Expected integer, got 'end of input'",
+        },
+        {
+          name: 'filter with unclosed field index',
+          parserInput: 'users[?(@[1 == 1)]',
+          error:
+            "Parse error at position 11: Expected filter index closing bracket ']', got ' '",
+        },
+        {
+          name: 'filter with unclosed quoted field name',
+          parserInput: `users[?(@["a b" == 1)]`,
+          error:
+            "Parse error at position 15: Expected filter field closing bracket ']', got ' '",
+        },
+        {
+          name: 'filter with unterminated string',
+          parserInput: "users[?(@.a == 'abc)]",
+          error: 'Parse error at position 15: Unterminated string',
+        },
+        {
+          name: 'filter with unterminated escape',
+          parserInput: "users[?(@.a == 'abc\\",
+          error: 'Parse error at position 15: Unterminated string',
+        },
+        {
+          name: 'filter with short unicode escape',
+          parserInput: "users[?(@.a == '\\u12')]",
+          error: 'Parse error at position 18: Invalid unicode escape sequence',
+        },
+        {
+          name: 'filter with unicode escape out of range',
+          parserInput: "users[?(@.a == '\\u{110000}')]",
+          error: 'Parse error at position 18: Invalid unicode escape sequence',
+        },
         {
           name: 'invalid integer values (too large)',
           parserInput: `users[${largeNumber}]`,
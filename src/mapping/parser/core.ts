@@ -2,8 +2,65 @@ import { AbstractPathIndexSegment } from './ast/abstractPathIndexSegment.class.j
 import { ArrayIndexSegmentClass } from './ast/arrayIndexSegment.class.js';
 import { ArrayIteratorSegment } from './ast/arrayIteratorSegment.class.js';
 import { ObjectIndexSegment } from './ast/objectIndexSegment.class.js';
+import { ObjectWildcardSegment } from './ast/objectWildcardSegment.class.js';
+import { ObjectEntriesSegment } from './ast/objectEntriesSegment.class.js';
+import { RecursiveDescentSegment } from './ast/recursiveDescentSegment.class.js';
 import { AbstractPathIteratorSegment } from './ast/abstractPathIteratorSegment.class.js';
+import { ArrayFilterSegment } from './ast/arrayFilterSegment.class.js';
+import { ArrayKeySegment } from './ast/arrayKeySegment.class.js';
+import { ObjectVariableSegment } from './ast/objectVariableSegment.class.js';
+import { ArrayVariableIndexSegment } from './ast/arrayVariableIndexSegment.class.js';
+import { ArrayVariableKeySegment } from './ast/arrayVariableKeySegment.class.js';
+import {
+  AbstractFilterExpression,
+  AbstractFilterOperand,
+  FilterComparisonExpression,
+  FilterComparisonOperator,
+  FilterFieldOperand,
+  FilterFieldPath,
+  FilterLiteralOperand,
+  FilterLogicalExpression,
+  FilterNotExpression,
+  FilterTruthyExpression,
+} from './ast/filterExpression.class.js';
 import { PathSegment } from './ast/types.js';
+import { JSONType } from '../../types.js';
+
+const ENTRIES_KEYWORD = '@entries';
+
+// "[name=", the start of a keyed element, the name is captured
+const KEY_SELECTOR_PATTERN = /^\[\s*([A-Za-z_][\w-]*)\s*=/;
+
+// "$name", a variable bound when the path is used, the name is captured
+const VARIABLE_PATTERN = /^\$([A-Za-z_]\w*)/;
+
+// longest operators first, so "<=" is not read as "<"
+const FILTER_COMPARISON_OPERATORS: FilterComparisonOperator[] = [
+  '==',
+  '!=',
+  '<=',
+  '>=',
+  '<',
+  '>',
+];
+
+const LITERAL_NUMBER_PATTERN = /^-?\d+(\.\d+)?([eE][+-]?\d+)?$/;
+
+const LITERAL_KEYWORDS: Record<string, boolean | null> = {
+  true: true,
+  false: false,
+  null: null,
+};
+
+const ESCAPE_SEQUENCES: Record<string, string> = {
+  n: '\n',
+  t: '\t',
+  r: '\r',
+  b: '\b',
+  f: '\f',
+  v: '\v',
+  '0': '\0',
+};
 
 export class ParseError extends Error {
   constructor(
@@ -47,6 +104,11 @@ export class Parser {
     while (this.position < this.input.length) {
       segments.push(this.parseSegment());
 
+      // A double dot is the start of a recursive descent segment, not a separator
+      if (this.isRecursiveDescent()) {
+        continue;
+      }
+
       // If we have a dot, consume it and continue parsing
       if (this.peek() === '.') {
         this.consume();
@@ -79,9 +141,27 @@ export class Parser {
     return this.input[this.position + 1] !== ']';
   }
 
+  private isQuotedField(): boolean {
+    const next = this.input[this.position + 1];
+    return this.peek() === '[' && (next === '"' || next === "'");
+  }
+
+  private isKeySelector(): boolean {
+    return KEY_SELECTOR_PATTERN.test(this.input.slice(this.position));
+  }
+
+  private isRecursiveDescent(): boolean {
+    return this.peek() === '.' && this.input[this.position + 1] === '.';
+  }
+
   private parseSegment(): PathSegment {
     const char = this.peek();
 
+    // Recursive descent (..field)
+    if (this.isRecursiveDescent()) {
+      return this.parseRecursiveDescentSegment();
+    }
+
     // Array slice ([[start,end?]])
     if (
       char === '[' &&
@@ -91,6 +171,21 @@ export class Parser {
       return this.parseArrayIteratorSegment();
     }
 
+    // Array filter ([?(expression)])
+    if (char === '[' && this.input[this.position + 1] === '?') {
+      return this.parseArrayFilterSegment();
+    }
+
+    // Keyed element ([id=42]), a quoted key (["first name"='x']) is handled with quoted fields
+    if (this.isKeySelector()) {
+      return this.parseArrayKeySegment();
+    }
+
+    // Quoted field name (["field.with.dots"] or ['a b'])
+    if (this.isQuotedField()) {
+      return this.parseQuotedFieldSegment();
+    }
+
     // Array index ([index])
     if (char === '[' && this.isIndexOrSlice()) {
       return this.parseArrayIndexSegment();
@@ -101,6 +196,7 @@ export class Parser {
   }
 
   private parseObjectIndexSegment(): AbstractPathIndexSegment {
+    const start = this.position;
     let text = '';
     let name = '';
     let escaping = false;
@@ -159,13 +255,120 @@ export class Parser {
       throw new ParseError('Expected identifier', this.position);
     }
 
-    return new ObjectIndexSegment(text, name);
+    // only an unescaped asterisk is a wildcard, "\\*" is a field named "*"
+    if (text === '*') {
+      return new ObjectWildcardSegment(text);
+    }
+
+    // likewise, only an unescaped "@entries" converts between an object and its entries
+    if (text === ENTRIES_KEYWORD) {
+      return new ObjectEntriesSegment(text);
+    }
+
+    // and only an unescaped "$name" is a variable
+    const variable = text.match(VARIABLE_PATTERN);
+    if (variable && variable[0] === text) {
+      return new ObjectVariableSegment(text, variable[1]);
+    }
+
+    try {
+      return new ObjectIndexSegment(text, name);
+    } catch (error) {
+      // invalid field selections are reported as parse errors of the path
+      throw new ParseError((error as Error).message, start);
+    }
+  }
+
+  private parseQuotedFieldSegment(): PathSegment {
+    const start = this.position;
+
+    this.consume();
+    const name = this.parseQuotedString();
+
+    // a quoted name followed by "=" is the key of a keyed element, not a field
+    if (this.acceptToken('=')) {
+      return this.parseArrayKeyValue(start, name);
+    }
+
+    this.expect(']', 'closing bracket');
+
+    return new ObjectIndexSegment(
+      this.input.slice(start, this.position),
+      name,
+      true,
+    );
+  }
+
+  private parseRecursiveDescentSegment(): AbstractPathIndexSegment {
+    let text = '';
+
+    text += this.consume();
+    text += this.consume();
+
+    const position = this.position;
+    const field = this.isQuotedField()
+      ? this.parseQuotedFieldSegment()
+      : this.parseObjectIndexSegment();
+
+    if (!(field instanceof ObjectIndexSegment)) {
+      throw new ParseError(
+        `Expected field name after recursive descent, got '${field.sourceText}'`,
+        position,
+      );
+    }
+
+    text += field.sourceText;
+
+    return new RecursiveDescentSegment(text, field.name);
+  }
+
+  private parseArrayKeySegment(): AbstractPathIteratorSegment {
+    const start = this.position;
+
+    // isKeySelector() has already checked this matches
+    const match = this.input
+      .slice(start)
+      .match(KEY_SELECTOR_PATTERN) as RegExpMatchArray;
+    this.position += match[0].length;
+
+    return this.parseArrayKeyValue(start, match[1]);
+  }
+
+  private parseArrayKeyValue(
+    start: number,
+    key: string,
+  ): AbstractPathIteratorSegment {
+    this.skipWhitespace();
+    const variable = this.acceptVariable();
+    const value =
+      variable === undefined ? this.parseLiteral('key value') : null;
+
+    this.skipWhitespace();
+    this.expect(']', 'key closing bracket');
+
+    const text = this.input.slice(start, this.position);
+
+    if (variable !== undefined) {
+      return new ArrayVariableKeySegment(text, key, variable);
+    }
+
+    return new ArrayKeySegment(text, key, value);
   }
 
   private parseArrayIndexSegment(): AbstractPathIteratorSegment {
     let text = '';
     text += this.consume();
 
+    const start = this.position;
+    const variable = this.acceptVariable();
+
+    if (variable !== undefined) {
+      text += this.input.slice(start, this.position);
+      text += this.expect(']', 'array index closing bracket');
+
+      return new ArrayVariableIndexSegment(text, variable);
+    }
+
     // Check if the next character is a valid start for an integer
     if (!/[-\d]/.test(this.peek())) {
       throw new ParseError(
@@ -200,26 +403,333 @@ export class Parser {
     const start = this.parseInteger();
     text += start;
     let end: number | undefined;
+    let stride: number | undefined;
 
     if (this.peek() === ',') {
       text += this.consume();
 
-      // Check if the next character after comma is a valid start for an integer
-      if (!/[-\d]/.test(this.peek())) {
+      // the size can be left out when only a stride is needed, e.g. [[0,,2]]
+      if (this.peek() !== ',') {
+        end = this.parseIntegerAfterComma();
+        text += end;
+      }
+
+      if (this.peek() === ',') {
+        text += this.consume();
+
+        const position = this.position;
+        stride = this.parseIntegerAfterComma();
+
+        if (stride === 0) {
+          throw new ParseError('Slice stride can not be 0', position);
+        }
+
+        text += stride;
+      }
+    }
+
+    text += this.expect(']', 'slice closing bracket');
+    text += this.expect(']', 'array slice closing bracket');
+
+    return new ArrayIteratorSegment(text, start, end, stride);
+  }
+
+  private parseIntegerAfterComma(): number {
+    // Check if the next character after comma is a valid start for an integer
+    if (!/[-\d]/.test(this.peek())) {
+      throw new ParseError(
+        `Expected integer after comma, got '${this.peek()}'`,
+        this.position,
+      );
+    }
+
+    return this.parseInteger();
+  }
+
+  private parseArrayFilterSegment(): AbstractPathIteratorSegment {
+    const start = this.position;
+
+    this.consume();
+    this.consume();
+
+    this.expect('(', 'filter opening parenthesis');
+    const expression = this.parseFilterOr();
+    this.skipWhitespace();
+    this.expect(')', 'filter closing parenthesis');
+    this.expect(']', 'filter closing bracket');
+
+    return new ArrayFilterSegment(
+      this.input.slice(start, this.position),
+      expression,
+    );
+  }
+
+  private parseFilterOr(): AbstractFilterExpression {
+    let expression = this.parseFilterAnd();
+
+    while (this.acceptToken('||')) {
+      expression = new FilterLogicalExpression(
+        expression,
+        '||',
+        this.parseFilterAnd(),
+      );
+    }
+
+    return expression;
+  }
+
+  private parseFilterAnd(): AbstractFilterExpression {
+    let expression = this.parseFilterUnary();
+
+    while (this.acceptToken('&&')) {
+      expression = new FilterLogicalExpression(
+        expression,
+        '&&',
+        this.parseFilterUnary(),
+      );
+    }
+
+    return expression;
+  }
+
+  private parseFilterUnary(): AbstractFilterExpression {
+    this.skipWhitespace();
+
+    if (this.peek() === '!' && this.input[this.position + 1] !== '=') {
+      this.consume();
+      return new FilterNotExpression(this.parseFilterUnary());
+    }
+
+    if (this.peek() === '(') {
+      this.consume();
+      const expression = this.parseFilterOr();
+      this.skipWhitespace();
+      this.expect(')', 'closing parenthesis');
+      return expression;
+    }
+
+    return this.parseFilterComparison();
+  }
+
+  private parseFilterComparison(): AbstractFilterExpression {
+    const left = this.parseFilterOperand();
+
+    const operator = this.parseFilterComparisonOperator();
+
+    if (!operator) {
+      return new FilterTruthyExpression(left);
+    }
+
+    return new FilterComparisonExpression(
+      left,
+      operator,
+      this.parseFilterOperand(),
+    );
+  }
+
+  private parseFilterComparisonOperator():
+    | FilterComparisonOperator
+    | undefined {
+    for (const operator of FILTER_COMPARISON_OPERATORS) {
+      if (this.acceptToken(operator)) {
+        return operator;
+      }
+    }
+
+    return undefined;
+  }
+
+  private parseFilterOperand(): AbstractFilterOperand {
+    this.skipWhitespace();
+
+    const char = this.peek();
+
+    if (char === '@') {
+      return this.parseFilterFieldOperand();
+    }
+
+    return new FilterLiteralOperand(this.parseLiteral('filter operand'));
+  }
+
+  private parseFilterFieldOperand(): AbstractFilterOperand {
+    const path: FilterFieldPath = [];
+
+    this.consume();
+
+    while (this.peek() === '.' || this.peek() === '[') {
+      if (this.consume() === '.') {
+        path.push(this.parseFilterFieldName());
+        continue;
+      }
+
+      if (this.peek() === "'" || this.peek() === '"') {
+        path.push(this.parseQuotedString());
+        this.expect(']', 'filter field closing bracket');
+        continue;
+      }
+
+      // filter fields only support zero or positive indexes
+      if (!/\d/.test(this.peek())) {
         throw new ParseError(
-          `Expected integer after comma, got '${this.peek()}'`,
+          `Expected integer, got '${this.peek() || 'end of input'}'`,
           this.position,
         );
       }
 
-      end = this.parseInteger();
-      text += end;
+      path.push(this.parseInteger());
+      this.expect(']', 'filter index closing bracket');
     }
 
-    text += this.expect(']', 'slice closing bracket');
-    text += this.expect(']', 'array slice closing bracket');
+    return new FilterFieldOperand(path);
+  }
+
+  private parseFilterFieldName(): string {
+    let name = '';
+
+    while (this.peek() !== '' && !/[\s.[\]()=!<>&|'"]/.test(this.peek())) {
+      name += this.consume();
+    }
+
+    if (!name) {
+      throw new ParseError('Expected identifier', this.position);
+    }
+
+    return name;
+  }
+
+  /**
+   * Parses a quoted string, number, true, false or null.
+   */
+  private parseLiteral(description: string): JSONType {
+    this.skipWhitespace();
+
+    const start = this.position;
+    let token = '';
+
+    if (this.peek() === "'" || this.peek() === '"') {
+      return this.parseQuotedString();
+    }
+
+    while (/[\w.+-]/.test(this.peek())) {
+      token += this.consume();
+    }
+
+    if (Object.hasOwn(LITERAL_KEYWORDS, token)) {
+      return LITERAL_KEYWORDS[token];
+    }
+
+    if (LITERAL_NUMBER_PATTERN.test(token)) {
+      return Number(token);
+    }
 
-    return new ArrayIteratorSegment(text, start, end);
+    throw new ParseError(
+      `Expected ${description}, got '${token || this.peek() || 'end of input'}'`,
+      start,
+    );
+  }
+
+  /**
+   * Parses a single or double-quoted string with JavaScript style escapes.
+   */
+  private parseQuotedString(): string {
+    const start = this.position;
+    const quote = this.consume();
+    let value = '';
+
+    while (this.peek() !== quote) {
+      if (this.peek() === '') {
+        throw new ParseError('Unterminated string', start);
+      }
+
+      if (this.peek() === '\\') {
+        this.consume();
+        value += this.parseEscapeSequence(start);
+        continue;
+      }
+
+      value += this.consume();
+    }
+
+    this.consume();
+
+    return value;
+  }
+
+  private parseEscapeSequence(stringStart: number): string {
+    const char = this.peek();
+
+    if (char === '') {
+      throw new ParseError('Unterminated string', stringStart);
+    }
+
+    this.consume();
+
+    if (char === 'u') {
+      return this.parseUnicodeEscape();
+    }
+
+    if (char in ESCAPE_SEQUENCES) {
+      return ESCAPE_SEQUENCES[char];
+    }
+
+    // any other escaped character, including quotes and backslashes, is itself
+    return char;
+  }
+
+  private parseUnicodeEscape(): string {
+    const start = this.position;
+    const braced = this.peek() === '{';
+    const pattern = braced ? /^{([0-9a-fA-F]{1,6})}/ : /^[0-9a-fA-F]{4}/;
+    const match = this.input.slice(this.position).match(pattern);
+
+    if (!match) {
+      throw new ParseError('Invalid unicode escape sequence', start);
+    }
+
+    this.position += match[0].length;
+
+    if (!braced) {
+      return String.fromCharCode(parseInt(match[0], 16));
+    }
+
+    const codePoint = parseInt(match[1], 16);
+
+    if (codePoint > 0x10ffff) {
+      throw new ParseError('Invalid unicode escape sequence', start);
+    }
+
+    return String.fromCodePoint(codePoint);
+  }
+
+  /**
+   * Consumes a "$name" variable if there is one, and returns its name.
+   */
+  private acceptVariable(): string | undefined {
+    const match = this.input.slice(this.position).match(VARIABLE_PATTERN);
+
+    if (!match) {
+      return undefined;
+    }
+
+    this.position += match[0].length;
+    return match[1];
+  }
+
+  private acceptToken(token: string): boolean {
+    this.skipWhitespace();
+
+    if (!this.input.startsWith(token, this.position)) {
+      return false;
+    }
+
+    this.position += token.length;
+    return true;
+  }
+
+  private skipWhitespace(): void {
+    while (/\s/.test(this.peek())) {
+      this.consume();
+    }
   }
 
   private parseInteger(): number {
@@ -0,0 +1,176 @@
+import { describe, expect, it } from 'vitest';
+import { Parser } from './core.js';
+import {
+  FilterExpressionNode,
+  PathSegmentNode,
+  stringifyNodes,
+  toNodes,
+} from './nodes.js';
+import { ObjectIndexSegment } from './ast/objectIndexSegment.class.js';
+import { PathSegment } from './ast/types.js';
+
+function nodes(path: string): PathSegmentNode[] {
+  return toNodes(new Parser(path).parsePath());
+}
+
+function filter(expression: FilterExpressionNode): PathSegmentNode[] {
+  return [{ type: 'filter', expression }];
+}
+
+describe('Path nodes', () => {
+  describe('toNodes()', () => {
+    it('should convert a single field selection to a fields node', () => {
+      expect(nodes('{id}')).toStrictEqual([
+        { type: 'fields', fields: [{ name: 'id', alias: 'id' }] },
+      ]);
+    });
+
+    it('should keep a quoted name that looks like a selection as a field', () => {
+      expect(nodes('["{id}"]')).toStrictEqual([
+        { type: 'field', name: '{id}' },
+      ]);
+    });
+
+    it('should convert every kind of filter operand', () => {
+      expect(
+        nodes(`[?(@ == null && 1 < @.a[0]["b c"] || false != "x")]`),
+      ).toStrictEqual(
+        filter({
+          type: 'logical',
+          left: {
+            type: 'logical',
+            left: {
+              type: 'comparison',
+              left: { type: 'field', path: [] },
+              operator: '==',
+              right: { type: 'literal', value: null },
+            },
+            operator: '&&',
+            right: {
+              type: 'comparison',
+              left: { type: 'literal', value: 1 },
+              operator: '<',
+              right: { type: 'field', path: ['a', 0, 'b c'] },
+            },
+          },
+          operator: '||',
+          right: {
+            type: 'comparison',
+            left: { type: 'literal', value: false },
+            operator: '!=',
+            right: { type: 'literal', value: 'x' },
+          },
+        }),
+      );
+    });
+
+    it('should reject segments it does not know', () => {
+      const unknown = new ObjectIndexSegment('x', 'x');
+      Object.setPrototypeOf(unknown, Object.prototype);
+
+      expect(() => toNodes([unknown as unknown as PathSegment])).toThrow(
+        "Unsupported path segment 'x'",
+      );
+    });
+  });
+
+  describe('stringifyNodes()', () => {
+    it('should round trip through the parser', () => {
+      [
+        'a.b[0][-1][[2]][[2,-3]][[0,,-2]]',
+        '[0].a',
+        '*',
+        '@entries.a.@entries[[0]].key["@entries"]',
+        '..a.b..["c.d"]',
+        '["0"]["$x"]["*"][""]["a\\nb"]',
+        '{a, b: c}.{d}',
+        'users[id=42].lines[sku="A-1"][a=true][b=null][c=-1.5]["first name"="Ann"]',
+        '$a.b.$c[$d][e=$f]["g h"=$i]',
+        '[?(@)]',
+        '[?(@["a b"][1].c != -1.5e-7)]',
+        '[?(!@.a)]',
+        '[?(!!@.a)]',
+        '[?(!(@.a == 1))]',
+        '[?(!(@.a && @.b))]',
+        '[?(@.a || @.b || @.c)]',
+        '[?(@.a || (@.b || @.c))]',
+        '[?(@.a && @.b || @.c && @.d)]',
+        '[?((@.a || @.b) && (@.c || @.d))]',
+        '[?(@.a && (@.b && @.c))]',
+        '[?(@.a == true && @.b == "it\\"s")]',
+      ].forEach((path) => {
+        expect(stringifyNodes(nodes(path))).toBe(path);
+      });
+    });
+
+    it('should reject integers that are not integers', () => {
+      expect(() => stringifyNodes([{ type: 'slice', start: 0.5 }])).toThrow(
+        'Expected slice start to be an integer, got 0.5',
+      );
+      expect(() =>
+        stringifyNodes([{ type: 'slice', start: 0, size: 1.5 }]),
+      ).toThrow('Expected slice size to be an integer, got 1.5');
+      expect(() =>
+        stringifyNodes([{ type: 'slice', start: 0, stride: 1.5 }]),
+      ).toThrow('Expected slice stride to be an integer, got 1.5');
+      expect(() =>
+        stringifyNodes([{ type: 'slice', start: 0, stride: 0 }]),
+      ).toThrow('Slice stride can not be 0');
+    });
+
+    it('should reject field selections it can not write', () => {
+      expect(() => stringifyNodes([{ type: 'fields', fields: [] }])).toThrow(
+        'Expected at least one field in a field selection',
+      );
+      expect(() =>
+        stringifyNodes([
+          { type: 'fields', fields: [{ name: 'a.b', alias: 'a' }] },
+        ]),
+      ).toThrow(
+        "Field selection name 'a.b' can only contain letters, digits, '_' and '-'",
+      );
+    });
+
+    it('should reject filter operands it can not write', () => {
+      expect(() =>
+        stringifyNodes(
+          filter({ type: 'truthy', operand: { type: 'field', path: [-1] } }),
+        ),
+      ).toThrow('Expected filter field index to be a positive integer, got -1');
+      expect(() =>
+        stringifyNodes(
+          filter({
+            type: 'truthy',
+            operand: { type: 'literal', value: Infinity },
+          }),
+        ),
+      ).toThrow('Filter literals must be finite numbers, got Infinity');
+    });
+
+    it('should reject key values it can not write', () => {
+      expect(() =>
+        stringifyNodes([{ type: 'key', key: 'id', value: NaN }]),
+      ).toThrow('Key values must be finite numbers, got NaN');
+    });
+
+    it('should reject variable names it can not write', () => {
+      expect(() =>
+        stringifyNodes([{ type: 'fieldVariable', variable: 'a-b' }]),
+      ).toThrow("Variable name 'a-b' can only contain letters, digits and '_'");
+      expect(() =>
+        stringifyNodes([{ type: 'indexVariable', variable: '1' }]),
+      ).toThrow("Variable name '1' can only contain letters, digits and '_'");
+    });
+
+    it('should reject node types it does not know', () => {
+      expect(() =>
+        stringifyNodes([{ type: 'unknown' } as unknown as PathSegmentNode]),
+      ).toThrow("Unsupported path node type 'unknown'");
+      expect(() =>
+        stringifyNodes(
+          filter({ type: 'unknown' } as unknown as FilterExpressionNode),
+        ),
+      ).toThrow("Unsupported filter expression type 'unknown'");
+    });
+  });
+});
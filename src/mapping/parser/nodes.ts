@@ -0,0 +1,525 @@
+import { PathSegment } from './ast/types.js';
+import { ObjectIndexSegment } from './ast/objectIndexSegment.class.js';
+import { ObjectWildcardSegment } from './ast/objectWildcardSegment.class.js';
+import { ObjectEntriesSegment } from './ast/objectEntriesSegment.class.js';
+import { RecursiveDescentSegment } from './ast/recursiveDescentSegment.class.js';
+import { ArrayIndexSegmentClass } from './ast/arrayIndexSegment.class.js';
+import { ArrayIteratorSegment } from './ast/arrayIteratorSegment.class.js';
+import { ArrayFilterSegment } from './ast/arrayFilterSegment.class.js';
+import { ArrayKeySegment } from './ast/arrayKeySegment.class.js';
+import { ObjectVariableSegment } from './ast/objectVariableSegment.class.js';
+import { ArrayVariableIndexSegment } from './ast/arrayVariableIndexSegment.class.js';
+import { ArrayVariableKeySegment } from './ast/arrayVariableKeySegment.class.js';
+import {
+  AbstractFilterExpression,
+  AbstractFilterOperand,
+  FilterComparisonExpression,
+  FilterComparisonOperator,
+  FilterFieldOperand,
+  FilterLiteralOperand,
+  FilterLogicalExpression,
+  FilterLogicalOperator,
+  FilterNotExpression,
+  FilterTruthyExpression,
+} from './ast/filterExpression.class.js';
+
+/**
+ * These are the plain data counterparts of the segment classes. Unlike the
+ * classes, they carry no behaviour, so they can be serialized, compared and
+ * built by hand, and they do not change when the classes are refactored.
+ */
+
+// A single object field, e.g. "user" or '["field.with.dots"]'
+export interface FieldNode {
+  type: 'field';
+  name: string;
+}
+
+// A field picked by a multi-field selection, alias is its key in the selected value
+export interface FieldSelectionNode {
+  name: string;
+  alias: string;
+}
+
+// Several object fields at once, e.g. "{id, full_name: name}"
+export interface FieldsNode {
+  type: 'fields';
+  fields: FieldSelectionNode[];
+}
+
+// Every value of an object, e.g. "*"
+export interface WildcardNode {
+  type: 'wildcard';
+}
+
+// An object as a list of {key, value} pairs, e.g. "@entries"
+export interface EntriesNode {
+  type: 'entries';
+}
+
+// Every field with a name, at any depth, e.g. "..email"
+export interface RecursiveDescentNode {
+  type: 'recursiveDescent';
+  name: string;
+}
+
+// A single array element, e.g. "[0]" or "[-1]"
+export interface IndexNode {
+  type: 'index';
+  index: number;
+}
+
+// A range of array elements, e.g. "[[0]]", "[[1,3]]" or "[[0,10,2]]"
+export interface SliceNode {
+  type: 'slice';
+  start: number;
+  size?: number;
+  stride?: number;
+}
+
+// The first array element with a field equal to value, e.g. "[id=42]" or '["first name"="Ann"]'
+export interface KeyNode {
+  type: 'key';
+  key: string;
+  value: string | number | boolean | null;
+}
+
+// A field named by a variable, e.g. "$locale"
+export interface FieldVariableNode {
+  type: 'fieldVariable';
+  variable: string;
+}
+
+// An array element at an index given by a variable, e.g. "[$index]"
+export interface IndexVariableNode {
+  type: 'indexVariable';
+  variable: string;
+}
+
+// A keyed array element with the value given by a variable, e.g. "[sku=$sku]"
+export interface KeyVariableNode {
+  type: 'keyVariable';
+  key: string;
+  variable: string;
+}
+
+// The array elements matching a predicate, e.g. "[?(@.type == 'billing')]"
+export interface FilterNode {
+  type: 'filter';
+  expression: FilterExpressionNode;
+}
+
+export type PathSegmentNode =
+  | FieldNode
+  | FieldsNode
+  | WildcardNode
+  | EntriesNode
+  | RecursiveDescentNode
+  | IndexNode
+  | SliceNode
+  | KeyNode
+  | FieldVariableNode
+  | IndexVariableNode
+  | KeyVariableNode
+  | FilterNode;
+
+// A field of the element being tested, e.g. "@.region.country" or "@.tags[0]"
+export interface FilterFieldOperandNode {
+  type: 'field';
+  path: (string | number)[];
+}
+
+export interface FilterLiteralOperandNode {
+  type: 'literal';
+  value: string | number | boolean | null;
+}
+
+export type FilterOperandNode =
+  | FilterFieldOperandNode
+  | FilterLiteralOperandNode;
+
+export interface FilterComparisonNode {
+  type: 'comparison';
+  left: FilterOperandNode;
+  operator: FilterComparisonOperator;
+  right: FilterOperandNode;
+}
+
+// An operand on its own, which matches when it is truthy, e.g. "@.active"
+export interface FilterTruthyNode {
+  type: 'truthy';
+  operand: FilterOperandNode;
+}
+
+export interface FilterNotNode {
+  type: 'not';
+  expression: FilterExpressionNode;
+}
+
+export interface FilterLogicalNode {
+  type: 'logical';
+  left: FilterExpressionNode;
+  operator: FilterLogicalOperator;
+  right: FilterExpressionNode;
+}
+
+export type FilterExpressionNode =
+  | FilterComparisonNode
+  | FilterTruthyNode
+  | FilterNotNode
+  | FilterLogicalNode;
+
+// names matching this can be written without quotes, everything else is quoted
+const PLAIN_NAME_PATTERN = /^[A-Za-z_][\w-]*$/;
+
+// variable names can not be quoted, so they must always match this
+const VARIABLE_NAME_PATTERN = /^[A-Za-z_]\w*$/;
+
+function _operandNode(operand: AbstractFilterOperand): FilterOperandNode {
+  if (operand instanceof FilterFieldOperand) {
+    return { type: 'field', path: [...operand.path] };
+  }
+
+  return {
+    type: 'literal',
+    value: (operand as FilterLiteralOperand)
+      .value as FilterLiteralOperandNode['value'],
+  };
+}
+
+function _expressionNode(
+  expression: AbstractFilterExpression,
+): FilterExpressionNode {
+  if (expression instanceof FilterComparisonExpression) {
+    return {
+      type: 'comparison',
+      left: _operandNode(expression.left),
+      operator: expression.operator,
+      right: _operandNode(expression.right),
+    };
+  }
+
+  if (expression instanceof FilterTruthyExpression) {
+    return { type: 'truthy', operand: _operandNode(expression.operand) };
+  }
+
+  if (expression instanceof FilterNotExpression) {
+    return { type: 'not', expression: _expressionNode(expression.expression) };
+  }
+
+  const logical = expression as FilterLogicalExpression;
+
+  return {
+    type: 'logical',
+    left: _expressionNode(logical.left),
+    operator: logical.operator,
+    right: _expressionNode(logical.right),
+  };
+}
+
+function _sliceNode(segment: ArrayIteratorSegment): SliceNode {
+  const node: SliceNode = { type: 'slice', start: segment.start };
+
+  // optional parameters are left out instead of set to undefined, so nodes survive a JSON round trip unchanged
+  if (segment.size !== undefined) {
+    node.size = segment.size;
+  }
+  if (segment.stride !== undefined) {
+    node.stride = segment.stride;
+  }
+
+  return node;
+}
+
+function _segmentNode(segment: PathSegment): PathSegmentNode {
+  if (segment instanceof ObjectIndexSegment) {
+    if (!segment.multiMatch) {
+      return { type: 'field', name: segment.name };
+    }
+
+    return {
+      type: 'fields',
+      fields: segment.selections.map(({ field, alias }) => ({
+        name: field,
+        alias,
+      })),
+    };
+  }
+
+  if (segment instanceof ObjectWildcardSegment) {
+    return { type: 'wildcard' };
+  }
+
+  if (segment instanceof ObjectEntriesSegment) {
+    return { type: 'entries' };
+  }
+
+  if (segment instanceof RecursiveDescentSegment) {
+    return { type: 'recursiveDescent', name: segment.name };
+  }
+
+  if (segment instanceof ArrayIndexSegmentClass) {
+    return { type: 'index', index: segment.index };
+  }
+
+  if (segment instanceof ArrayIteratorSegment) {
+    return _sliceNode(segment);
+  }
+
+  if (segment instanceof ArrayKeySegment) {
+    return {
+      type: 'key',
+      key: segment.key,
+      value: segment.value as KeyNode['value'],
+    };
+  }
+
+  if (segment instanceof ObjectVariableSegment) {
+    return { type: 'fieldVariable', variable: segment.variable };
+  }
+
+  if (segment instanceof ArrayVariableIndexSegment) {
+    return { type: 'indexVariable', variable: segment.variable };
+  }
+
+  if (segment instanceof ArrayVariableKeySegment) {
+    return {
+      type: 'keyVariable',
+      key: segment.key,
+      variable: segment.variable,
+    };
+  }
+
+  if (segment instanceof ArrayFilterSegment) {
+    return {
+      type: 'filter',
+      expression: _expressionNode(segment.expression),
+    };
+  }
+
+  throw new Error(`Unsupported path segment '${segment.sourceText}'`);
+}
+
+/**
+ * Converts parsed path segments into their plain data form.
+ *
+ * @param {PathSegment[]} path - The parsed path.
+ * @return {PathSegmentNode[]} One node per segment, in path order.
+ */
+export function toNodes(path: PathSegment[]): PathSegmentNode[] {
+  return path.map((segment) => _segmentNode(segment));
+}
+
+function _integer(value: number, description: string): string {
+  if (!Number.isInteger(value)) {
+    throw new Error(`Expected ${description} to be an integer, got ${value}`);
+  }
+
+  return String(value);
+}
+
+function _quotedName(name: string): string {
+  return `[${JSON.stringify(name)}]`;
+}
+
+function _fieldText(name: string, first: boolean): string {
+  if (!PLAIN_NAME_PATTERN.test(name)) {
+    return _quotedName(name);
+  }
+
+  return first ? name : `.${name}`;
+}
+
+function _fieldsText(node: FieldsNode, first: boolean): string {
+  if (node.fields.length < 1) {
+    throw new Error('Expected at least one field in a field selection');
+  }
+
+  const fields = node.fields.map(({ name, alias }) => {
+    // field selections have no quoting, so only plain names can be written
+    [name, alias].forEach((selected) => {
+      if (!PLAIN_NAME_PATTERN.test(selected)) {
+        throw new Error(
+          `Field selection name '${selected}' can only contain letters, digits, '_' and '-'`,
+        );
+      }
+    });
+
+    return name === alias ? name : `${alias}: ${name}`;
+  });
+
+  const text = `{${fields.join(', ')}}`;
+
+  return first ? text : `.${text}`;
+}
+
+function _sliceText(node: SliceNode): string {
+  const parameters = [_integer(node.start, 'slice start')];
+
+  if (node.size !== undefined || node.stride !== undefined) {
+    parameters.push(
+      node.size === undefined ? '' : _integer(node.size, 'slice size'),
+    );
+  }
+
+  if (node.stride !== undefined) {
+    if (node.stride === 0) {
+      throw new Error('Slice stride can not be 0');
+    }
+    parameters.push(_integer(node.stride, 'slice stride'));
+  }
+
+  return `[[${parameters.join(',')}]]`;
+}
+
+function _literalText(
+  value: string | number | boolean | null,
+  description: string,
+): string {
+  if (typeof value === 'string') {
+    return JSON.stringify(value);
+  }
+
+  if (typeof value === 'number' && !Number.isFinite(value)) {
+    throw new Error(`${description} must be finite numbers, got ${value}`);
+  }
+
+  return String(value);
+}
+
+function _variableText(variable: string): string {
+  if (!VARIABLE_NAME_PATTERN.test(variable)) {
+    throw new Error(
+      `Variable name '${variable}' can only contain letters, digits and '_'`,
+    );
+  }
+
+  return `$${variable}`;
+}
+
+function _keyText(node: KeyNode | KeyVariableNode): string {
+  const key = PLAIN_NAME_PATTERN.test(node.key)
+    ? node.key
+    : JSON.stringify(node.key);
+
+  const value =
+    node.type === 'key'
+      ? _literalText(node.value, 'Key values')
+      : _variableText(node.variable);
+
+  return `[${key}=${value}]`;
+}
+
+function _operandText(node: FilterOperandNode): string {
+  if (node.type === 'field') {
+    return node.path.reduce<string>((text, key) => {
+      if (typeof key === 'number') {
+        if (!Number.isInteger(key) || key < 0) {
+          throw new Error(
+            `Expected filter field index to be a positive integer, got ${key}`,
+          );
+        }
+        return `${text}[${key}]`;
+      }
+
+      return PLAIN_NAME_PATTERN.test(key)
+        ? `${text}.${key}`
+        : `${text}${_quotedName(key)}`;
+    }, '@');
+  }
+
+  return _literalText(node.value, 'Filter literals');
+}
+
+// a nested logical expression needs parentheses, unless precedence or left-to-right grouping already implies them
+function _logicalSideText(
+  node: FilterExpressionNode,
+  parent: FilterLogicalNode,
+  left: boolean,
+): string {
+  const text = _expressionText(node);
+
+  if (node.type !== 'logical') {
+    return text;
+  }
+
+  if (node.operator === parent.operator && left) {
+    return text;
+  }
+
+  if (node.operator === '&&' && parent.operator === '||') {
+    return text;
+  }
+
+  return `(${text})`;
+}
+
+function _expressionText(node: FilterExpressionNode): string {
+  switch (node.type) {
+    case 'comparison':
+      return `${_operandText(node.left)} ${node.operator} ${_operandText(node.right)}`;
+    case 'truthy':
+      return _operandText(node.operand);
+    case 'not': {
+      const text = _expressionText(node.expression);
+      return node.expression.type === 'comparison' ||
+        node.expression.type === 'logical'
+        ? `!(${text})`
+        : `!${text}`;
+    }
+    case 'logical':
+      return `${_logicalSideText(node.left, node, true)} ${node.operator} ${_logicalSideText(node.right, node, false)}`;
+    default:
+      throw new Error(
+        `Unsupported filter expression type '${(node as { type: string }).type}'`,
+      );
+  }
+}
+
+function _nodeText(node: PathSegmentNode, first: boolean): string {
+  switch (node.type) {
+    case 'field':
+      return _fieldText(node.name, first);
+    case 'fields':
+      return _fieldsText(node, first);
+    case 'wildcard':
+      return first ? '*' : '.*';
+    case 'entries':
+      return first ? '@entries' : '.@entries';
+    case 'recursiveDescent':
+      return PLAIN_NAME_PATTERN.test(node.name)
+        ? `..${node.name}`
+        : `..${_quotedName(node.name)}`;
+    case 'index':
+      return `[${_integer(node.index, 'index')}]`;
+    case 'slice':
+      return _sliceText(node);
+    case 'key':
+    case 'keyVariable':
+      return _keyText(node);
+    case 'fieldVariable':
+      return first
+        ? _variableText(node.variable)
+        : `.${_variableText(node.variable)}`;
+    case 'indexVariable':
+      return `[${_variableText(node.variable)}]`;
+    case 'filter':
+      return `[?(${_expressionText(node.expression)})]`;
+    default:
+      throw new Error(
+        `Unsupported path node type '${(node as { type: string }).type}'`,
+      );
+  }
+}
+
+/**
+ * Writes path nodes as the canonical path string. Parsing the string again
+ * produces the same nodes.
+ *
+ * @param {PathSegmentNode[]} nodes - The path nodes, in path order.
+ * @return {string} The canonical path string.
+ * @throws {Error} If a node can not be written as a path.
+ */
+export function stringifyNodes(nodes: PathSegmentNode[]): string {
+  return nodes.map((node, index) => _nodeText(node, index === 0)).join('');
+}
@@ -1,6 +1,14 @@
 import { describe, expect, it } from 'vitest';
 import { Parser } from './core.js';
-import { extractValue, injectValue, PathError } from './utilities.js';
+import {
+  bindPathVariables,
+  bindVariables,
+  extractValue,
+  injectValue,
+  isExtractOnly,
+  PathError,
+} from './utilities.js';
+import { ObjectVariableSegment } from './ast/objectVariableSegment.class.js';
 import { PathSegment } from './ast/types.js';
 import { JSONType } from '../../types.js';
 
@@ -152,6 +160,28 @@ describe('PathError', () => {
     expect(pathError.stack).toBe('Error type stack');
   });
 
+  it('should delimit field names after the first segment', () => {
+    const parser = new Parser('[0].users[[0]].name..email');
+    const path = parser.parsePath();
+
+    const pathError = new PathError('text', path);
+
+    expect(pathError.message).toBe(
+      'Exception at [0].users[[0]].name..email: text',
+    );
+  });
+
+  it('should keep quoted field names as they were written', () => {
+    const parser = new Parser(`["a.b"].users['first name']..["e-mail"]`);
+    const path = parser.parsePath();
+
+    const pathError = new PathError('text', path);
+
+    expect(pathError.message).toBe(
+      `Exception at ["a.b"].users['first name']..["e-mail"]: text`,
+    );
+  });
+
   it('pass through non-error type', () => {
     const parser = new Parser('matrix[[0]][[0]][2]');
     const path = parser.parsePath();
@@ -325,6 +355,71 @@ describe('extractValue()', () => {
     ]);
   });
 
+  it('should extract aliased fields of a multifield selection across an array', () => {
+    const parser = new Parser('users.{id, full_name: name}');
+    const path = parser.parsePath();
+    const result = extractValue(
+      {
+        users: [
+          { id: 1, name: 'John', age: 30 },
+          { id: 2, name: 'Jane' },
+        ],
+      },
+      path,
+    );
+
+    expect(result).toStrictEqual([
+      { id: 1, full_name: 'John' },
+      { id: 2, full_name: 'Jane' },
+    ]);
+  });
+
+  it('should extract quoted field names', () => {
+    const parser = new Parser(`data["field.with.dots"]['a b']`);
+    const path = parser.parsePath();
+    const result = extractValue(
+      { data: { 'field.with.dots': { 'a b': 1 }, field: { with: 2 } } },
+      path,
+    );
+
+    expect(result).toBe(1);
+  });
+
+  it('should extract the entries of an object', () => {
+    const parser = new Parser('headers.@entries');
+    const path = parser.parsePath();
+
+    expect(
+      extractValue({ headers: { accept: 'json', host: 'a.com' } }, path),
+    ).toStrictEqual([
+      { key: 'accept', value: 'json' },
+      { key: 'host', value: 'a.com' },
+    ]);
+  });
+
+  it('should extract entries inside array slices, and resolve paths after them', () => {
+    const source = {
+      users: [{ tags: { a: 1, b: 2 } }, { tags: {} }, { tags: { c: 3 } }],
+    };
+
+    expect(
+      extractValue(source, new Parser('users[[0]].tags.@entries').parsePath()),
+    ).toStrictEqual([
+      [
+        { key: 'a', value: 1 },
+        { key: 'b', value: 2 },
+      ],
+      [],
+      [{ key: 'c', value: 3 }],
+    ]);
+    expect(
+      extractValue(
+        source,
+        new Parser('users[[0]].tags.@entries[[0]].key').parsePath(),
+      ),
+    ).toStrictEqual([['a', 'b'], [], ['c']]);
+  });
+
   it('should all arrays using short hand notation', () => {
     // get the id of every item ordered
     const parser = new Parser('users.orders.items.id');
@@ -420,6 +515,139 @@ describe('extractValue()', () => {
       [21, 24, 27],
     ]);
   });
+
+  it('should extract a field from every value of a record with a wildcard', () => {
+    const parser = new Parser('metrics.*.count');
+    const path = parser.parsePath();
+
+    const result = extractValue(
+      {
+        metrics: {
+          cpu: { count: 1, unit: 'ms' },
+          disk: { count: 2, unit: 'kb' },
+          net: {},
+        },
+      },
+      path,
+    );
+
+    expect(result).toStrictEqual({ cpu: 1, disk: 2, net: undefined });
+  });
+
+  it('should extract nested wildcards and wildcards across arrays', () => {
+    const parser = new Parser('regions.*.hosts[[0]].*');
+    const path = parser.parsePath();
+
+    const result = extractValue(
+      {
+        regions: {
+          east: { hosts: [{ a: 1 }, { b: 2 }] },
+          west: { hosts: [] },
+        },
+      },
+      path,
+    );
+
+    expect(result).toStrictEqual({
+      east: [{ a: 1 }, { b: 2 }],
+      west: [],
+    });
+  });
+
+  it('should auto-chain a wildcard over an array of records', () => {
+    const parser = new Parser('records.*');
+    const path = parser.parsePath();
+
+    const result = extractValue({ records: [{ a: 1 }, { b: 2 }, 3] }, path);
+
+    expect(result).toStrictEqual([{ a: 1 }, { b: 2 }, {}]);
+  });
+
+  it('should extract all matches of a recursive descent in document order', () => {
+    const parser = new Parser('..price');
+    const path = parser.parsePath();
+
+    const result = extractValue({ users: SOURCE_DATA.users.slice(0, 2) }, path);
+
+    expect(result).toStrictEqual([
+      10.99, 15.99, 25.99, 35.99, 100.99, 200.99, 300.99, 400.99,
+    ]);
+  });
+
+  it('should resolve the rest of the path for each recursive descent match', () => {
+    const parser = new Parser('users[[0,2]]..items[0].name');
+    const path = parser.parsePath();
+
+    const result = extractValue(SOURCE_DATA, path);
+
+    expect(result).toStrictEqual([
+      ['Item 1', 'Item A'],
+      ['Item X1', 'Item X3'],
+    ]);
+  });
+
+  it('should search the whole array instead of auto-chaining a recursive descent', () => {
+    const parser = new Parser('users..id');
+    const path = parser.parsePath();
+
+    const result = extractValue({ users: [{ id: 1 }, { id: 2 }] }, path);
+
+    expect(result).toStrictEqual([1, 2]);
+  });
+
+  it('should extract an empty array when a recursive descent has no matches', () => {
+    const parser = new Parser('users..missing');
+    const path = parser.parsePath();
+
+    expect(extractValue(SOURCE_DATA, path)).toStrictEqual([]);
+  });
+
+  it('should extract fields from the elements matching a filter', () => {
+    const parser = new Parser('users[?(@.id >= 2 && @.id <= 4)].name');
+    const path = parser.parsePath();
+
+    expect(extractValue(SOURCE_DATA, path)).toStrictEqual([
+      'Jane',
+      'Bob',
+      'Alice',
+    ]);
+  });
+
+  it('should extract through nested filters', () => {
+    const parser = new Parser(
+      "users[?(@.name == 'Charlie')].orders[[0]].items[?(@.price > 200)].id",
+    );
+    const path = parser.parsePath();
+
+    expect(extractValue(SOURCE_DATA, path)).toStrictEqual([
+      [[5002, 5003], [5003]],
+    ]);
+  });
+
+  it('should extract an empty array with a filter on a non-array', () => {
+    const parser = new Parser('users[0][?(@.id == 1)]');
+    const path = parser.parsePath();
+
+    expect(extractValue(SOURCE_DATA, path)).toStrictEqual([]);
+  });
+
+  it('should extract fields from the element with a matching key', () => {
+    const parser = new Parser("users[name='Bob'].orders[0].id");
+    const path = parser.parsePath();
+
+    expect(extractValue(SOURCE_DATA, path)).toBe(301);
+    expect(
+      extractValue(SOURCE_DATA, new Parser('users[id=-1].name').parsePath()),
+    ).toBeUndefined();
+  });
+
+  it('should extract an empty object with a wildcard on a non-object', () => {
+    const parser = new Parser('metrics.*.count');
+    const path = parser.parsePath();
+
+    expect(extractValue({ metrics: 'none' }, path)).toStrictEqual({});
+    expect(extractValue({}, path)).toStrictEqual({});
+  });
 });
 
 describe('injectValue()', () => {
@@ -1759,4 +1987,327 @@ describe('injectValue()', () => {
       ],
     });
   });
+
+  it('should inject aliased fields of a multifield selection under their original names', () => {
+    const parser = new Parser('users[[0]].{id, full_name: name}');
+    const path = parser.parsePath();
+
+    const result = injectValue(
+      { users: [{ id: 1, name: 'John', age: 30 }] },
+      [
+        { id: 1, full_name: 'Johnny' },
+        { id: 2, full_name: 'Jane' },
+      ],
+      path,
+    );
+
+    expect(result).toStrictEqual({
+      users: [
+        { id: 1, name: 'Johnny', age: 30 },
+        { id: 2, name: 'Jane' },
+      ],
+    });
+  });
+
+  it('should inject quoted field names', () => {
+    const parser = new Parser(`data["field.with.dots"]['a b']`);
+    const path = parser.parsePath();
+
+    expect(injectValue({ data: { x: 1 } }, 2, path)).toStrictEqual({
+      data: { x: 1, 'field.with.dots': { 'a b': 2 } },
+    });
+  });
+
+  it('should inject entries as an object', () => {
+    const parser = new Parser('headers.@entries');
+    const path = parser.parsePath();
+
+    expect(
+      injectValue(
+        { id: 1, headers: { stale: 'x' } },
+        [
+          { key: 'accept', value: 'json' },
+          { key: 'host', value: 'a.com' },
+        ],
+        path,
+      ),
+    ).toStrictEqual({ id: 1, headers: { accept: 'json', host: 'a.com' } });
+  });
+
+  it('should inject entries symmetrically inside array slices', () => {
+    const path = new Parser('users[[0]].tags.@entries').parsePath();
+    const source = {
+      users: [{ tags: { a: 1, b: 2 } }, { tags: {} }, { tags: { c: 3 } }],
+    };
+
+    expect(
+      injectValue(undefined, extractValue(source, path), path),
+    ).toStrictEqual(source);
+  });
+
+  it('should update parts of entries through a path after them', () => {
+    const path = new Parser('tags.@entries[[0]].value').parsePath();
+
+    expect(
+      injectValue({ tags: { a: 1, b: 2 } }, [10, 20, 30], path),
+    ).toStrictEqual({ tags: { a: 10, b: 20 } });
+  });
+
+  it('should inject into every key of a record with a wildcard', () => {
+    const parser = new Parser('stats.*.total');
+    const path = parser.parsePath();
+
+    const result = injectValue(
+      { stats: { cpu: { total: 0, unit: 'ms' }, mem: { unit: 'kb' } } },
+      { cpu: 1, disk: 2 },
+      path,
+    );
+
+    expect(result).toStrictEqual({
+      stats: {
+        cpu: { total: 1, unit: 'ms' },
+        mem: { unit: 'kb' },
+        disk: { total: 2 },
+      },
+    });
+  });
+
+  it('should inject nested wildcards through array slices', () => {
+    const parser = new Parser('regions.*.hosts[[0]].*');
+    const path = parser.parsePath();
+
+    const result = injectValue(
+      undefined,
+      { east: [{ a: 1 }, { b: 2 }], west: [] },
+      path,
+    );
+
+    expect(result).toStrictEqual({
+      regions: {
+        east: { hosts: [{ a: 1 }, { b: 2 }] },
+        west: { hosts: [] },
+      },
+    });
+  });
+
+  it('should create an empty object when injecting a non-object with a wildcard', () => {
+    const parser = new Parser('stats.*.total');
+    const path = parser.parsePath();
+
+    expect(injectValue(undefined, [1, 2], path)).toStrictEqual({ stats: {} });
+    expect(injectValue({ stats: 5 }, 'x', path)).toStrictEqual({ stats: {} });
+  });
+
+  it('should round trip a wildcard extraction into a wildcard injection', () => {
+    const source = {
+      metrics: {
+        cpu: { count: 1 },
+        disk: { count: 2 },
+      },
+    };
+
+    const extracted = extractValue(
+      source,
+      new Parser('metrics.*.count').parsePath(),
+    );
+    const injected = injectValue(
+      undefined,
+      extracted,
+      new Parser('stats.*.total').parsePath(),
+    );
+    const reversed = injectValue(
+      undefined,
+      extractValue(injected, new Parser('stats.*.total').parsePath()),
+      new Parser('metrics.*.count').parsePath(),
+    );
+
+    expect(injected).toStrictEqual({
+      stats: { cpu: { total: 1 }, disk: { total: 2 } },
+    });
+    expect(reversed).toStrictEqual(source);
+  });
+
+  it('should reject injecting into a recursive descent path', () => {
+    const parser = new Parser('users..email');
+    const path = parser.parsePath();
+
+    expect(() => injectValue(undefined, ['a@b.c'], path)).toThrow(
+      'Exception at users..email: Recursive descent paths can not be injected into',
+    );
+  });
+
+  it('should only update the elements matching a filter', () => {
+    const parser = new Parser("addresses[?(@.type == 'billing')].street");
+    const path = parser.parsePath();
+
+    const result = injectValue(
+      {
+        addresses: [
+          { type: 'shipping', street: '1 Side St' },
+          { type: 'billing', street: '2 Main St', zip: '12345' },
+        ],
+      },
+      'New St',
+      path,
+    );
+
+    expect(result).toStrictEqual({
+      addresses: [
+        { type: 'shipping', street: '1 Side St' },
+        { type: 'billing', street: 'New St', zip: '12345' },
+      ],
+    });
+  });
+
+  it('should append seeded elements when a filter has no matches', () => {
+    const parser = new Parser("addresses[?(@.type == 'billing')].street");
+    const path = parser.parsePath();
+
+    const result = injectValue(
+      { addresses: [{ type: 'shipping', street: '1 Side St' }] },
+      ['2 Main St'],
+      path,
+    );
+
+    expect(result).toStrictEqual({
+      addresses: [
+        { type: 'shipping', street: '1 Side St' },
+        { type: 'billing', street: '2 Main St' },
+      ],
+    });
+    expect(extractValue(result, path)).toStrictEqual(['2 Main St']);
+  });
+
+  it('should update the element with a matching key', () => {
+    const parser = new Parser('lines[sku="A-1"].qty');
+    const path = parser.parsePath();
+
+    const result = injectValue(
+      {
+        lines: [
+          { sku: 'B-2', qty: 1 },
+          { sku: 'A-1', qty: 2, price: 10 },
+        ],
+      },
+      5,
+      path,
+    );
+
+    expect(result).toStrictEqual({
+      lines: [
+        { sku: 'B-2', qty: 1 },
+        { sku: 'A-1', qty: 5, price: 10 },
+      ],
+    });
+  });
+
+  it('should append an element with the key when no element matches', () => {
+    const parser = new Parser('lines[sku="A-1"].qty');
+    const path = parser.parsePath();
+
+    const result = injectValue({ lines: [{ sku: 'B-2', qty: 1 }] }, 5, path);
+
+    expect(result).toStrictEqual({
+      lines: [
+        { sku: 'B-2', qty: 1 },
+        { qty: 5, sku: 'A-1' },
+      ],
+    });
+    expect(extractValue(result, path)).toBe(5);
+    expect(injectValue(undefined, 5, path)).toStrictEqual({
+      lines: [{ qty: 5, sku: 'A-1' }],
+    });
+  });
+});
+
+describe('bindVariables()', () => {
+  it('should replace variables with concrete segments', () => {
+    const path = new Parser(
+      'labels.$locale.tenants[$index].lines[sku=$sku].qty',
+    ).parsePath();
+    const source = {
+      labels: {
+        fr: { tenants: [{ lines: [{ sku: 'A-1', qty: 1 }] }, { lines: [] }] },
+      },
+    };
+
+    const bound = bindVariables(path, { locale: 'fr', index: 0, sku: 'A-1' });
+
+    expect(extractValue(source, bound)).toBe(1);
+    expect(
+      injectValue(
+        undefined,
+        2,
+        bindVariables(path, { locale: 'en', index: 0, sku: 'B' }),
+      ),
+    ).toStrictEqual({
+      labels: { en: { tenants: [{ lines: [{ qty: 2, sku: 'B' }] }] } },
+    });
+  });
+
+  it('should not modify the path it binds', () => {
+    const path = new Parser('a.$b').parsePath();
+
+    const bound = bindVariables(path, { b: 'c' });
+
+    expect(bound).not.toBe(path);
+    expect(path[1]).toBeInstanceOf(ObjectVariableSegment);
+    expect(bound[0]).toBe(path[0]);
+  });
+
+  it('should keep paths without variables as they are, even without variables', () => {
+    const path = new Parser('a[0].b').parsePath();
+
+    expect(bindVariables(path)).toStrictEqual(path);
+  });
+
+  it('should throw on unbound variables', () => {
+    expect(() =>
+      bindVariables(new Parser('a[$i]').parsePath(), { j: 1 }),
+    ).toThrow("Unbound variable '$i'");
+    expect(() => bindVariables(new Parser('a.$b').parsePath())).toThrow(
+      "Unbound variable '$b'",
+    );
+  });
+
+  it('should name the variable in errors when an unbound path is used', () => {
+    const path = new Parser('labels.$locale').parsePath();
+
+    expect(() => extractValue({ labels: {} }, path)).toThrow(
+      "Exception at labels.$locale: Unbound variable '$locale'",
+    );
+    expect(() => injectValue(undefined, 'x', path)).toThrow(
+      "Exception at labels.$locale: Unbound variable '$locale'",
+    );
+  });
+});
+
+describe('bindPathVariables()', () => {
+  it('should bind variables like bindVariables()', () => {
+    const path = new Parser('a.$b').parsePath();
+
+    expect(bindPathVariables('a.$b', path, { b: 'c' })).toStrictEqual(
+      bindVariables(path, { b: 'c' }),
+    );
+  });
+
+  it('should name the path of an unbound variable', () => {
+    expect(() =>
+      bindPathVariables('a[$i]', new Parser('a[$i]').parsePath(), { j: 1 }),
+    ).toThrow("Path 'a[$i]': Unbound variable '$i'");
+  });
+});
+
+describe('isExtractOnly()', () => {
+  it('should be true for paths with a recursive descent', () => {
+    expect(isExtractOnly(new Parser('..email').parsePath())).toBe(true);
+    expect(isExtractOnly(new Parser('users[0]..email').parsePath())).toBe(true);
+  });
+
+  it('should be false for paths without a recursive descent', () => {
+    expect(isExtractOnly(new Parser('').parsePath())).toBe(false);
+    expect(isExtractOnly(new Parser('users[[0]].*.email').parsePath())).toBe(
+      false,
+    );
+  });
 });
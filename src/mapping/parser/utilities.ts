@@ -1,20 +1,32 @@
-import { JSONType } from '../../types.js';
+import { JSONArray, JSONObject, JSONType } from '../../types.js';
 import {
   AbstractPathIteratorSegment,
   IterationResult,
 } from './ast/abstractPathIteratorSegment.class.js';
 import { PathSegment } from './ast/types.js';
 import { AbstractPathIndexSegment } from './ast/abstractPathIndexSegment.class.js';
+import { ObjectWildcardSegment } from './ast/objectWildcardSegment.class.js';
+import { RecursiveDescentSegment } from './ast/recursiveDescentSegment.class.js';
+import { ObjectIndexSegment } from './ast/objectIndexSegment.class.js';
+import { ObjectVariableSegment } from './ast/objectVariableSegment.class.js';
+import { ArrayVariableIndexSegment } from './ast/arrayVariableIndexSegment.class.js';
+import { ArrayVariableKeySegment } from './ast/arrayVariableKeySegment.class.js';
+import { PathVariables } from './ast/variables.js';
 
 function generatePathString(path: unknown[]): string {
   return path
-    .map((segment) => {
-      if (segment instanceof AbstractPathIteratorSegment) {
+    .map((segment, index) => {
+      // these segments carry their own leading delimiters
+      if (
+        segment instanceof AbstractPathIteratorSegment ||
+        segment instanceof RecursiveDescentSegment ||
+        (segment instanceof ObjectIndexSegment && segment.quoted)
+      ) {
         return segment.sourceText;
       }
 
       if (segment instanceof AbstractPathIndexSegment) {
-        return `.${segment.sourceText}`;
+        return index === 0 ? segment.sourceText : `.${segment.sourceText}`;
       }
 
       return '<invalid path segment>';
@@ -31,7 +43,7 @@ export class PathError extends Error {
     const myError =
       message instanceof Error ? message : new Error(String(message));
 
-    const pathString = generatePathString(traversedPath).replace(/^\./, '');
+    const pathString = generatePathString(traversedPath);
 
     super(`Exception at ${pathString}: ${myError.message}`);
 
@@ -85,6 +97,36 @@ function _extractIndexValueChained(
   );
 }
 
+function _extractWildcardValue(
+  currentValue: JSONType,
+  currentSegment: ObjectWildcardSegment,
+  remainingPath: PathSegment[],
+  traversePath: PathSegment[] = [],
+): JSONObject {
+  const entries = currentSegment.getValue(currentValue);
+  const result: JSONObject = {};
+
+  // the remaining path is resolved per key, so the keys survive the extraction
+  Object.keys(entries).forEach((key) => {
+    result[key] = _extractValue(entries[key], remainingPath, traversePath);
+  });
+
+  return result;
+}
+
+function _extractRecursiveDescentValue(
+  currentValue: JSONType,
+  currentSegment: RecursiveDescentSegment,
+  remainingPath: PathSegment[],
+  traversePath: PathSegment[] = [],
+): JSONArray {
+  const matches = currentSegment.getValue(currentValue);
+
+  return matches.map((item) =>
+    _extractValue(item, remainingPath, traversePath),
+  );
+}
+
 function _extractIndexValueUnchained(
   currentValue: JSONType,
   currentSegment: AbstractPathIndexSegment,
@@ -148,6 +190,21 @@ function _extractValue(
         continue;
       }
 
+      // searches cover arrays as a whole, so this must come before auto-chaining
+      if (currentSegment instanceof RecursiveDescentSegment) {
+        currentValue = _extractRecursiveDescentValue(
+          currentValue,
+          currentSegment,
+          remainingPath,
+          traversePath,
+        );
+
+        // clear the remaining path for this loop because it will be handled in the recursion
+        remainingPath = [];
+
+        continue;
+      }
+
       // the current source is an array, but the segment is not an iterator, so we default to chaining
       if (Array.isArray(currentValue)) {
         currentValue = _extractIndexValueChained(
@@ -163,6 +220,21 @@ function _extractValue(
         continue;
       }
 
+      // wildcards fan out over every key of the current object
+      if (currentSegment instanceof ObjectWildcardSegment) {
+        currentValue = _extractWildcardValue(
+          currentValue,
+          currentSegment,
+          remainingPath,
+          traversePath,
+        );
+
+        // clear the remaining path for this loop because it will be handled in the recursion
+        remainingPath = [];
+
+        continue;
+      }
+
       // non-array value and non-iterator segment is a straight forward extract
       currentValue = _extractIndexValueUnchained(currentValue, currentSegment);
     }
@@ -211,6 +283,31 @@ function _injectValueIterator(
   return currentSegment.setValue(currentDestination, nextValue);
 }
 
+function _injectValueWildcard(
+  currentDestination: JSONType,
+  currentSegment: ObjectWildcardSegment,
+  value: JSONType | undefined,
+  remainingPath: PathSegment[],
+  traversedPath: PathSegment[],
+): JSONType | undefined {
+  const existing = currentSegment.getValue(currentDestination);
+  const nextValue: JSONObject = {};
+
+  // values that are not objects have no keys to write back
+  const keyedValue = currentSegment.getValue(value);
+
+  Object.keys(keyedValue).forEach((key) => {
+    nextValue[key] = _injectValue(
+      existing[key],
+      keyedValue[key],
+      remainingPath,
+      traversedPath,
+    );
+  });
+
+  return currentSegment.setValue(currentDestination, nextValue);
+}
+
 function _injectValueIndex(
   currentDestination: JSONType,
   currentSegment: AbstractPathIndexSegment,
@@ -247,6 +344,21 @@ function __injectValue(
     );
   }
 
+  if (currentSegment instanceof RecursiveDescentSegment) {
+    // always throws, search results have no single location to write back to
+    return currentSegment.setValue();
+  }
+
+  if (currentSegment instanceof ObjectWildcardSegment) {
+    return _injectValueWildcard(
+      destination,
+      currentSegment,
+      value,
+      remainingPath,
+      traversedPath,
+    );
+  }
+
   return _injectValueIndex(
     destination,
     currentSegment,
@@ -304,3 +416,66 @@ export function injectValue(
 ): JSONType | undefined {
   return _injectValue(destination, value, path);
 }
+
+/**
+ * Determines if a path can only be extracted from, never injected into.
+ *
+ * @param {PathSegment[]} path - The parsed path to check.
+ * @return {boolean} True if the path contains a segment that can not be injected into.
+ */
+export function isExtractOnly(path: PathSegment[]): boolean {
+  return path.some((segment) => segment instanceof RecursiveDescentSegment);
+}
+
+function _isVariableSegment(
+  segment: PathSegment,
+): segment is
+  | ObjectVariableSegment
+  | ArrayVariableIndexSegment
+  | ArrayVariableKeySegment {
+  return (
+    segment instanceof ObjectVariableSegment ||
+    segment instanceof ArrayVariableIndexSegment ||
+    segment instanceof ArrayVariableKeySegment
+  );
+}
+
+/**
+ * Replaces the "$name" variables of a path with their values. The path
+ * itself is not modified.
+ *
+ * @param {PathSegment[]} path - The parsed path.
+ * @param {PathVariables} [variables] - The variable values, by name.
+ * @return {PathSegment[]} The path with only concrete segments.
+ * @throws {Error} If a variable is unbound, or its value can not be used where it appears.
+ */
+export function bindVariables(
+  path: PathSegment[],
+  variables: PathVariables = {},
+): PathSegment[] {
+  return path.map((segment) =>
+    _isVariableSegment(segment) ? segment.bind(variables) : segment,
+  );
+}
+
+/**
+ * Binds the variables of a path like bindVariables() does, for paths that are
+ * not part of a rule, so errors name the path instead.
+ *
+ * @param {string} text - The path expression, for errors.
+ * @param {PathSegment[]} path - The parsed path.
+ * @param {PathVariables} [variables] - The variable values, by name.
+ * @return {PathSegment[]} The path with only concrete segments.
+ * @throws {Error} If a variable is unbound, or its value can not be used where it appears.
+ */
+export function bindPathVariables(
+  text: string,
+  path: PathSegment[],
+  variables?: PathVariables,
+): PathSegment[] {
+  try {
+    return bindVariables(path, variables);
+  } catch (e) {
+    throw new Error(`Path '${text}': ${(e as Error).message}`);
+  }
+}
@@ -3,8 +3,19 @@ import {
   MappingPlan,
   MappingPlanRuleOrder,
   MappingRule,
+  MappingRuleCondition,
+  MappingRuleFormatLookup,
+  MappingRuleFormatType,
+  MappingRuleFormatKeyCase,
+  MappingRuleFormatScale,
+  MappingRuleKeyCase,
+  MappingRuleLookup,
   MappingRuleParams,
+  MappingRuleScale,
 } from './plan.js';
+import { RoundingMode } from '../formatters/scale.js';
+import { KeyCase } from '../formatters/keyCase.js';
+import { FilterComparisonOperator } from './parser/ast/filterExpression.class.js';
 import { Parser } from './parser/core.js';
 import { JSONType } from '../types.js';
 
@@ -16,6 +27,17 @@ describe('MappingRule', () => {
   });
 
   describe('Constructor validation', () => {
+    it('should create a rule with conditions per direction', () => {
+      const rule = new MappingRule({
+        left: 'a',
+        right: 'b',
+        when: { toRight: () => true },
+      });
+
+      expect(rule.rightCondition).toBeInstanceOf(MappingRuleCondition);
+      expect(rule.leftCondition).toBeUndefined();
+    });
+
     it('should create a rule with left path and right path', () => {
       const rule = new MappingRule({
         left: 'user.name',
@@ -133,6 +155,18 @@ describe('MappingRule', () => {
       expect(rule.rightPath).toBeDefined();
       expect(rule.rightPath?.length).toBe(2);
     });
+
+    it('should create a rule with lists of paths', () => {
+      const rule = new MappingRule({
+        left: ['user.firstName', 'user.lastName'],
+        right: 'fullName',
+      });
+
+      expect(rule.leftPath).toBeUndefined();
+      expect(rule.leftPaths?.map((path) => path.length)).toStrictEqual([2, 2]);
+      expect(rule.rightPath?.length).toBe(1);
+      expect(rule.rightPaths).toBeUndefined();
+    });
   });
 
   describe('Error handling', () => {
@@ -188,6 +222,54 @@ describe('MappingRule', () => {
       ).toThrow(/Right: Parse error/);
     });
 
+    it('should throw error for invalid paths in a list, naming the path', () => {
+      expect(
+        () => new MappingRule({ left: 'a', right: ['b', 'c[abc]'] }),
+      ).toThrow(/^Right\[1\]: Parse error/);
+    });
+
+    it('should throw error for empty lists of paths', () => {
+      expect(() => new MappingRule({ left: [], right: 'b' })).toThrow(
+        'Left: Expected at least one path',
+      );
+    });
+
+    it('should throw error for invalid conditions, naming the direction', () => {
+      expect(
+        () =>
+          new MappingRule({
+            left: 'a',
+            right: 'b',
+            when: { toLeft: { path: 'a[', operator: '==', value: 1 } },
+          }),
+      ).toThrow('When toLeft: Parse error');
+      expect(
+        () =>
+          new MappingRule({
+            left: 'a',
+            right: 'b',
+            when: {
+              toRight: {
+                path: 'a',
+                operator: '~' as FilterComparisonOperator,
+                value: 1,
+              },
+            },
+          }),
+      ).toThrow("When toRight: Unsupported operator '~'");
+    });
+
+    it('should throw error when a rule has both literal and default', () => {
+      expect(
+        () =>
+          new MappingRule({
+            left: 'a',
+            literal: 1,
+            default: { toRight: 2 },
+          } as MappingRulesParamsAny),
+      ).toThrow('rule can not have both literal and default');
+    });
+
     it('should throw error when accessing literal on rule without literal', () => {
       const rule = new MappingRule({
         left: 'user.name',
@@ -255,6 +337,94 @@ describe('MappingRule', () => {
     });
   });
 
+  describe('Sub-plan handling', () => {
+    const subPlan = {
+      map: (value: JSONType) => value,
+      reverseMap: (value: JSONType) => value,
+    };
+
+    it('should return the sub-plan of a rule', () => {
+      const rule = new MappingRule({
+        left: 'items',
+        right: 'lines',
+        plan: subPlan,
+      });
+
+      expect(rule.plan).toBe(subPlan);
+      expect(new MappingRule({ left: 'a', right: 'b' }).plan).toBeUndefined();
+    });
+
+    it('should resolve sub-plans given as a function on every call', () => {
+      const reference = vi.fn(() => subPlan);
+      const rule = new MappingRule({
+        left: 'items',
+        right: 'lines',
+        plan: reference,
+      });
+
+      expect(reference).not.toHaveBeenCalled();
+      expect(rule.plan).toBe(subPlan);
+      expect(rule.plan).toBe(subPlan);
+      expect(reference).toHaveBeenCalledTimes(2);
+    });
+
+    it('should throw error when a sub-plan is combined with another way of mapping', () => {
+      [
+        { left: 'a', literal: 1 },
+        {
+          left: 'a',
+          right: 'b',
+          transform: {
+            toLeft: (v: JSONType) => v,
+            toRight: (v: JSONType) => v,
+          },
+        },
+        {
+          left: 'a',
+          right: 'b',
+          format: { type: 'timestamp', toLeft: 'x', toRight: 'y' },
+        },
+      ].forEach((params) => {
+        expect(
+          () =>
+            new MappingRule({
+              ...params,
+              plan: subPlan,
+            } as unknown as MappingRulesParamsAny),
+        ).toThrow('rule with a plan can not have literal, transform or format');
+      });
+    });
+  });
+
+  describe('Default handling', () => {
+    it('should return a clone of default values per direction', () => {
+      const toRight = { state: 'pending' };
+      const rule = new MappingRule({
+        left: 'status',
+        right: 'state',
+        default: { toRight, toLeft: 'PENDING' },
+      });
+
+      expect(rule.rightDefault).toStrictEqual(toRight);
+      expect(rule.rightDefault).not.toBe(toRight);
+      expect(rule.leftDefault).toBe('PENDING');
+    });
+
+    it('should return undefined for directions without a default', () => {
+      const rule = new MappingRule({
+        left: 'status',
+        right: 'state',
+        default: { toRight: null },
+      });
+
+      expect(rule.rightDefault).toBeNull();
+      expect(rule.leftDefault).toBeUndefined();
+      expect(
+        new MappingRule({ left: 'a', right: 'b' }).rightDefault,
+      ).toBeUndefined();
+    });
+  });
+
   describe('Literal handling', () => {
     it('should return a clone of literal values', () => {
       const originalLiteral = { name: 'John', details: { age: 30 } };
@@ -323,6 +493,391 @@ describe('MappingRule', () => {
   });
 });
 
+describe('MappingRuleLookup', () => {
+  const lookup = new MappingRuleLookup({
+    type: MappingRuleFormatType.LOOKUP,
+    table: [
+      [1, 'active'],
+      [0, 'inactive'],
+      [null, 'unknown'],
+    ],
+  });
+
+  it('should translate values in both directions', () => {
+    expect(lookup.toRight(1)).toBe('active');
+    expect(lookup.toRight(null)).toBe('unknown');
+    expect(lookup.toLeft('inactive')).toBe(0);
+    expect(lookup.toLeft('unknown')).toBeNull();
+  });
+
+  it('should compare values strictly', () => {
+    expect(() => lookup.toRight('1')).toThrow(
+      'No lookup entry for left value "1"',
+    );
+    expect(() => lookup.toLeft(0)).toThrow('No lookup entry for right value 0');
+  });
+
+  it('should pass undefined through', () => {
+    expect(lookup.toRight(undefined)).toBeUndefined();
+    expect(lookup.toLeft(undefined)).toBeUndefined();
+  });
+
+  it('should use the fallback of a direction for values not in the table', () => {
+    const fallback = { code: 'other' };
+    const withFallback = new MappingRuleLookup({
+      type: MappingRuleFormatType.LOOKUP,
+      table: [[1, 'active']],
+      fallback: { toRight: fallback },
+    });
+
+    expect(withFallback.toRight(2)).toStrictEqual(fallback);
+    expect(withFallback.toRight(2)).not.toBe(fallback);
+    expect(() => withFallback.toLeft('other')).toThrow(
+      'No lookup entry for right value "other"',
+    );
+    expect(
+      new MappingRuleLookup({
+        type: MappingRuleFormatType.LOOKUP,
+        table: [],
+        fallback: { toLeft: null },
+      }).toLeft('x'),
+    ).toBeNull();
+  });
+
+  it('should throw error for invalid tables', () => {
+    [
+      [{ table: {} }, 'Lookup table must be an array of [left, right] pairs'],
+      [
+        { table: [[1, 'a'], [2]] },
+        'Lookup entry 1 must be a [left, right] pair of strings, numbers, booleans or nulls',
+      ],
+      [
+        { table: [[{ a: 1 }, 'a']] },
+        'Lookup entry 0 must be a [left, right] pair of strings, numbers, booleans or nulls',
+      ],
+      [
+        { table: ['ab'] },
+        'Lookup entry 0 must be a [left, right] pair of strings, numbers, booleans or nulls',
+      ],
+      [
+        {
+          table: [
+            [1, 'a'],
+            [1, 'b'],
+          ],
+        },
+        'Lookup entry 1 has duplicate left value 1',
+      ],
+      [
+        {
+          table: [
+            ['x', true],
+            ['y', false],
+            ['z', true],
+          ],
+        },
+        'Lookup entry 2 has duplicate right value true',
+      ],
+    ].forEach(([params, message]) => {
+      expect(
+        () =>
+          new MappingRuleLookup({
+            type: MappingRuleFormatType.LOOKUP,
+            ...(params as object),
+          } as MappingRuleFormatLookup),
+      ).toThrow(message as string);
+    });
+  });
+
+  it('should be created by rules with a lookup format, naming the format in errors', () => {
+    const rule = new MappingRule({
+      left: 'status',
+      right: 'state',
+      format: { type: MappingRuleFormatType.LOOKUP, table: [[1, 'active']] },
+    });
+
+    expect(rule.lookup).toBeInstanceOf(MappingRuleLookup);
+    expect(
+      new MappingRule({
+        left: 'at',
+        right: 'on',
+        format: {
+          type: MappingRuleFormatType.TIMESTAMP,
+          toLeft: 'x',
+          toRight: 'y',
+        },
+      }).lookup,
+    ).toBeUndefined();
+    expect(
+      () =>
+        new MappingRule({
+          left: 'status',
+          right: 'state',
+          format: {
+            type: MappingRuleFormatType.LOOKUP,
+            table: [
+              [1, 'a'],
+              [2, 'a'],
+            ],
+          },
+        }),
+    ).toThrow('Format: Lookup entry 1 has duplicate right value "a"');
+  });
+});
+
+describe('MappingRuleScale', () => {
+  const scaleFormat = (
+    params: Partial<MappingRuleFormatScale>,
+  ): MappingRuleFormatScale => ({
+    type: MappingRuleFormatType.SCALE,
+    ...params,
+  });
+
+  it('should convert with a factor in both directions', () => {
+    const cents = new MappingRuleScale(scaleFormat({ factor: 100 }));
+
+    expect(cents.toRight(19.99)).toBe(1999);
+    expect(cents.toLeft(1999)).toBe(19.99);
+  });
+
+  it('should convert with named units in both directions', () => {
+    const seconds = new MappingRuleScale(
+      scaleFormat({ units: { left: 'ms', right: 's' } }),
+    );
+
+    expect(seconds.toRight(1500)).toBe(1.5);
+    expect(seconds.toLeft(1.5)).toBe(1500);
+  });
+
+  it('should round per direction', () => {
+    const pounds = new MappingRuleScale(
+      scaleFormat({
+        units: { left: 'kg', right: 'lb' },
+        precision: { toRight: 2 },
+      }),
+    );
+
+    expect(pounds.toRight(1)).toBe(2.2);
+    expect(pounds.toLeft(2.2)).toBeCloseTo(0.997903214, 12);
+  });
+
+  it('should round with the rounding mode, half up by default', () => {
+    const params = { factor: 0.01, precision: { toRight: 0, toLeft: 0 } };
+
+    expect(new MappingRuleScale(scaleFormat(params)).toRight(250)).toBe(3);
+    expect(
+      new MappingRuleScale(
+        scaleFormat({ ...params, rounding: RoundingMode.HALF_EVEN }),
+      ).toRight(250),
+    ).toBe(2);
+  });
+
+  it('should pass null and undefined through', () => {
+    const cents = new MappingRuleScale(scaleFormat({ factor: 100 }));
+
+    expect(cents.toRight(null)).toBeNull();
+    expect(cents.toLeft(undefined)).toBeUndefined();
+  });
+
+  it('should throw on values that are not finite numbers', () => {
+    const cents = new MappingRuleScale(scaleFormat({ factor: 100 }));
+
+    ['1', true, {}, [1]].forEach((value) => {
+      expect(() => cents.toRight(value)).toThrow(
+        'Can not apply scale formatting to non-number value',
+      );
+    });
+    expect(() => cents.toLeft(Infinity)).toThrow(
+      'Can not apply scale formatting to non-number value',
+    );
+  });
+
+  it('should throw error for invalid parameters', () => {
+    [
+      [{}, 'Scale format must have either factor or units'],
+      [
+        { factor: 10, units: { left: 'g', right: 'kg' } },
+        'Scale format must have either factor or units',
+      ],
+      [{ factor: 0 }, 'Scale factor must be a finite number other than 0'],
+      [{ factor: '10' }, 'Scale factor must be a finite number other than 0'],
+      [{ factor: NaN }, 'Scale factor must be a finite number other than 0'],
+      [{ units: { left: 'g', right: 's' } }, "Can not convert between 'g'"],
+      [
+        { factor: 10, precision: { toLeft: 1.5 } },
+        'Scale precision toLeft must be an integer',
+      ],
+      [{ factor: 10, rounding: 'nearest' }, "Unknown rounding mode 'nearest'"],
+    ].forEach(([params, message]) => {
+      expect(
+        () =>
+          new MappingRuleScale(
+            scaleFormat(params as Partial<MappingRuleFormatScale>),
+          ),
+      ).toThrow(message as string);
+    });
+  });
+
+  it('should be created by rules with a scale format, naming the format in errors', () => {
+    expect(
+      new MappingRule({
+        left: 'price',
+        right: 'cents',
+        format: { type: MappingRuleFormatType.SCALE, factor: 100 },
+      }).scale,
+    ).toBeInstanceOf(MappingRuleScale);
+    expect(
+      () =>
+        new MappingRule({
+          left: 'price',
+          right: 'cents',
+          format: { type: MappingRuleFormatType.SCALE },
+        }),
+    ).toThrow('Format: Scale format must have either factor or units');
+  });
+});
+
+describe('MappingRuleKeyCase', () => {
+  const keyCase = new MappingRuleKeyCase({
+    type: MappingRuleFormatType.KEY_CASE,
+    toLeft: KeyCase.SNAKE,
+    toRight: KeyCase.CAMEL,
+    except: ['_id'],
+  });
+
+  it('should convert keys to the case style of each direction', () => {
+    expect(keyCase.toRight({ _id: 1, user_name: 'a' })).toStrictEqual({
+      _id: 1,
+      userName: 'a',
+    });
+    expect(keyCase.toLeft({ _id: 1, userName: 'a' })).toStrictEqual({
+      _id: 1,
+      user_name: 'a',
+    });
+  });
+
+  it('should throw error for invalid parameters', () => {
+    [
+      [
+        { toLeft: 'title', toRight: KeyCase.CAMEL },
+        "Unknown key case toLeft 'title', expected one of camel, pascal, snake, screamingSnake, kebab",
+      ],
+      [{ toLeft: KeyCase.CAMEL }, "Unknown key case toRight 'undefined'"],
+      [
+        { toLeft: KeyCase.CAMEL, toRight: KeyCase.SNAKE, except: '_id' },
+        'Key case except must be an array of strings',
+      ],
+      [
+        { toLeft: KeyCase.CAMEL, toRight: KeyCase.SNAKE, except: [1] },
+        'Key case except must be an array of strings',
+      ],
+    ].forEach(([params, message]) => {
+      expect(
+        () =>
+          new MappingRuleKeyCase({
+            type: MappingRuleFormatType.KEY_CASE,
+            ...(params as object),
+          } as MappingRuleFormatKeyCase),
+      ).toThrow(message as string);
+    });
+  });
+
+  it('should be created by rules with a key case format, naming the format in errors', () => {
+    expect(
+      new MappingRule({
+        left: 'row',
+        right: 'item',
+        format: {
+          type: MappingRuleFormatType.KEY_CASE,
+          toLeft: KeyCase.SNAKE,
+          toRight: KeyCase.CAMEL,
+        },
+      }).keyCase,
+    ).toBeInstanceOf(MappingRuleKeyCase);
+    expect(
+      () =>
+        new MappingRule({
+          left: 'row',
+          right: 'item',
+          format: {
+            type: MappingRuleFormatType.KEY_CASE,
+            toLeft: KeyCase.SNAKE,
+            toRight: 'camelCase' as KeyCase,
+          },
+        }),
+    ).toThrow("Format: Unknown key case toRight 'camelCase'");
+  });
+});
+
+describe('MappingRuleCondition', () => {
+  it('should call function conditions with the whole source', () => {
+    const predicate = vi.fn((source: JSONType) => source === 'yes');
+    const condition = new MappingRuleCondition(predicate);
+
+    expect(condition.test('yes')).toBe(true);
+    expect(condition.test('no')).toBe(false);
+    expect(predicate).toHaveBeenCalledWith('yes');
+  });
+
+  it('should treat the result of function conditions as a boolean', () => {
+    const condition = new MappingRuleCondition(
+      () => 'truthy' as unknown as boolean,
+    );
+
+    expect(condition.test(null)).toBe(true);
+  });
+
+  it('should compare the value at a path', () => {
+    const source = { fulfillment: 'ship', discount: 0, total: 10 };
+
+    [
+      { path: 'fulfillment', operator: '==', value: 'ship', expected: true },
+      { path: 'fulfillment', operator: '==', value: 'pickup', expected: false },
+      { path: 'discount', operator: '!=', value: 0, expected: false },
+      { path: 'total', operator: '>', value: 5, expected: true },
+      { path: 'total', operator: '<=', value: 5, expected: false },
+      { path: 'total', operator: '<', value: '20', expected: false },
+      { path: 'missing', operator: '==', value: null, expected: false },
+      { path: 'missing', operator: '!=', value: null, expected: true },
+    ].forEach(({ path, operator, value, expected }) => {
+      const condition = new MappingRuleCondition({
+        path,
+        operator: operator as FilterComparisonOperator,
+        value,
+      });
+
+      expect(condition.test(source)).toBe(expected);
+    });
+  });
+
+  it('should bind variables in the path', () => {
+    const condition = new MappingRuleCondition({
+      path: 'flags.$flag',
+      operator: '==',
+      value: true,
+    });
+
+    expect(condition.test({ flags: { a: true } }, { flag: 'a' })).toBe(true);
+    expect(() => condition.test({ flags: {} })).toThrow(
+      "Unbound variable '$flag'",
+    );
+  });
+
+  it('should reject invalid comparisons', () => {
+    expect(
+      () =>
+        new MappingRuleCondition({
+          path: 'a',
+          operator: '=' as FilterComparisonOperator,
+          value: 1,
+        }),
+    ).toThrow("Unsupported operator '='");
+    expect(
+      () => new MappingRuleCondition({ path: 'a[', operator: '==', value: 1 }),
+    ).toThrow('Parse error');
+  });
+});
+
 describe('MappingPlan', () => {
   const createSampleRules = () => [
     new MappingRule({ left: 'user.id', right: 'person.identifier' }),
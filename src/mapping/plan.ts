@@ -2,6 +2,41 @@ import { clone } from '../schema.js';
 import { JSONType } from '../types.js';
 import { Parser } from './parser/core.js';
 import { PathSegment } from './parser/ast/types.js';
+import { PathVariables } from './parser/ast/variables.js';
+import {
+  FilterComparisonExpression,
+  FilterComparisonOperator,
+  FilterFieldOperand,
+  FilterLiteralOperand,
+} from './parser/ast/filterExpression.class.js';
+import { bindVariables, extractValue } from './parser/utilities.js';
+import {
+  round,
+  RoundingMode,
+  scale,
+  unitFactor,
+  unscale,
+} from '../formatters/scale.js';
+import { convertKeys, KeyCase } from '../formatters/keyCase.js';
+
+/**
+ * Fallback values for when the source value of a rule is undefined, separately
+ * per direction. A default takes the place of the missing source value, so it
+ * is still transformed and formatted like one.
+ *
+ * Properties:
+ * - `toLeft`: Used when mapping right to left, in place of a missing right value.
+ * - `toRight`: Used when mapping left to right, in place of a missing left value.
+ */
+interface MappingRuleParamsDefaults<
+  LeftValueType extends JSONType = JSONType,
+  RightValueType extends JSONType = JSONType,
+> {
+  default?: {
+    toLeft?: RightValueType;
+    toRight?: LeftValueType;
+  };
+}
 
 /**
  * Represents a mapping structure where a string key is mapped to a literal JSON
@@ -20,7 +55,7 @@ import { PathSegment } from './parser/ast/types.js';
  * - `literal`: A value compliant with JSON data types, representing the
  * associated value for the key.
  */
-interface MappingRuleParamsLiteralLeft {
+interface MappingRuleParamsLiteralLeft extends MappingRuleParamsConditions {
   left: string;
   literal: JSONType;
 }
@@ -42,7 +77,7 @@ interface MappingRuleParamsLiteralLeft {
  * - `literal`: A value compliant with JSON data types, representing the
  * associated value for the key.
  */
-interface MappingRuleParamsLiteralRight {
+interface MappingRuleParamsLiteralRight extends MappingRuleParamsConditions {
   right: string;
   literal: JSONType;
 }
@@ -61,25 +96,40 @@ interface MappingRuleParamsLiteralRight {
  * because if the left side is transformed, the right side must also be
  * transformed to match if going in the other direction.
  *
+ * Either side can be a list of paths instead, in which case the value of that
+ * side is a tuple with one value per path, in the same order. This is how
+ * several fields are combined into one, and split back.
+ *
  * Properties:
- * - `left`: Denotes the source field or key on the left side of the mapping.
- * - `right`: Denotes the destination field or key on the right side of the mapping.
+ * - `left`: Denotes the source field or key on the left side of the mapping,
+ *   or a list of them.
+ * - `right`: Denotes the destination field or key on the right side of the
+ *   mapping, or a list of them.
  * - `leftTransform`: A function that converts or transforms a value from the right side
  *   of the mapping into a corresponding value suitable for the left side.
  * - `rightTransform`: A function that converts or transforms a value from the left side
  *   of the mapping into a corresponding value suitable for the right side.
+ *
+ * A transform may return a promise, for example when it needs to look a value
+ * up. Plans with such transforms must be run with mapAsync() or
+ * reverseMapAsync().
  */
 export interface MappingRuleParamsLiteralTransform<
   LeftValueType extends JSONType,
   RightValueType extends JSONType,
-> {
-  left: string;
+> extends MappingRuleParamsConditions,
+    MappingRuleParamsDefaults<LeftValueType, RightValueType> {
+  left: string | string[];
 
-  right: string;
+  right: string | string[];
 
   transform: {
-    toLeft: (rightValue: RightValueType) => LeftValueType;
-    toRight: (leftValue: LeftValueType) => RightValueType;
+    toLeft: (
+      rightValue: RightValueType,
+    ) => LeftValueType | Promise<LeftValueType>;
+    toRight: (
+      leftValue: LeftValueType,
+    ) => RightValueType | Promise<RightValueType>;
   };
 }
 
@@ -97,34 +147,530 @@ export interface MappingRuleParamsLiteralTransform<
  * between string codes and numeric enum representations, use leftTransform and
  * rightTransform to define the transformation.
  *
+ * A side can also be a list of paths, see MappingRuleParamsLiteralTransform.
+ *
  * Properties:
- * - `left`: A string representing the key or identifier in the mapping.
- * - `right`: A string representing the key or identifier in the mapping.
+ * - `left`: A string representing the key or identifier in the mapping, or a
+ *   list of them.
+ * - `right`: A string representing the key or identifier in the mapping, or a
+ *   list of them.
  */
-interface MappingRuleParamsLiteralNeither {
-  left: string;
-  right: string;
+interface MappingRuleParamsLiteralNeither
+  extends MappingRuleParamsConditions,
+    MappingRuleParamsDefaults {
+  left: string | string[];
+  right: string | string[];
 }
 
 export enum MappingRuleFormatType {
   TIMESTAMP = 'timestamp',
+  LOOKUP = 'lookup',
+  SCALE = 'scale',
+  KEY_CASE = 'keyCase',
+}
+
+/**
+ * Formats timestamp strings, with toLeft the format of the left value and
+ * toRight the format of the right value.
+ */
+export interface MappingRuleFormatTimestamp {
+  type: MappingRuleFormatType.TIMESTAMP;
+  toLeft: string;
+  toRight: string;
+}
+
+export type MappingRuleLookupValue = string | number | boolean | null;
+
+/**
+ * A left value and the right value it translates to.
+ */
+export type MappingRuleLookupEntry = [
+  left: MappingRuleLookupValue,
+  right: MappingRuleLookupValue,
+];
+
+/**
+ * Translates values through a table of left and right pairs, which is used as
+ * is toward the right and inverted toward the left.
+ *
+ * Properties:
+ * - `table`: The pairs of left and right values. Values on each side must be
+ *   unique, so the table can be inverted.
+ * - `fallback`: Values to use for values that are not in the table, per
+ *   direction. A direction without a fallback throws on them instead.
+ */
+export interface MappingRuleFormatLookup {
+  type: MappingRuleFormatType.LOOKUP;
+  table: MappingRuleLookupEntry[];
+  fallback?: {
+    toLeft?: JSONType;
+    toRight?: JSONType;
+  };
+}
+
+/**
+ * Converts numbers between units, as right = left * factor toward the right
+ * and left = right / factor toward the left. Factors that are powers of ten
+ * move the decimal point, so cents to dollars is exact.
+ *
+ * Properties:
+ * - `factor`: The number to multiply left values by.
+ * - `units`: Named units of the left and right values, such as 'ms' and 's',
+ *   instead of a factor.
+ * - `precision`: Decimal places to round the result to, per direction. A
+ *   direction without a precision is not rounded.
+ * - `rounding`: How to round, RoundingMode.HALF_UP if not given.
+ * - `inverted`: Divide left values by the factor instead, so that factor and
+ *   units describe the right value. Plans made by invert() set it, since
+ *   1 / factor is not exact for factors like 3.
+ */
+export interface MappingRuleFormatScale {
+  type: MappingRuleFormatType.SCALE;
+  factor?: number;
+  units?: {
+    left: string;
+    right: string;
+  };
+  precision?: {
+    toLeft?: number;
+    toRight?: number;
+  };
+  rounding?: RoundingMode;
+  inverted?: boolean;
+}
+
+/**
+ * Converts every object key in the value, at any depth, between case styles.
+ *
+ * Properties:
+ * - `toLeft`: The case style of keys on the left.
+ * - `toRight`: The case style of keys on the right.
+ * - `except`: Keys that are kept as they are in either direction, the values
+ *   under them are still converted.
+ */
+export interface MappingRuleFormatKeyCase {
+  type: MappingRuleFormatType.KEY_CASE;
+  toLeft: KeyCase;
+  toRight: KeyCase;
+  except?: string[];
+}
+
+export type MappingRuleFormat =
+  | MappingRuleFormatTimestamp
+  | MappingRuleFormatLookup
+  | MappingRuleFormatScale
+  | MappingRuleFormatKeyCase;
+
+interface MappingRuleParamsFormat
+  extends MappingRuleParamsConditions,
+    MappingRuleParamsDefaults {
+  left: string;
+  right: string;
+  format: MappingRuleFormat;
+}
+
+/**
+ * A compiled plan, as seen by the rules that use it. The public Plan class
+ * implements this, along with anything else that maps in both directions.
+ */
+export interface MappingSubPlan {
+  map(
+    leftValue: JSONType,
+    overrideValues?: undefined,
+    options?: { variables?: PathVariables },
+  ): JSONType;
+  reverseMap(
+    rightValue: JSONType,
+    overrideValues?: undefined,
+    options?: { variables?: PathVariables },
+  ): JSONType;
+  // used instead of map() and reverseMap() when mapping with mapAsync(), so the transforms of the sub-plan can be async too
+  mapAsync?(
+    leftValue: JSONType,
+    overrideValues?: undefined,
+    options?: MappingSubPlanAsyncOptions,
+  ): Promise<JSONType>;
+  reverseMapAsync?(
+    rightValue: JSONType,
+    overrideValues?: undefined,
+    options?: MappingSubPlanAsyncOptions,
+  ): Promise<JSONType>;
 }
 
-interface MappingRuleParamsFormat {
+/**
+ * What mapAsync() passes on to the async methods of a sub-plan.
+ */
+export interface MappingSubPlanAsyncOptions {
+  variables?: PathVariables;
+  concurrency?: number;
+  signal?: AbortSignal;
+}
+
+/**
+ * A sub-plan, or a function returning one. The function is only called when
+ * the rule runs, so a plan can refer to itself, or to plans compiled after it.
+ */
+export type MappingSubPlanReference = MappingSubPlan | (() => MappingSubPlan);
+
+/**
+ * Represents a mapping structure where the value on each side is mapped with
+ * another plan. Arrays are mapped element by element, other values as a
+ * whole, and null and undefined are passed through as they are.
+ *
+ * Properties:
+ * - `left`: A string representing the key or identifier in the mapping.
+ * - `right`: A string representing the key or identifier in the mapping.
+ * - `plan`: The plan to map values with, map() toward the right and reverseMap()
+ *   toward the left.
+ */
+interface MappingRuleParamsPlan
+  extends MappingRuleParamsConditions,
+    MappingRuleParamsDefaults {
   left: string;
   right: string;
-  format: {
-    type: MappingRuleFormatType;
-    toLeft: string;
-    toRight: string;
+  plan: MappingSubPlanReference;
+}
+
+/**
+ * A declarative condition, which holds when the value at path in the source
+ * compares to value. Comparisons work the same as in path filters: equality
+ * is strict, and ordering only holds between two numbers or two strings.
+ *
+ * Properties:
+ * - `path`: The path of the value to compare, in the source of the mapping.
+ * - `operator`: One of '==', '!=', '<', '<=', '>' and '>='.
+ * - `value`: The value to compare to.
+ */
+export interface MappingRuleConditionComparison {
+  path: string;
+  operator: FilterComparisonOperator;
+  value: JSONType;
+}
+
+/**
+ * A condition for a rule to run, either a function that receives the whole
+ * source of the mapping, or a comparison on a path of it.
+ */
+export type MappingRuleConditionParams =
+  | ((source: JSONType) => boolean)
+  | MappingRuleConditionComparison;
+
+/**
+ * Conditions that must hold for a rule to run, separately per direction. A
+ * direction without a condition always runs.
+ *
+ * Properties:
+ * - `toLeft`: Checked against the right value when mapping right to left.
+ * - `toRight`: Checked against the left value when mapping left to right.
+ */
+interface MappingRuleParamsConditions {
+  when?: {
+    toLeft?: MappingRuleConditionParams;
+    toRight?: MappingRuleConditionParams;
   };
 }
 
+const CONDITION_OPERATORS: FilterComparisonOperator[] = [
+  '==',
+  '!=',
+  '<',
+  '<=',
+  '>',
+  '>=',
+];
+
+/**
+ * A compiled rule condition, see MappingRuleConditionParams.
+ */
+export class MappingRuleCondition {
+  private readonly predicate?: (source: JSONType) => boolean;
+  private readonly path?: PathSegment[];
+  private readonly comparison?: FilterComparisonExpression;
+
+  constructor(params: MappingRuleConditionParams) {
+    if (typeof params === 'function') {
+      this.predicate = params;
+      return;
+    }
+
+    if (!CONDITION_OPERATORS.includes(params.operator)) {
+      throw new Error(`Unsupported operator '${String(params.operator)}'`);
+    }
+
+    this.path = new Parser(params.path).parsePath();
+
+    // the field operand with an empty path is the value itself
+    this.comparison = new FilterComparisonExpression(
+      new FilterFieldOperand([]),
+      params.operator,
+      new FilterLiteralOperand(params.value),
+    );
+  }
+
+  /**
+   * @param {JSONType} source - The whole source of the mapping.
+   * @param {PathVariables} [variables] - Values for the variables in the path of a comparison.
+   * @return {boolean} True if the rule should run.
+   */
+  public test(source: JSONType, variables?: PathVariables): boolean {
+    if (this.predicate) {
+      return Boolean(this.predicate(source));
+    }
+
+    const value = extractValue(
+      source,
+      bindVariables(this.path as PathSegment[], variables),
+    );
+
+    return (this.comparison as FilterComparisonExpression).test(value);
+  }
+}
+
+/**
+ * A compiled lookup table, see MappingRuleFormatLookup.
+ */
+export class MappingRuleLookup {
+  private readonly leftToRight = new Map<
+    MappingRuleLookupValue,
+    MappingRuleLookupValue
+  >();
+  private readonly rightToLeft = new Map<
+    MappingRuleLookupValue,
+    MappingRuleLookupValue
+  >();
+
+  constructor(private readonly params: MappingRuleFormatLookup) {
+    if (!Array.isArray(params.table)) {
+      throw new Error('Lookup table must be an array of [left, right] pairs');
+    }
+
+    params.table.forEach((entry, index) => {
+      if (
+        !Array.isArray(entry) ||
+        entry.length !== 2 ||
+        !entry.every((value) => MappingRuleLookup._isLookupValue(value))
+      ) {
+        throw new Error(
+          `Lookup entry ${index} must be a [left, right] pair of strings, numbers, booleans or nulls`,
+        );
+      }
+
+      const [left, right] = entry;
+
+      // the table is inverted toward the left, so both sides must be unique
+      if (this.leftToRight.has(left)) {
+        throw new Error(
+          `Lookup entry ${index} has duplicate left value ${JSON.stringify(left)}`,
+        );
+      }
+
+      if (this.rightToLeft.has(right)) {
+        throw new Error(
+          `Lookup entry ${index} has duplicate right value ${JSON.stringify(right)}`,
+        );
+      }
+
+      this.leftToRight.set(left, right);
+      this.rightToLeft.set(right, left);
+    });
+  }
+
+  private static _isLookupValue(value: unknown): boolean {
+    return (
+      value === null ||
+      typeof value === 'string' ||
+      typeof value === 'number' ||
+      typeof value === 'boolean'
+    );
+  }
+
+  /**
+   * @param {JSONType} value - A left value.
+   * @return {JSONType} The right value for it, the fallback if it is not in the table, or undefined if value is.
+   */
+  public toRight(value: JSONType): JSONType {
+    return this._translate(value, this.leftToRight, 'toRight', 'left');
+  }
+
+  /**
+   * @param {JSONType} value - A right value.
+   * @return {JSONType} The left value for it, the fallback if it is not in the table, or undefined if value is.
+   */
+  public toLeft(value: JSONType): JSONType {
+    return this._translate(value, this.rightToLeft, 'toLeft', 'right');
+  }
+
+  private _translate(
+    value: JSONType,
+    table: Map<MappingRuleLookupValue, MappingRuleLookupValue>,
+    direction: 'toLeft' | 'toRight',
+    side: string,
+  ): JSONType {
+    // a missing value has nothing to translate
+    if (value === undefined) {
+      return undefined;
+    }
+
+    if (table.has(value as MappingRuleLookupValue)) {
+      return table.get(value as MappingRuleLookupValue);
+    }
+
+    const fallback = this.params.fallback;
+
+    if (fallback && direction in fallback) {
+      return clone(fallback[direction]);
+    }
+
+    throw new Error(
+      `No lookup entry for ${side} value ${JSON.stringify(value)}`,
+    );
+  }
+}
+
+const ROUNDING_MODES: string[] = Object.values(RoundingMode);
+
+/**
+ * A compiled unit conversion, see MappingRuleFormatScale.
+ */
+export class MappingRuleScale {
+  private readonly factor: number;
+  private readonly precision: { toLeft?: number; toRight?: number };
+  private readonly rounding: RoundingMode;
+  private readonly inverted: boolean;
+
+  constructor(params: MappingRuleFormatScale) {
+    if ('factor' in params === 'units' in params) {
+      throw new Error('Scale format must have either factor or units');
+    }
+
+    if (params.units) {
+      this.factor = unitFactor(params.units.left, params.units.right);
+    } else {
+      if (
+        typeof params.factor !== 'number' ||
+        !Number.isFinite(params.factor) ||
+        params.factor === 0
+      ) {
+        throw new Error('Scale factor must be a finite number other than 0');
+      }
+
+      this.factor = params.factor;
+    }
+
+    this.precision = { ...params.precision };
+
+    Object.entries(this.precision).forEach(([direction, precision]) => {
+      if (!Number.isInteger(precision)) {
+        throw new Error(`Scale precision ${direction} must be an integer`);
+      }
+    });
+
+    this.rounding = params.rounding ?? RoundingMode.HALF_UP;
+
+    if (!ROUNDING_MODES.includes(this.rounding)) {
+      throw new Error(`Unknown rounding mode '${String(this.rounding)}'`);
+    }
+
+    this.inverted = params.inverted ?? false;
+  }
+
+  /**
+   * @param {JSONType} value - A left value.
+   * @return {JSONType} The right value, null and undefined are passed through.
+   */
+  public toRight(value: JSONType): JSONType {
+    return this._convert(
+      value,
+      this.inverted ? unscale : scale,
+      this.precision.toRight,
+    );
+  }
+
+  /**
+   * @param {JSONType} value - A right value.
+   * @return {JSONType} The left value, null and undefined are passed through.
+   */
+  public toLeft(value: JSONType): JSONType {
+    return this._convert(
+      value,
+      this.inverted ? scale : unscale,
+      this.precision.toLeft,
+    );
+  }
+
+  private _convert(
+    value: JSONType,
+    convert: (value: number, factor: number) => number,
+    precision: number | undefined,
+  ): JSONType {
+    if (value === undefined || value === null) {
+      return value;
+    }
+
+    if (typeof value !== 'number' || !Number.isFinite(value)) {
+      throw new Error('Can not apply scale formatting to non-number value');
+    }
+
+    const converted = convert(value, this.factor);
+
+    return precision === undefined
+      ? converted
+      : round(converted, precision, this.rounding);
+  }
+}
+
+const KEY_CASES: string[] = Object.values(KeyCase);
+
+/**
+ * A compiled key case conversion, see MappingRuleFormatKeyCase.
+ */
+export class MappingRuleKeyCase {
+  private readonly except: Set<string>;
+
+  constructor(private readonly params: MappingRuleFormatKeyCase) {
+    (['toLeft', 'toRight'] as const).forEach((direction) => {
+      if (!KEY_CASES.includes(params[direction])) {
+        throw new Error(
+          `Unknown key case ${direction} '${String(params[direction])}', expected one of ${KEY_CASES.join(', ')}`,
+        );
+      }
+    });
+
+    const except = params.except ?? [];
+
+    if (
+      !Array.isArray(except) ||
+      !except.every((key) => typeof key === 'string')
+    ) {
+      throw new Error('Key case except must be an array of strings');
+    }
+
+    this.except = new Set(except);
+  }
+
+  /**
+   * @param {JSONType} value - A left value.
+   * @return {JSONType} A copy of value with its keys in the right case style.
+   */
+  public toRight(value: JSONType): JSONType {
+    return convertKeys(value, this.params.toRight, this.except);
+  }
+
+  /**
+   * @param {JSONType} value - A right value.
+   * @return {JSONType} A copy of value with its keys in the left case style.
+   */
+  public toLeft(value: JSONType): JSONType {
+    return convertKeys(value, this.params.toLeft, this.except);
+  }
+}
+
 export type MappingRuleParamsStatic =
   | MappingRuleParamsLiteralLeft
   | MappingRuleParamsLiteralRight
   | MappingRuleParamsLiteralNeither
-  | MappingRuleParamsFormat;
+  | MappingRuleParamsFormat
+  | MappingRuleParamsPlan;
 
 export type MappingRuleParams<
   LeftTransformType extends JSONType,
@@ -163,19 +709,25 @@ export class MappingRule<
 > {
   public readonly leftPath?: PathSegment[];
   public readonly rightPath?: PathSegment[];
+  // set instead of the single path when a side has a list of paths, which holds a tuple of values
+  public readonly leftPaths?: PathSegment[][];
+  public readonly rightPaths?: PathSegment[][];
   public readonly leftTransform?: (
     value: RightTransformType,
-  ) => LeftTransformType;
+  ) => LeftTransformType | Promise<LeftTransformType>;
   public readonly rightTransform?: (
     value: LeftTransformType,
-  ) => RightTransformType;
+  ) => RightTransformType | Promise<RightTransformType>;
   private readonly myLiteral?: JSONType;
   public readonly hasLiteral: boolean = false;
-  public readonly format?: {
-    type: MappingRuleFormatType;
-    toLeft: string;
-    toRight: string;
-  };
+  private readonly myDefault: { toLeft?: JSONType; toRight?: JSONType } = {};
+  public readonly format?: MappingRuleFormat;
+  public readonly lookup?: MappingRuleLookup;
+  public readonly scale?: MappingRuleScale;
+  public readonly keyCase?: MappingRuleKeyCase;
+  public readonly leftCondition?: MappingRuleCondition;
+  public readonly rightCondition?: MappingRuleCondition;
+  private readonly myPlan?: MappingSubPlanReference;
 
   constructor(
     params: MappingRuleParams<LeftTransformType, RightTransformType>,
@@ -190,21 +742,29 @@ export class MappingRule<
       );
     }
 
+    // the plan does all the mapping of the value, so it can not be combined with anything else that does
+    if (
+      'plan' in params &&
+      ('literal' in params || 'transform' in params || 'format' in params)
+    ) {
+      throw new Error(
+        'rule with a plan can not have literal, transform or format',
+      );
+    }
+
     if ('left' in params) {
-      try {
-        this.leftPath = new Parser(params.left).parsePath();
-      } catch (e) {
-        const myError = e instanceof Error ? e : new Error(String(e));
-        throw new Error(`Left: ${myError.message}`);
+      if (Array.isArray(params.left)) {
+        this.leftPaths = MappingRule._parsePaths(params.left, 'Left');
+      } else {
+        this.leftPath = MappingRule._parsePath(params.left, 'Left');
       }
     }
 
     if ('right' in params) {
-      try {
-        this.rightPath = new Parser(params.right).parsePath();
-      } catch (e) {
-        const myError = e instanceof Error ? e : new Error(String(e));
-        throw new Error(`Right: ${myError.message}`);
+      if (Array.isArray(params.right)) {
+        this.rightPaths = MappingRule._parsePaths(params.right, 'Right');
+      } else {
+        this.rightPath = MappingRule._parsePath(params.right, 'Right');
       }
     }
 
@@ -218,8 +778,74 @@ export class MappingRule<
       this.myLiteral = params.literal;
     }
 
+    if ('default' in params) {
+      // a literal already replaces the source, so there is nothing for a default to fall back from
+      if (this.hasLiteral) {
+        throw new Error('rule can not have both literal and default');
+      }
+
+      this.myDefault = { ...params.default };
+    }
+
     if ('format' in params) {
       this.format = params.format;
+
+      try {
+        if (params.format.type === MappingRuleFormatType.LOOKUP) {
+          this.lookup = new MappingRuleLookup(params.format);
+        } else if (params.format.type === MappingRuleFormatType.SCALE) {
+          this.scale = new MappingRuleScale(params.format);
+        } else if (params.format.type === MappingRuleFormatType.KEY_CASE) {
+          this.keyCase = new MappingRuleKeyCase(params.format);
+        }
+      } catch (e) {
+        throw new Error(`Format: ${(e as Error).message}`);
+      }
+    }
+
+    if ('plan' in params) {
+      this.myPlan = params.plan;
+    }
+
+    if (params.when?.toLeft) {
+      this.leftCondition = MappingRule._condition(params.when.toLeft, 'toLeft');
+    }
+
+    if (params.when?.toRight) {
+      this.rightCondition = MappingRule._condition(
+        params.when.toRight,
+        'toRight',
+      );
+    }
+  }
+
+  private static _parsePath(path: string, label: string): PathSegment[] {
+    try {
+      return new Parser(path).parsePath();
+    } catch (e) {
+      const myError = e instanceof Error ? e : new Error(String(e));
+      throw new Error(`${label}: ${myError.message}`);
+    }
+  }
+
+  private static _parsePaths(paths: string[], side: string): PathSegment[][] {
+    if (paths.length === 0) {
+      throw new Error(`${side}: Expected at least one path`);
+    }
+
+    return paths.map((path, pathIndex) =>
+      MappingRule._parsePath(path, `${side}[${pathIndex}]`),
+    );
+  }
+
+  private static _condition(
+    params: MappingRuleConditionParams,
+    direction: string,
+  ): MappingRuleCondition {
+    try {
+      return new MappingRuleCondition(params);
+    } catch (e) {
+      throw new Error(`When ${direction}: ${(e as Error).message}`);
     }
   }
 
@@ -232,6 +858,37 @@ export class MappingRule<
 
     return clone(this.myLiteral);
   }
+
+  /**
+   * The sub-plan to map values with, or undefined if there is none. A plan
+   * given as a function is resolved on every call.
+   */
+  public get plan(): MappingSubPlan | undefined {
+    return typeof this.myPlan === 'function' ? this.myPlan() : this.myPlan;
+  }
+
+  /**
+   * If the rule has a sub-plan, without resolving a plan given as a function.
+   */
+  public get hasPlan(): boolean {
+    return this.myPlan !== undefined;
+  }
+
+  /**
+   * The value to use when mapping right to left and the right value is
+   * undefined, or undefined if there is none.
+   */
+  public get leftDefault(): JSONType | undefined {
+    return clone(this.myDefault.toLeft);
+  }
+
+  /**
+   * The value to use when mapping left to right and the left value is
+   * undefined, or undefined if there is none.
+   */
+  public get rightDefault(): JSONType | undefined {
+    return clone(this.myDefault.toRight);
+  }
 }
 
 /**
@@ -0,0 +1,222 @@
+import { describe, expect, it } from 'vitest';
+import { compareRoundTrip } from './roundTrip.js';
+import { compile } from './compile.js';
+import { map, MAP_DIRECTION } from './execute.js';
+import { MappingRuleParams } from './plan.js';
+import { JSONType } from '../types.js';
+
+function roundTrip(
+  rules: MappingRuleParams<any, any>[],
+  sample: JSONType,
+  direction = MAP_DIRECTION.LeftToRight,
+) {
+  const plan = compile(rules);
+  const back =
+    direction === MAP_DIRECTION.LeftToRight
+      ? MAP_DIRECTION.RightToLeft
+      : MAP_DIRECTION.LeftToRight;
+
+  const result = map(
+    map(sample, plan, undefined, direction),
+    plan,
+    undefined,
+    back,
+  );
+
+  return compareRoundTrip(plan, sample, result, direction);
+}
+
+describe('compareRoundTrip()', () => {
+  it('should find no differences when the sample comes back the same', () => {
+    expect(
+      roundTrip(
+        [
+          { left: 'id', right: 'userId' },
+          { left: 'tags', right: 'labels' },
+        ],
+        { id: 1, tags: ['a', { b: null }] },
+      ),
+    ).toStrictEqual([]);
+  });
+
+  it('should name the rules that cause each difference', () => {
+    expect(
+      roundTrip(
+        [
+          { left: 'id', right: 'userId' },
+          { left: 'version', right: 'version', literal: 2 },
+          {
+            left: 'name',
+            right: 'name',
+            transform: {
+              toRight: (name: string) => name.toUpperCase(),
+              toLeft: (name: string) => name.toLowerCase(),
+            },
+          },
+          { left: 'tags[[0,1]]', right: 'firstTags' },
+          { right: 'source', literal: 'import' },
+        ],
+        { id: 1, version: 1, name: 'Ann', tags: ['a', 'b'], extra: true },
+      ),
+    ).toStrictEqual([
+      { path: 'version', original: 1, result: 2, rules: [1] },
+      { path: 'name', original: 'Ann', result: 'ann', rules: [2] },
+      { path: 'tags[1]', original: 'b', result: undefined, rules: [3] },
+      { path: 'extra', original: true, result: undefined, rules: [] },
+    ]);
+  });
+
+  it('should report values that the round trip adds', () => {
+    expect(
+      roundTrip([{ left: 'a', right: 'b', default: { toLeft: 0 } }], {}),
+    ).toStrictEqual([
+      { path: 'a', original: undefined, result: 0, rules: [0] },
+    ]);
+  });
+
+  it('should report values that change type', () => {
+    expect(
+      roundTrip(
+        [
+          {
+            left: 'a',
+            right: 'b',
+            transform: { toRight: () => [1], toLeft: () => ({ x: 1 }) },
+          },
+        ],
+        { a: [1] },
+      ),
+    ).toStrictEqual([
+      { path: 'a', original: [1], result: { x: 1 }, rules: [0] },
+    ]);
+  });
+
+  it('should compare samples of any depth', () => {
+    const nest = (leaf: JSONType): JSONType => {
+      let value = leaf;
+      for (let depth = 0; depth < 20000; depth++) {
+        value = depth % 2 === 0 ? [value] : { a: value };
+      }
+      return value;
+    };
+
+    const [difference] = compareRoundTrip(
+      compile([]),
+      nest(1),
+      nest(2),
+      MAP_DIRECTION.LeftToRight,
+    );
+
+    expect(difference).toMatchObject({ original: 1, result: 2, rules: [] });
+    expect(difference.path.startsWith('a[0].a[0]')).toBe(true);
+  });
+
+  it('should use every path of rules with a list of paths', () => {
+    expect(
+      roundTrip(
+        [
+          {
+            left: ['first', 'last'],
+            right: 'name',
+            transform: {
+              toRight: ([first, last]: string[]) => `${first} ${last}`,
+              toLeft: (name: string) => name.split(' '),
+            },
+          },
+        ],
+        { first: 'Mary Ann', last: 'Lee' },
+      ),
+    ).toStrictEqual([
+      { path: 'first', original: 'Mary Ann', result: 'Mary', rules: [0] },
+      { path: 'last', original: 'Lee', result: 'Ann', rules: [0] },
+    ]);
+  });
+
+  it('should use the right paths of rules for right samples', () => {
+    expect(
+      roundTrip(
+        [
+          { left: 'a', right: 'b' },
+          { left: 'c', right: ['d', 'e'], literal: [1, 2] },
+          { left: 'd', literal: 3 },
+        ],
+        { b: 1, d: 0, e: 2 },
+        MAP_DIRECTION.RightToLeft,
+      ),
+    ).toStrictEqual([{ path: 'd', original: 0, result: 1, rules: [1] }]);
+  });
+
+  it('should match every kind of path against the place of a difference', () => {
+    const sample = {
+      'odd.name': 1,
+      list: [
+        { id: 1, v: 1 },
+        { id: 2, v: 2 },
+      ],
+      nested: { deep: { v: 1 } },
+      record: { a: 1 },
+    };
+
+    const rules = (paths: string[]) =>
+      paths.map((left) => ({
+        left,
+        right: left,
+        transform: {
+          toRight: (value: unknown) => value,
+          toLeft: () => 'changed',
+        },
+      }));
+
+    const plan = compile(
+      rules([
+        'list[1].v',
+        'list[-1]',
+        'list[$index]',
+        'list[id=$id]',
+        'list[id=2]',
+        'list[[0]]',
+        'list[?(@.id == 2)]',
+        'nested.{deep}',
+        'nested.{other}',
+        'nested.*',
+        'nested.$field',
+        'record.@entries',
+        '..v',
+        '..other',
+        '',
+        'other',
+        'list.x',
+        '"odd.name"',
+        'list[0]',
+      ]),
+    );
+
+    expect(
+      compareRoundTrip(
+        plan,
+        sample,
+        {
+          ...sample,
+          list: [sample.list[0], { id: 2, v: 3 }],
+          nested: { deep: { v: 2 } },
+          record: { a: 2 },
+        },
+        MAP_DIRECTION.LeftToRight,
+      ),
+    ).toStrictEqual([
+      {
+        path: 'list[1].v',
+        original: 2,
+        result: 3,
+        rules: [0, 1, 2, 3, 4, 5, 6, 12, 14],
+      },
+      {
+        path: 'nested.deep.v',
+        original: 1,
+        result: 2,
+        rules: [7, 9, 10, 12, 14],
+      },
+      { path: 'record.a', original: 1, result: 2, rules: [11, 14] },
+    ]);
+  });
+});
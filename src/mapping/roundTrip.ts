@@ -0,0 +1,209 @@
+import { JSONType } from '../types.js';
+import { _isObject } from '../helpers.js';
+import { MappingPlan } from './plan.js';
+import { MAP_DIRECTION } from './execute.js';
+import { PathSegmentNode, stringifyNodes, toNodes } from './parser/nodes.js';
+
+/**
+ * A place where a value did not come back the same after a round trip.
+ */
+export interface MappingRoundTripDifference {
+  // where the values differ, as a path into the sample
+  path: string;
+  // the value in the sample, undefined if the round trip added it
+  original: JSONType | undefined;
+  // the value after the round trip, undefined if the round trip lost it
+  result: JSONType | undefined;
+  // the indexes of the rules with a path on the sample side that reaches the place, empty if no rule maps it
+  rules: number[];
+  // for composed plans that run one after the other, the plan the rules are in, counted from the left, the path is then into the value that plan maps from
+  stage?: number;
+}
+
+type Key = string | number;
+
+interface Place {
+  keys: Key[];
+  original?: JSONType;
+  result?: JSONType;
+}
+
+// the places inside of both values in document order, undefined if they are not both arrays or objects
+function _children(place: Place): Place[] | undefined {
+  const { keys, original, result } = place;
+
+  if (Array.isArray(original) && Array.isArray(result)) {
+    return Array.from(
+      { length: Math.max(original.length, result.length) },
+      (_, index) => ({
+        keys: [...keys, index],
+        original: original[index],
+        result: result[index],
+      }),
+    );
+  }
+
+  if (_isObject(original) && _isObject(result)) {
+    return [...new Set([...Object.keys(original), ...Object.keys(result)])].map(
+      (key) => ({
+        keys: [...keys, key],
+        original: original[key],
+        result: result[key],
+      }),
+    );
+  }
+
+  return undefined;
+}
+
+/**
+ * The places where the values differ, in document order.
+ *
+ * The values are compared with a stack instead of recursion because the depth
+ * of the sample is unknown.
+ */
+function _differences(
+  original: JSONType | undefined,
+  result: JSONType | undefined,
+): Place[] {
+  const found: Place[] = [];
+  const stack: Place[] = [{ keys: [], original, result }];
+
+  while (stack.length > 0) {
+    const place = stack.pop() as Place;
+    const children = _children(place);
+
+    if (!children) {
+      if (place.original !== place.result) {
+        found.push(place);
+      }
+      continue;
+    }
+
+    // push in reverse so the first child is compared first
+    for (let i = children.length - 1; i >= 0; i--) {
+      stack.push(children[i]);
+    }
+  }
+
+  return found;
+}
+
+/**
+ * If a path that matches nodes and the concrete path keys meet, one of them
+ * being inside of the other or both being the same. A path can only be inside
+ * of the place at keys if the place holds an object or array.
+ */
+function _reaches(
+  nodes: PathSegmentNode[],
+  keys: Key[],
+  container: boolean,
+): boolean {
+  if (keys.length === 0) {
+    return nodes.length === 0 || container;
+  }
+
+  if (nodes.length === 0) {
+    return true;
+  }
+
+  const [node, ...restNodes] = nodes;
+  const [key, ...restKeys] = keys;
+
+  switch (node.type) {
+    case 'field':
+      return key === node.name && _reaches(restNodes, restKeys, container);
+
+    case 'fields':
+      return (
+        node.fields.some(({ name }) => name === key) &&
+        _reaches(restNodes, restKeys, container)
+      );
+
+    case 'wildcard':
+    case 'fieldVariable':
+      return (
+        typeof key === 'string' && _reaches(restNodes, restKeys, container)
+      );
+
+    case 'index':
+      // a negative index depends on the length of the array, it could be any element
+      return (
+        typeof key === 'number' &&
+        (node.index < 0 || node.index === key) &&
+        _reaches(restNodes, restKeys, container)
+      );
+
+    case 'slice':
+    case 'key':
+    case 'keyVariable':
+    case 'indexVariable':
+    case 'filter':
+      return (
+        typeof key === 'number' && _reaches(restNodes, restKeys, container)
+      );
+
+    case 'recursiveDescent':
+      return (
+        (key === node.name && _reaches(restNodes, restKeys, container)) ||
+        _reaches(nodes, restKeys, container)
+      );
+
+    case 'entries':
+      // the rest of the path is on the list of entries, not the object, so it can be anything in the object
+      return true;
+  }
+}
+
+/**
+ * Compares a sample with what a plan made of it after mapping it one way and
+ * back, and finds the rules responsible for each difference.
+ *
+ * @param {MappingPlan} plan - The plan the sample made its round trip through.
+ * @param {JSONType} original - The sample.
+ * @param {JSONType} result - The sample after the round trip.
+ * @param {MAP_DIRECTION} direction - LeftToRight if the sample is a left value, RightToLeft if it is a right value.
+ * @return {MappingRoundTripDifference[]} The differences, empty if the sample came back the same.
+ */
+export function compareRoundTrip(
+  plan: MappingPlan,
+  original: JSONType,
+  result: JSONType,
+  direction: MAP_DIRECTION,
+): MappingRoundTripDifference[] {
+  const found = _differences(original, result);
+
+  const rulePaths = plan.rules.map((rule) => {
+    const paths =
+      direction === MAP_DIRECTION.LeftToRight
+        ? (rule.leftPaths ?? (rule.leftPath ? [rule.leftPath] : []))
+        : (rule.rightPaths ?? (rule.rightPath ? [rule.rightPath] : []));
+
+    return paths.map(toNodes);
+  });
+
+  return found.map((difference) => ({
+    path: stringifyNodes(
+      difference.keys.map((key) =>
+        typeof key === 'number'
+          ? { type: 'index', index: key }
+          : { type: 'field', name: key },
+      ),
+    ),
+    original: difference.original,
+    result: difference.result,
+    rules: rulePaths.flatMap((paths, index) =>
+      paths.some((nodes) =>
+        _reaches(
+          nodes,
+          difference.keys,
+          [difference.original, difference.result].some(
+            (value) => value !== null && typeof value === 'object',
+          ),
+        ),
+      )
+        ? [index]
+        : [],
+    ),
+  }));
+}
@@ -0,0 +1,247 @@
+import { describe, expect, it } from 'vitest';
+import { ZodError } from 'zod';
+import {
+  fromJSON,
+  MappingPlanJSON,
+  MappingPlanJSONSchema,
+  MappingRegistry,
+  toJSON,
+} from './serialize.js';
+import {
+  MappingPlanRuleOrder,
+  MappingRuleFormatType,
+  MappingRuleParams,
+} from './plan.js';
+import { compile } from './compile.js';
+import { map, MAP_DIRECTION } from './execute.js';
+import { JSONType } from '../types.js';
+
+const registry: MappingRegistry = {
+  joinName: ([first, last]: string[]) => `${first} ${last}`,
+  splitName: (name: string) => name.split(' '),
+  isActive: (source: { active?: boolean }) => source.active === true,
+};
+
+const planJSON: MappingPlanJSON = {
+  rules: [
+    { left: 'id', right: 'userId' },
+    {
+      left: ['first', 'last'],
+      right: 'name',
+      transform: { toLeft: 'splitName', toRight: 'joinName' },
+    },
+    { right: 'version', literal: { major: 2 } },
+    {
+      left: 'status',
+      right: 'state',
+      format: {
+        type: MappingRuleFormatType.LOOKUP,
+        table: [
+          [1, 'on'],
+          [0, 'off'],
+        ],
+      },
+      default: { toRight: 0 },
+      when: {
+        toRight: 'isActive',
+        toLeft: { path: 'state', operator: '!=', value: null },
+      },
+    },
+  ],
+  order: { toLeft: MappingPlanRuleOrder.DESC },
+};
+
+describe('fromJSON()', () => {
+  it('should produce rules that compile to a working plan', () => {
+    const { rules, params } = fromJSON(planJSON, registry);
+    const plan = compile(rules, params);
+
+    expect(plan.toLeftOrder).toBe(MappingPlanRuleOrder.DESC);
+    expect(
+      map({ id: 1, first: 'Ann', last: 'Lee', active: true }, plan),
+    ).toStrictEqual({
+      userId: 1,
+      name: 'Ann Lee',
+      version: { major: 2 },
+      state: 'off',
+    });
+    expect(
+      map(
+        { userId: 1, name: 'Ann Lee', state: 'on' },
+        plan,
+        undefined,
+        MAP_DIRECTION.RightToLeft,
+      ),
+    ).toStrictEqual({ status: 1, first: 'Ann', last: 'Lee', id: 1 });
+  });
+
+  it('should resolve names to the functions in the registry', () => {
+    const { rules } = fromJSON(planJSON, registry);
+
+    expect(rules[1]).toStrictEqual({
+      left: ['first', 'last'],
+      right: 'name',
+      transform: { toLeft: registry.splitName, toRight: registry.joinName },
+    });
+    expect((rules[3] as { when: { toRight: unknown } }).when.toRight).toBe(
+      registry.isActive,
+    );
+  });
+
+  it('should not share values with the JSON', () => {
+    const json = globalThis.JSON.parse(
+      globalThis.JSON.stringify(planJSON),
+    ) as MappingPlanJSON;
+
+    const { rules } = fromJSON(json, registry);
+    (rules[2] as unknown as { literal: { major: number } }).literal.major = 3;
+
+    expect(json).toStrictEqual(planJSON);
+  });
+
+  it('should return no parameters for plans without an order', () => {
+    expect(fromJSON({ rules: [] }, {})).toStrictEqual({
+      rules: [],
+      params: {},
+    });
+  });
+
+  it('should throw on names that are not in the registry, naming the rule', () => {
+    expect(() => fromJSON(planJSON, {})).toThrow(
+      "Rule 1: Transform toLeft: Unknown function 'splitName'",
+    );
+    expect(() =>
+      fromJSON(
+        { rules: [{ left: 'a', right: 'b', when: { toLeft: 'toString' } }] },
+        registry,
+      ),
+    ).toThrow("Rule 0: When toLeft: Unknown function 'toString'");
+    expect(() =>
+      fromJSON(
+        {
+          rules: [
+            {
+              left: 'a',
+              right: 'b',
+              transform: { toLeft: 'splitName', toRight: 'version' },
+            },
+          ],
+        },
+        { ...registry, version: 2 } as unknown as MappingRegistry,
+      ),
+    ).toThrow("Rule 0: Transform toRight: Unknown function 'version'");
+  });
+
+  it('should throw on JSON that is not a plan', () => {
+    [
+      undefined,
+      {},
+      { rules: [{ left: 'a', right: 'b', plan: 'LinePlan' }] },
+      { rules: [{ left: 1 }] },
+      { rules: [{ left: 'a', right: 'b', transform: { toLeft: 'x' } }] },
+      {
+        rules: [
+          { left: 'a', right: 'b', transform: { toLeft: '', toRight: 'x' } },
+        ],
+      },
+      { rules: [{ left: 'a', right: 'b', format: { type: 'upper' } }] },
+      {
+        rules: [
+          {
+            left: 'a',
+            right: 'b',
+            format: { type: 'scale', factor: 10, precision: { toLeft: 0.5 } },
+          },
+        ],
+      },
+      {
+        rules: [
+          {
+            left: 'a',
+            right: 'b',
+            when: { toLeft: { path: 'a', operator: '=', value: 1 } },
+          },
+        ],
+      },
+      { rules: [], order: { toLeft: 'desc' } },
+    ].forEach((json) => {
+      expect(() => fromJSON(json, registry)).toThrow(ZodError);
+    });
+  });
+});
+
+describe('toJSON()', () => {
+  it('should write rules and parameters back as the same JSON', () => {
+    const { rules, params } = fromJSON(planJSON, registry);
+
+    const json = toJSON(rules, params, registry);
+
+    expect(json).toStrictEqual(planJSON);
+    expect(MappingPlanJSONSchema.parse(json)).toStrictEqual(json);
+  });
+
+  it('should write every format', () => {
+    const rules: MappingRuleParams<any, any>[] = [
+      {
+        left: 'a',
+        right: 'b',
+        format: {
+          type: MappingRuleFormatType.TIMESTAMP,
+          toLeft: 'iso8601',
+          toRight: 'yyyy-MM-dd',
+        },
+      },
+      {
+        left: 'c',
+        right: 'd',
+        format: { type: MappingRuleFormatType.SCALE, factor: 100 },
+      },
+    ];
+
+    expect(toJSON(rules, {}, {})).toStrictEqual({ rules });
+  });
+
+  it('should not share values with the rules', () => {
+    const rules: MappingRuleParams<any, any>[] = [
+      { right: 'a', literal: { b: 1 } },
+    ];
+
+    const json = toJSON(rules, {}, {});
+    (json.rules[0].literal as { b: number }).b = 2;
+
+    expect(rules[0]).toStrictEqual({ right: 'a', literal: { b: 1 } });
+  });
+
+  it('should throw on functions that are not in the registry, naming the rule', () => {
+    const transform = {
+      toLeft: (v: JSONType) => v,
+      toRight: registry.joinName,
+    };
+
+    expect(() =>
+      toJSON(
+        [
+          { left: 'a', right: 'b' },
+          { left: 'a', right: 'b', transform },
+        ],
+        {},
+        registry,
+      ),
+    ).toThrow('Rule 1: Transform toLeft: Function is not in the registry');
+    expect(() =>
+      toJSON(
+        [{ left: 'a', right: 'b', when: { toRight: () => true } }],
+        {},
+        registry,
+      ),
+    ).toThrow('Rule 0: When toRight: Function is not in the registry');
+  });
+
+  it('should throw on sub-plans', () => {
+    const plan = { map: (v: JSONType) => v, reverseMap: (v: JSONType) => v };
+
+    expect(() => toJSON([{ left: 'a', right: 'b', plan }], {}, {})).toThrow(
+      'Rule 0: Sub-plans can not be serialized',
+    );
+  });
+});
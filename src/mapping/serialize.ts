@@ -0,0 +1,309 @@
+import { z } from 'zod';
+import { clone } from '../schema.js';
+import { JSONSchema, JSONType } from '../types.js';
+import {
+  MappingPlanParams,
+  MappingPlanRuleOrder,
+  MappingRuleConditionComparison,
+  MappingRuleConditionParams,
+  MappingRuleFormatType,
+  MappingRuleParams,
+} from './plan.js';
+import { RoundingMode } from '../formatters/scale.js';
+import { KeyCase } from '../formatters/keyCase.js';
+
+/**
+ * Functions that serialized plans refer to by name, for transforms and for
+ * conditions.
+ */
+export type MappingRegistry = Record<string, (value: any) => any>;
+
+const PathJSONSchema = z.union([z.string(), z.array(z.string())]);
+
+// every name in a plan is looked up in the registry, so it must not be empty
+const FunctionNameJSONSchema = z.string().min(1);
+
+const LookupValueJSONSchema = z.union([
+  z.string(),
+  z.number(),
+  z.boolean(),
+  z.null(),
+]);
+
+const PerDirectionJSONSchema = <T extends z.ZodTypeAny>(schema: T) =>
+  z
+    .object({
+      toLeft: schema.optional(),
+      toRight: schema.optional(),
+    })
+    .strict();
+
+const ConditionJSONSchema = z.union([
+  FunctionNameJSONSchema,
+  z
+    .object({
+      path: z.string(),
+      operator: z.enum(['==', '!=', '<', '<=', '>', '>=']),
+      value: JSONSchema,
+    })
+    .strict(),
+]);
+
+const FormatJSONSchema = z.discriminatedUnion('type', [
+  z
+    .object({
+      type: z.literal(MappingRuleFormatType.TIMESTAMP),
+      toLeft: z.string(),
+      toRight: z.string(),
+    })
+    .strict(),
+  z
+    .object({
+      type: z.literal(MappingRuleFormatType.LOOKUP),
+      table: z.array(z.tuple([LookupValueJSONSchema, LookupValueJSONSchema])),
+      fallback: PerDirectionJSONSchema(JSONSchema).optional(),
+    })
+    .strict(),
+  z
+    .object({
+      type: z.literal(MappingRuleFormatType.SCALE),
+      factor: z.number().optional(),
+      units: z
+        .object({ left: z.string(), right: z.string() })
+        .strict()
+        .optional(),
+      precision: PerDirectionJSONSchema(z.number().int()).optional(),
+      rounding: z.nativeEnum(RoundingMode).optional(),
+      inverted: z.boolean().optional(),
+    })
+    .strict(),
+  z
+    .object({
+      type: z.literal(MappingRuleFormatType.KEY_CASE),
+      toLeft: z.nativeEnum(KeyCase),
+      toRight: z.nativeEnum(KeyCase),
+      except: z.array(z.string()).optional(),
+    })
+    .strict(),
+]);
+
+/**
+ * A rule as JSON. It has the same properties as the rule it stands for, with
+ * functions replaced by their names in the registry. Sub-plans have no JSON
+ * form.
+ */
+export const MappingRuleJSONSchema = z
+  .object({
+    left: PathJSONSchema.optional(),
+    right: PathJSONSchema.optional(),
+    literal: JSONSchema.optional(),
+    transform: z
+      .object({
+        toLeft: FunctionNameJSONSchema,
+        toRight: FunctionNameJSONSchema,
+      })
+      .strict()
+      .optional(),
+    format: FormatJSONSchema.optional(),
+    default: PerDirectionJSONSchema(JSONSchema).optional(),
+    when: PerDirectionJSONSchema(ConditionJSONSchema).optional(),
+  })
+  .strict();
+
+/**
+ * A plan as JSON, the rules and order of its parameters.
+ */
+export const MappingPlanJSONSchema = z
+  .object({
+    rules: z.array(MappingRuleJSONSchema),
+    order: PerDirectionJSONSchema(
+      z.nativeEnum(MappingPlanRuleOrder),
+    ).optional(),
+  })
+  .strict();
+
+export type MappingRuleJSON = z.infer<typeof MappingRuleJSONSchema>;
+
+export type MappingPlanJSON = z.infer<typeof MappingPlanJSONSchema>;
+
+const DIRECTIONS = ['toLeft', 'toRight'] as const;
+
+function _resolveFunction(
+  registry: MappingRegistry,
+  name: string,
+  label: string,
+): (value: any) => any {
+  if (!Object.hasOwn(registry, name) || typeof registry[name] !== 'function') {
+    throw new Error(`${label}: Unknown function '${name}'`);
+  }
+
+  return registry[name];
+}
+
+function _functionName(
+  names: Map<unknown, string>,
+  fn: unknown,
+  label: string,
+): string {
+  const name = names.get(fn);
+
+  if (name === undefined) {
+    throw new Error(`${label}: Function is not in the registry`);
+  }
+
+  return name;
+}
+
+function _ruleFromJSON(
+  json: MappingRuleJSON,
+  registry: MappingRegistry,
+): MappingRuleParams<any, any> {
+  const { transform, when, ...rest } = json;
+
+  // parsing already made a copy of the plan, so its parts can be used as they are
+  const rule: Record<string, unknown> = { ...rest };
+
+  if (transform) {
+    rule.transform = {
+      toLeft: _resolveFunction(registry, transform.toLeft, 'Transform toLeft'),
+      toRight: _resolveFunction(
+        registry,
+        transform.toRight,
+        'Transform toRight',
+      ),
+    };
+  }
+
+  if (when) {
+    const conditions: Record<string, MappingRuleConditionParams> = {};
+
+    DIRECTIONS.forEach((direction) => {
+      const condition = when[direction];
+
+      if (typeof condition === 'string') {
+        conditions[direction] = _resolveFunction(
+          registry,
+          condition,
+          `When ${direction}`,
+        );
+      } else if (condition) {
+        conditions[direction] = condition as MappingRuleConditionComparison;
+      }
+    });
+
+    rule.when = conditions;
+  }
+
+  // the schema and the registry already checked everything, the rule checks the rest when it is compiled
+  return rule as unknown as MappingRuleParams<any, any>;
+}
+
+function _ruleToJSON(
+  rule: MappingRuleParams<any, any>,
+  names: Map<unknown, string>,
+): MappingRuleJSON {
+  if ('plan' in rule) {
+    throw new Error('Sub-plans can not be serialized');
+  }
+
+  const { transform, when, ...rest } = rule as {
+    transform?: { toLeft: unknown; toRight: unknown };
+    when?: { toLeft?: unknown; toRight?: unknown };
+  };
+
+  const json: Record<string, unknown> = clone(rest as JSONType) as Record<
+    string,
+    unknown
+  >;
+
+  if (transform) {
+    json.transform = {
+      toLeft: _functionName(names, transform.toLeft, 'Transform toLeft'),
+      toRight: _functionName(names, transform.toRight, 'Transform toRight'),
+    };
+  }
+
+  if (when) {
+    const conditions: Record<string, unknown> = {};
+
+    DIRECTIONS.forEach((direction) => {
+      const condition = when[direction];
+
+      if (typeof condition === 'function') {
+        conditions[direction] = _functionName(
+          names,
+          condition,
+          `When ${direction}`,
+        );
+      } else if (condition) {
+        conditions[direction] = clone(condition as JSONType);
+      }
+    });
+
+    json.when = conditions;
+  }
+
+  return json as MappingRuleJSON;
+}
+
+/**
+ * Turns a plan in JSON into the rules and parameters to compile it from.
+ *
+ * @param {unknown} json - The plan, checked against MappingPlanJSONSchema.
+ * @param {MappingRegistry} registry - The functions the plan refers to by name.
+ * @return The rules and parameters of the plan.
+ * @throws {ZodError} If json is not a valid plan.
+ * @throws {Error} If a rule refers to a function that is not in the registry.
+ */
+export function fromJSON(
+  json: unknown,
+  registry: MappingRegistry,
+): { rules: MappingRuleParams<any, any>[]; params: MappingPlanParams } {
+  const plan = MappingPlanJSONSchema.parse(json);
+
+  const rules = plan.rules.map((rule, index) => {
+    try {
+      return _ruleFromJSON(rule, registry);
+    } catch (e) {
+      throw new Error(`Rule ${index}: ${(e as Error).message}`);
+    }
+  });
+
+  return { rules, params: plan.order ? { order: { ...plan.order } } : {} };
+}
+
+/**
+ * Turns the rules and parameters of a plan into JSON, the inverse of
+ * fromJSON().
+ *
+ * @param {MappingRuleParams[]} rules - The rules the plan was compiled from.
+ * @param {MappingPlanParams} params - The parameters the plan was compiled with.
+ * @param {MappingRegistry} registry - The functions to write by name.
+ * @return The plan as JSON.
+ * @throws {Error} If a rule has a function that is not in the registry, or a sub-plan.
+ */
+export function toJSON(
+  rules: MappingRuleParams<any, any>[],
+  params: MappingPlanParams,
+  registry: MappingRegistry,
+): MappingPlanJSON {
+  const names = new Map<unknown, string>(
+    Object.entries(registry).map(([name, fn]) => [fn, name]),
+  );
+
+  const json: MappingPlanJSON = {
+    rules: rules.map((rule, index) => {
+      try {
+        return _ruleToJSON(rule, names);
+      } catch (e) {
+        throw new Error(`Rule ${index}: ${(e as Error).message}`);
+      }
+    }),
+  };
+
+  if (params.order) {
+    json.order = { ...params.order };
+  }
+
+  return json;
+}
@@ -0,0 +1,5 @@
+import { Path } from './index.js';
+
+import { createTests } from '../test/harness/path.harness.js';
+
+createTests(Path);
@@ -0,0 +1,122 @@
+import { JSONType } from './types.js';
+import { clone } from './helpers.js';
+import { Parser } from './mapping/parser/core.js';
+import {
+  bindPathVariables,
+  extractValue,
+  injectValue,
+} from './mapping/parser/utilities.js';
+import { PathSegment } from './mapping/parser/ast/types.js';
+import { PathVariables } from './mapping/parser/ast/variables.js';
+import {
+  PathSegmentNode,
+  stringifyNodes,
+  toNodes,
+} from './mapping/parser/nodes.js';
+
+export type {
+  FieldNode,
+  FieldSelectionNode,
+  FieldsNode,
+  WildcardNode,
+  EntriesNode,
+  RecursiveDescentNode,
+  IndexNode,
+  SliceNode,
+  KeyNode,
+  FieldVariableNode,
+  IndexVariableNode,
+  KeyVariableNode,
+  FilterNode,
+  FilterFieldOperandNode,
+  FilterLiteralOperandNode,
+  FilterOperandNode,
+  FilterComparisonNode,
+  FilterTruthyNode,
+  FilterNotNode,
+  FilterLogicalNode,
+  FilterExpressionNode,
+  PathSegmentNode as Segment,
+} from './mapping/parser/nodes.js';
+
+export type { PathVariables as Variables } from './mapping/parser/ast/variables.js';
+
+function _parsePath(
+  path: string | PathSegmentNode[],
+  variables: PathVariables | undefined,
+): PathSegment[] {
+  // nodes go through their canonical string, so they are held to exactly the same grammar as strings
+  const text = typeof path === 'string' ? path : stringifyNodes(path);
+
+  return bindPathVariables(text, new Parser(text).parsePath(), variables);
+}
+
+/**
+ * Parses a path expression into plain data nodes, one per segment.
+ *
+ * The nodes are JSON serializable and carry no behaviour, which makes them
+ * suitable for inspecting, storing or generating paths.
+ *
+ * @param {string} path - The path expression, using the same grammar as mapping rules.
+ * @return {Segment[]} The nodes of the path, in order.
+ * @throws {Error} If the path is not a valid path expression.
+ */
+export function parse(path: string): PathSegmentNode[] {
+  return toNodes(new Parser(path).parsePath());
+}
+
+/**
+ * Writes path nodes as a canonical path expression.
+ *
+ * Canonical means that equivalent paths always produce the same string, for
+ * example field names are only quoted when they have to be. Parsing the
+ * result produces the same nodes again.
+ *
+ * @param {Segment[]} path - The path nodes, in order.
+ * @return {string} The canonical path expression.
+ * @throws {Error} If the nodes can not be written as a path expression.
+ */
+export function stringify(path: PathSegmentNode[]): string {
+  return stringifyNodes(path);
+}
+
+/**
+ * Reads the value at a path.
+ *
+ * @param {JSONType} source - The value to read from.
+ * @param {string | Segment[]} path - A path expression, or the nodes of one.
+ * @param {Variables} [variables] - Values for the "$name" variables in path.
+ * @return {JSONType} The value at the path, undefined if it does not exist.
+ * @throws {Error} If the path is invalid, has an unbound variable, or can not be read from source.
+ */
+export function get(
+  source: JSONType,
+  path: string | PathSegmentNode[],
+  variables?: PathVariables,
+): JSONType | undefined {
+  return extractValue(source, _parsePath(path, variables));
+}
+
+/**
+ * Writes a value at a path, creating any missing objects and arrays on the
+ * way. The destination is not modified, a changed copy is returned.
+ *
+ * @param {JSONType} destination - The value to write into.
+ * @param {string | Segment[]} path - A path expression, or the nodes of one.
+ * @param {JSONType} value - The value to write.
+ * @param {Variables} [variables] - Values for the "$name" variables in path.
+ * @return {JSONType} A copy of destination with value written at the path.
+ * @throws {Error} If the path is invalid, has an unbound variable, or can not be written to.
+ */
+export function set(
+  destination: JSONType | undefined,
+  path: string | PathSegmentNode[],
+  value: JSONType | undefined,
+  variables?: PathVariables,
+): JSONType | undefined {
+  return injectValue(
+    destination === undefined ? undefined : clone(destination),
+    value,
+    _parsePath(path, variables),
+  );
+}
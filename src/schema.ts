@@ -20,7 +20,8 @@ import {
   NoInferPartial,
 } from './types.js';
 import { z } from 'zod';
-import { extractValue } from './mapping/parser/utilities.js';
+import { bindPathVariables, extractValue } from './mapping/parser/utilities.js';
+import { PathVariables } from './mapping/parser/ast/variables.js';
 import { Parser } from './mapping/parser/core.js';
 
 export const clone = helperClone;
@@ -154,6 +155,7 @@ export function validate<TargetSchema extends z.ZodType<unknown, any, unknown>>(
  * @param {Object} [options] - Additional options to process the extraction.
  * @param {NoInferPartial<JSONType>} [options.defaults] - Default values to merge into the extracted result if certain values are missing.
  * @param {NoInferPartial<JSONType>} [options.overrides] - Override values to take precedence after extraction. Replaces source value even if it exists.
+ * @param {PathVariables} [options.variables] - Values for the "$name" variables in path.
  * @return {JSONType} - The value extracted from the source, after optional merging with defaults or overrides, and validated against the schema.
  */
 export function extract<T extends z.ZodType<unknown, any, unknown>>(
@@ -163,9 +165,14 @@ export function extract<T extends z.ZodType<unknown, any, unknown>>(
   options?: {
     defaults?: NoInferPartial<z.infer<T>> | Primitive;
     overrides?: NoInferPartial<z.infer<T>> | Primitive;
+    variables?: PathVariables;
   },
 ): z.infer<typeof schema> {
-  const parsedPath = new Parser(path).parsePath();
+  const parsedPath = bindPathVariables(
+    path,
+    new Parser(path).parsePath(),
+    options?.variables,
+  );
 
   let current = extractValue(source, parsedPath);
 
@@ -18,6 +18,10 @@ describe('index.ts', () => {
     expect(Index.JSON).toBeDefined();
   });
 
+  it('should export Path module', () => {
+    expect(Index.Path).toBeDefined();
+  });
+
   // Note: We don't test for specific types from the Types module
   // because TypeScript types are erased at runtime.
   // The TypeScript compiler will check these types during development and build.
@@ -59,4 +63,18 @@ describe('index.ts', () => {
     expect(Index.JSON.stringify).toBeDefined();
     expect(typeof Index.JSON.stringify).toBe('function');
   });
+
+  it('should export specific functions from Path module', () => {
+    expect(Index.Path.parse).toBeDefined();
+    expect(typeof Index.Path.parse).toBe('function');
+
+    expect(Index.Path.stringify).toBeDefined();
+    expect(typeof Index.Path.stringify).toBe('function');
+
+    expect(Index.Path.get).toBeDefined();
+    expect(typeof Index.Path.get).toBe('function');
+
+    expect(Index.Path.set).toBeDefined();
+    expect(typeof Index.Path.set).toBe('function');
+  });
 });
@@ -0,0 +1,6 @@
+import { Path } from '../../dist/index.js';
+import { Path as TestPath } from '../../src/index.js';
+
+import { createTests } from '../harness/path.harness.js';
+
+createTests(Path as typeof TestPath);
@@ -1,9 +1,25 @@
-import { describe, expect, it } from 'vitest';
+import { describe, expect, it, vi } from 'vitest';
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { Readable } from 'node:stream';
+import { pipeline } from 'node:stream/promises';
+import { pathToFileURL } from 'node:url';
 import { z } from 'zod';
 import { Mapping as TestMapping } from '../../src/index.js';
+import { JSONType } from '../../src/types.js';
 
 export function createTests(Mapping: typeof TestMapping) {
-  const { compilePlan, Plan, PlanRuleOrder } = Mapping;
+  const {
+    compilePlan,
+    compose,
+    loadPlan,
+    MapDirection,
+    MappingError,
+    Plan,
+    PlanRuleOrder,
+    PlanJSONSchema,
+  } = Mapping;
 
   // Define test schemas for left and right sides
   const LeftObjectSchema = z.object({
@@ -145,5 +161,1256 @@ export function createTests(Mapping: typeof TestMapping) {
 
       LeftObjectSchema.parse(leftObject);
     });
+
+    it('should bind variables in both directions', () => {
+      const plan = compilePlan({
+        rules: [
+          { left: 'labels.$locale', right: 'label' },
+          { left: 'lines[sku=$sku].qty', right: 'quantity' },
+        ],
+        leftSchema: z.object({
+          labels: z.record(z.string()),
+          lines: z.array(z.object({ sku: z.string(), qty: z.number() })),
+        }),
+        rightSchema: z.object({ label: z.string(), quantity: z.number() }),
+      });
+      const variables = { locale: 'fr', sku: 'A-1' };
+
+      const right = plan.map(
+        {
+          labels: { en: 'Hello', fr: 'Bonjour' },
+          lines: [
+            { sku: 'B-2', qty: 1 },
+            { sku: 'A-1', qty: 3 },
+          ],
+        },
+        undefined,
+        { variables },
+      );
+
+      expect(right).toStrictEqual({ label: 'Bonjour', quantity: 3 });
+      expect(plan.reverseMap(right, undefined, { variables })).toStrictEqual({
+        labels: { fr: 'Bonjour' },
+        lines: [{ sku: 'A-1', qty: 3 }],
+      });
+    });
+
+    it('should only run rules whose condition holds', () => {
+      const plan = compilePlan({
+        rules: [
+          { left: 'fulfillment', right: 'method' },
+          {
+            left: 'address',
+            right: 'shipTo',
+            when: {
+              toRight: { path: 'fulfillment', operator: '==', value: 'ship' },
+              toLeft: (right) =>
+                (right as { method: string }).method === 'ship',
+            },
+          },
+        ],
+        leftSchema: z.object({
+          fulfillment: z.string(),
+          address: z.string().optional(),
+        }),
+        rightSchema: z.object({
+          method: z.string(),
+          shipTo: z.string().optional(),
+        }),
+      });
+
+      expect(
+        plan.map({ fulfillment: 'ship', address: 'Austin' }),
+      ).toStrictEqual({ method: 'ship', shipTo: 'Austin' });
+      expect(
+        plan.map({ fulfillment: 'pickup', address: 'Austin' }),
+      ).toStrictEqual({ method: 'pickup' });
+      expect(
+        plan.reverseMap({ method: 'pickup', shipTo: 'Austin' }),
+      ).toStrictEqual({ fulfillment: 'pickup' });
+    });
+
+    it('should translate values through a lookup table in both directions', () => {
+      const plan = compilePlan({
+        rules: [
+          {
+            left: 'status',
+            right: 'state',
+            format: {
+              type: Mapping.FormatType.LOOKUP,
+              table: [
+                [1, 'active'],
+                [0, 'inactive'],
+              ],
+              fallback: { toLeft: -1 },
+            },
+          },
+        ],
+        leftSchema: z.object({ status: z.number() }),
+        rightSchema: z.object({ state: z.string() }),
+      });
+
+      expect(plan.map({ status: 1 })).toStrictEqual({ state: 'active' });
+      expect(plan.reverseMap({ state: 'inactive' })).toStrictEqual({
+        status: 0,
+      });
+      expect(plan.reverseMap({ state: 'paused' })).toStrictEqual({
+        status: -1,
+      });
+      expect(() => plan.map({ status: 2 })).toThrow(
+        'Rule 0: No lookup entry for left value 2',
+      );
+      expect(() =>
+        compilePlan({
+          rules: [
+            {
+              left: 'status',
+              right: 'state',
+              format: {
+                type: Mapping.FormatType.LOOKUP,
+                table: [
+                  [1, 'active'],
+                  [1, 'enabled'],
+                ],
+              },
+            },
+          ],
+          leftSchema: z.object({ status: z.number() }),
+          rightSchema: z.object({ state: z.string() }),
+        }),
+      ).toThrow('Rule 0: Format: Lookup entry 1 has duplicate left value 1');
+    });
+
+    it('should convert units in both directions', () => {
+      const plan = compilePlan({
+        rules: [
+          {
+            left: 'total',
+            right: 'totalCents',
+            format: { type: Mapping.FormatType.SCALE, factor: 100 },
+          },
+          {
+            left: 'weight',
+            right: 'weightLb',
+            format: {
+              type: Mapping.FormatType.SCALE,
+              units: { left: 'kg', right: 'lb' },
+              precision: { toRight: 2, toLeft: 3 },
+              rounding: Mapping.Formatting.Rounding.HALF_EVEN,
+            },
+          },
+        ],
+        leftSchema: z.object({ total: z.number(), weight: z.number() }),
+        rightSchema: z.object({ totalCents: z.number(), weightLb: z.number() }),
+      });
+
+      expect(plan.map({ total: 0.29, weight: 2 })).toStrictEqual({
+        totalCents: 29,
+        weightLb: 4.41,
+      });
+      expect(
+        plan.reverseMap({ totalCents: 1005, weightLb: 4.41 }),
+      ).toStrictEqual({ total: 10.05, weight: 2 });
+    });
+
+    it('should convert the case of keys in both directions', () => {
+      const plan = compilePlan({
+        rules: [
+          {
+            left: 'order',
+            right: 'order',
+            format: {
+              type: Mapping.FormatType.KEY_CASE,
+              toLeft: Mapping.Formatting.KeyCase.SNAKE,
+              toRight: Mapping.Formatting.KeyCase.CAMEL,
+            },
+          },
+        ],
+        leftSchema: z.object({
+          order: z.object({
+            order_id: z.number(),
+            line_items: z.array(z.object({ unit_price: z.number() })),
+          }),
+        }),
+        rightSchema: z.object({
+          order: z.object({
+            orderId: z.number(),
+            lineItems: z.array(z.object({ unitPrice: z.number() })),
+          }),
+        }),
+      });
+
+      const snake = { order: { order_id: 1, line_items: [{ unit_price: 5 }] } };
+      const camel = { order: { orderId: 1, lineItems: [{ unitPrice: 5 }] } };
+
+      expect(plan.map(snake)).toStrictEqual(camel);
+      expect(plan.reverseMap(camel)).toStrictEqual(snake);
+    });
+
+    it('should combine several fields into one and split them back', () => {
+      const plan = compilePlan({
+        rules: [
+          {
+            left: ['firstName', 'lastName'],
+            right: 'fullName',
+            transform: {
+              toRight: ([first, last]: string[]) => `${first} ${last}`,
+              toLeft: (fullName: string) => fullName.split(' '),
+            },
+          },
+        ],
+        leftSchema: z.object({ firstName: z.string(), lastName: z.string() }),
+        rightSchema: z.object({ fullName: z.string() }),
+      });
+
+      expect(plan.map({ firstName: 'Ann', lastName: 'Lee' })).toStrictEqual({
+        fullName: 'Ann Lee',
+      });
+      expect(plan.reverseMap({ fullName: 'Bo Chen' })).toStrictEqual({
+        firstName: 'Bo',
+        lastName: 'Chen',
+      });
+    });
+
+    it('should map nested values with other plans, including itself', () => {
+      type Comment = { text: string; replies: Comment[] };
+      type Thread = { body: string; children: Thread[] };
+
+      const CommentSchema: z.ZodType<Comment> = z.lazy(() =>
+        z.object({ text: z.string(), replies: z.array(CommentSchema) }),
+      );
+      const ThreadSchema: z.ZodType<Thread> = z.lazy(() =>
+        z.object({ body: z.string(), children: z.array(ThreadSchema) }),
+      );
+
+      const CommentPlan: TestMapping.SubPlan = compilePlan({
+        rules: [
+          { left: 'text', right: 'body' },
+          { left: 'replies', right: 'children', plan: () => CommentPlan },
+        ],
+        leftSchema: CommentSchema,
+        rightSchema: ThreadSchema,
+      });
+
+      const PostPlan = compilePlan({
+        rules: [
+          { left: 'title', right: 'headline' },
+          { left: 'comments', right: 'threads', plan: CommentPlan },
+        ],
+        leftSchema: z.object({
+          title: z.string(),
+          comments: z.array(CommentSchema),
+        }),
+        rightSchema: z.object({
+          headline: z.string(),
+          threads: z.array(ThreadSchema),
+        }),
+      });
+
+      const post = {
+        title: 'Hello',
+        comments: [
+          {
+            text: 'first',
+            replies: [{ text: 'reply', replies: [] }],
+          },
+        ],
+      };
+      const mapped = {
+        headline: 'Hello',
+        threads: [
+          {
+            body: 'first',
+            children: [{ body: 'reply', children: [] }],
+          },
+        ],
+      };
+
+      expect(PostPlan.map(post)).toStrictEqual(mapped);
+      expect(PostPlan.reverseMap(mapped)).toStrictEqual(post);
+    });
+
+    it('should load plans from JSON and write them back', () => {
+      const registry = {
+        toBoolean: (value: number) => value === 1,
+        toNumber: (value: boolean) => (value ? 1 : 0),
+      };
+
+      const json = `{
+        "rules": [
+          { "left": "id", "right": "identifier" },
+          { "left": "active", "right": "isActive", "transform": { "toLeft": "toNumber", "toRight": "toBoolean" } },
+          { "left": "role", "right": "roleName", "format": { "type": "lookup", "table": [[1, "admin"], [2, "user"]] } },
+          { "right": "source", "literal": "legacy" }
+        ],
+        "order": { "toLeft": 1 }
+      }`;
+
+      const plan = loadPlan(json, {
+        registry,
+        leftSchema: z.object({
+          id: z.number(),
+          active: z.number(),
+          role: z.number(),
+        }),
+        rightSchema: z.object({
+          identifier: z.number(),
+          isActive: z.boolean(),
+          roleName: z.string(),
+          source: z.string(),
+        }),
+      });
+
+      expect(plan).toBeInstanceOf(Plan);
+      expect(plan.map({ id: 1, active: 1, role: 2 })).toStrictEqual({
+        identifier: 1,
+        isActive: true,
+        roleName: 'user',
+        source: 'legacy',
+      });
+      expect(
+        plan.reverseMap({
+          identifier: 1,
+          isActive: false,
+          roleName: 'admin',
+          source: 'legacy',
+        }),
+      ).toStrictEqual({ role: 1, active: 0, id: 1 });
+
+      expect(
+        globalThis.JSON.parse(globalThis.JSON.stringify(plan)),
+      ).toStrictEqual(globalThis.JSON.parse(json));
+      expect(PlanJSONSchema.parse(plan.toJSON())).toStrictEqual(plan.toJSON());
+    });
+
+    it('should write plans compiled with a registry as JSON and load them back', () => {
+      const registry = {
+        toCents: (value: number) => Math.round(value * 100),
+        toAmount: (value: number) => value / 100,
+        hasAmount: (value: JSONType) =>
+          typeof (value as { amount?: unknown }).amount === 'number',
+      };
+      const schemas = {
+        leftSchema: z.object({ amount: z.number().optional() }),
+        rightSchema: z.object({ cents: z.number().optional() }),
+      };
+
+      const plan = compilePlan({
+        rules: [
+          {
+            left: 'amount',
+            right: 'cents',
+            transform: {
+              toRight: registry.toCents,
+              toLeft: registry.toAmount,
+            },
+            when: { toRight: registry.hasAmount },
+          },
+        ],
+        registry,
+        ...schemas,
+      });
+
+      expect(plan.toJSON()).toStrictEqual({
+        rules: [
+          {
+            left: 'amount',
+            right: 'cents',
+            transform: { toRight: 'toCents', toLeft: 'toAmount' },
+            when: { toRight: 'hasAmount' },
+          },
+        ],
+      });
+
+      const loaded = loadPlan(plan.toJSON(), { registry, ...schemas });
+
+      expect(loaded.map({ amount: 12.5 })).toStrictEqual(
+        plan.map({ amount: 12.5 }),
+      );
+      expect(loaded.reverseMap({ cents: 1250 })).toStrictEqual({
+        amount: 12.5,
+      });
+    });
+
+    it('should only write plans whose functions are in the registry as JSON', () => {
+      const plan = compilePlan({
+        rules: [
+          { left: 'a', right: 'b', literal: 1 },
+          {
+            left: 'c',
+            right: 'd',
+            transform: { toLeft: (v: number) => v, toRight: (v: number) => v },
+          },
+        ],
+        leftSchema: z.object({ a: z.number(), c: z.number() }),
+        rightSchema: z.object({ b: z.number(), d: z.number() }),
+      });
+
+      expect(() => plan.toJSON()).toThrow(
+        'Rule 1: Transform toLeft: Function is not in the registry',
+      );
+      expect(() =>
+        compilePlan({
+          rules: [
+            {
+              left: 'c',
+              right: 'd',
+              transform: {
+                toLeft: (v: number) => v,
+                toRight: (v: number) => v,
+              },
+            },
+          ],
+          leftSchema: z.object({ c: z.number() }),
+          rightSchema: z.object({ d: z.number() }),
+          registry: { same: (v: number) => v },
+        }).toJSON(),
+      ).toThrow('Rule 0: Transform toLeft: Function is not in the registry');
+      expect(
+        compilePlan({
+          rules: [{ left: 'a', right: 'b' }],
+          leftSchema: z.object({ a: z.number() }),
+          rightSchema: z.object({ b: z.number() }),
+          order: { toRight: PlanRuleOrder.DESC },
+        }).toJSON(),
+      ).toStrictEqual({
+        rules: [{ left: 'a', right: 'b' }],
+        order: { toRight: PlanRuleOrder.DESC },
+      });
+    });
+
+    it('should throw on JSON that is not a valid plan', () => {
+      const schemas = {
+        leftSchema: z.object({ a: z.number() }),
+        rightSchema: z.object({ b: z.number() }),
+      };
+
+      expect(() => loadPlan('{"rules": [{"left": 1}]}', schemas)).toThrow();
+      expect(() =>
+        loadPlan(
+          {
+            rules: [
+              {
+                left: 'a',
+                right: 'b',
+                transform: { toLeft: 'x', toRight: 'y' },
+              },
+            ],
+          },
+          schemas,
+        ),
+      ).toThrow("Rule 0: Transform toLeft: Unknown function 'x'");
+      expect(() =>
+        loadPlan({ rules: [{ left: 'a[', right: 'b' }] }, schemas),
+      ).toThrow('Rule 0: Left: Parse error');
+    });
+
+    it('should throw on unbound variables, naming the rule', () => {
+      const plan = compilePlan({
+        rules: [{ left: 'labels.$locale', right: 'label' }],
+        leftSchema: z.object({ labels: z.record(z.string()) }),
+        rightSchema: z.object({ label: z.string() }),
+      });
+
+      expect(() => plan.map({ labels: {} })).toThrow(
+        "Rule 0: Left: Unbound variable '$locale'",
+      );
+
+      // a field named like a variable is not read instead
+      expect(() => plan.map({ labels: { $locale: 'fr' } })).toThrow(
+        "Rule 0: Left: Unbound variable '$locale'",
+      );
+    });
+
+    it('should map fields starting with "$" that are quoted or escaped', () => {
+      const SchemaSchema = z.object({
+        schema: z.object({ $ref: z.string(), $id: z.string() }),
+      });
+      const ReferenceSchema = z.object({ ref: z.string(), id: z.string() });
+
+      const plan = compilePlan({
+        rules: [
+          { left: 'schema["$ref"]', right: 'ref' },
+          { left: 'schema.\\$id', right: 'id' },
+        ],
+        leftSchema: SchemaSchema,
+        rightSchema: ReferenceSchema,
+      });
+      const schema = { schema: { $ref: '#/defs/user', $id: 'user' } };
+
+      expect(plan.map(schema)).toStrictEqual({
+        ref: '#/defs/user',
+        id: 'user',
+      });
+      expect(plan.reverseMap({ ref: '#/defs/user', id: 'user' })).toStrictEqual(
+        schema,
+      );
+      expect(
+        loadPlan(plan.toJSON(), {
+          leftSchema: SchemaSchema,
+          rightSchema: ReferenceSchema,
+        }).map(schema),
+      ).toStrictEqual({ ref: '#/defs/user', id: 'user' });
+    });
+
+    it('should trace what each rule did', () => {
+      const plan = compilePlan({
+        rules: validMappingRules,
+        leftSchema: LeftObjectSchema,
+        rightSchema: RightObjectSchema,
+      });
+
+      const trace: TestMapping.RuleTrace[] = [];
+
+      expect(
+        plan.map(validLeftObject, { user: 'jane doe' }, { trace }),
+      ).toStrictEqual({ ...validRightObject, user: 'jane doe' });
+      expect(
+        trace.map(({ index, source, target, origin }) => ({
+          index,
+          source,
+          target,
+          origin,
+        })),
+      ).toStrictEqual([
+        { index: 0, source: 'id', target: 'identifier', origin: 'source' },
+        { index: 1, source: 'username', target: 'user', origin: 'override' },
+        { index: 2, source: 'dob', target: 'dob', origin: 'source' },
+        { index: 3, source: 'age', target: 'yearsOld', origin: 'source' },
+        { index: 4, source: 'isActive', target: 'active', origin: 'source' },
+        {
+          index: 5,
+          source: undefined,
+          target: 'extraInfo',
+          origin: 'literal',
+        },
+      ]);
+      expect(trace[2]).toMatchObject({
+        applied: true,
+        extracted: '03/02/1981',
+        value: '1981-03-02',
+      });
+
+      const reverseTrace: TestMapping.RuleTrace[] = [];
+
+      plan.reverseMap(validRightObject, undefined, { trace: reverseTrace });
+
+      expect(reverseTrace.map(({ target }) => target)).toStrictEqual([
+        'id',
+        'username',
+        'dob',
+        'age',
+        'isActive',
+      ]);
+    });
+
+    it('should collect every failing rule into one error', () => {
+      const toNumber = (value: string): number => {
+        if (!/^\d+$/.test(value)) {
+          throw new Error(`'${value}' is not a number`);
+        }
+
+        return Number(value);
+      };
+
+      const plan = compilePlan({
+        rules: [
+          {
+            left: 'quantity',
+            right: 'qty',
+            transform: { toRight: toNumber, toLeft: String },
+          },
+          {
+            left: 'price',
+            right: 'cents',
+            transform: { toRight: toNumber, toLeft: String },
+          },
+          { left: 'sku', right: 'code' },
+        ],
+        leftSchema: z.object({
+          quantity: z.string(),
+          price: z.string(),
+          sku: z.string(),
+        }),
+        rightSchema: z.object({
+          qty: z.number(),
+          cents: z.number(),
+          code: z.string(),
+        }),
+      });
+
+      const record = { quantity: 'two', price: '1.5', sku: 'A-1' };
+
+      expect(() => plan.map(record)).toThrow("'two' is not a number");
+
+      let error: unknown;
+
+      try {
+        plan.map(record, undefined, { collectErrors: true });
+      } catch (e) {
+        error = e;
+      }
+
+      expect(error).toBeInstanceOf(MappingError);
+      expect((error as TestMapping.MappingError).message).toBe(
+        [
+          '2 rules failed:',
+          "Rule 0 toRight: 'two' is not a number",
+          "Rule 1 toRight: '1.5' is not a number",
+        ].join('\n'),
+      );
+      expect((error as TestMapping.MappingError).failures).toStrictEqual([
+        {
+          index: 0,
+          direction: 'toRight',
+          source: 'quantity',
+          target: 'qty',
+          cause: new Error("'two' is not a number"),
+        },
+        {
+          index: 1,
+          direction: 'toRight',
+          source: 'price',
+          target: 'cents',
+          cause: new Error("'1.5' is not a number"),
+        },
+      ]);
+      expect(
+        plan.map({ quantity: '2', price: '150', sku: 'A-1' }, undefined, {
+          collectErrors: true,
+        }),
+      ).toStrictEqual({ qty: 2, cents: 150, code: 'A-1' });
+    });
+
+    it('should find what a round trip through a plan loses', () => {
+      const plan = compilePlan({
+        rules: validMappingRules,
+        leftSchema: LeftObjectSchema,
+        rightSchema: RightObjectSchema,
+      });
+
+      expect(plan.checkRoundTrip(validLeftObject)).toStrictEqual({
+        equal: true,
+        result: validLeftObject,
+        differences: [],
+      });
+
+      // extraInfo is a literal, it is not mapped back
+      const report = plan.checkRoundTrip(
+        { ...validRightObject, extraInfo: 'Changed' },
+        { direction: MapDirection.RightToLeft },
+      );
+
+      expect(report.equal).toBe(false);
+      expect(report.result).toStrictEqual(validRightObject);
+      expect(report.differences).toStrictEqual([
+        {
+          path: 'extraInfo',
+          original: 'Changed',
+          result: 'Additional information',
+          rules: [5],
+        },
+      ]);
+
+      const labels = compilePlan({
+        rules: [{ left: 'labels.$locale', right: 'label' }],
+        leftSchema: z.object({ labels: z.record(z.string()) }),
+        rightSchema: z.object({ label: z.string() }),
+      });
+
+      expect(
+        labels.checkRoundTrip(
+          { labels: { en: 'Hello', fr: 'Bonjour' } },
+          { variables: { locale: 'fr' } },
+        ).differences,
+      ).toStrictEqual([
+        { path: 'labels.en', original: 'Hello', result: undefined, rules: [0] },
+      ]);
+      expect(() =>
+        plan.checkRoundTrip(validRightObject, {
+          direction: MapDirection.LeftToRight,
+        }),
+      ).toThrow();
+    });
+
+    it('should blame the rules of the plan that loses a value in composed plans', () => {
+      const AccountSchema = z.object({
+        account: z.object({ id: z.number() }),
+        name: z.string(),
+      });
+
+      const composed = compose(
+        compilePlan({
+          rules: [
+            { left: 'customerId', right: 'account.id' },
+            { left: 'name', right: 'name' },
+          ],
+          leftSchema: z.object({ customerId: z.number(), name: z.string() }),
+          rightSchema: AccountSchema,
+        }),
+        compilePlan({
+          rules: [
+            { left: 'account.id', right: 'id' },
+            {
+              left: 'name',
+              right: 'name',
+              transform: {
+                toRight: (name: string) => name.toUpperCase(),
+                toLeft: (name: string) => name.toLowerCase(),
+              },
+            },
+          ],
+          leftSchema: AccountSchema,
+          rightSchema: z.object({ id: z.number(), name: z.string() }),
+        }),
+        { validateMiddle: true },
+      );
+
+      // the second plan loses the case of the name, the first one maps it back as it gets it
+      expect(
+        composed.checkRoundTrip({ customerId: 7, name: 'Ann' }),
+      ).toStrictEqual({
+        equal: false,
+        result: { customerId: 7, name: 'ann' },
+        differences: [
+          {
+            path: 'name',
+            original: 'Ann',
+            result: 'ann',
+            rules: [1],
+            stage: 1,
+          },
+        ],
+      });
+      expect(
+        composed.checkRoundTrip(
+          { id: 7, name: 'ANN' },
+          { direction: MapDirection.RightToLeft },
+        ).differences,
+      ).toStrictEqual([]);
+    });
+
+    it('should invert plans', () => {
+      const plan = compilePlan({
+        rules: validMappingRules,
+        leftSchema: LeftObjectSchema,
+        rightSchema: RightObjectSchema,
+        order: { toRight: PlanRuleOrder.DESC },
+      });
+
+      const inverted = plan.invert();
+
+      expect(inverted).toBeInstanceOf(Plan);
+      expect(inverted.map(validRightObject)).toStrictEqual(
+        plan.reverseMap(validRightObject),
+      );
+      expect(inverted.reverseMap(validLeftObject)).toStrictEqual(
+        validRightObject,
+      );
+      expect(inverted.invert().map(validLeftObject)).toStrictEqual(
+        validRightObject,
+      );
+      expect(() => inverted.map(validLeftObject as any)).toThrow();
+    });
+
+    it('should compose plans, merging their rules where possible', () => {
+      const CustomerSchema = z.object({
+        customerId: z.number(),
+        balance: z.number(),
+      });
+      const AccountSchema = z.object({
+        account: z.object({ id: z.number() }),
+        cents: z.number().int(),
+      });
+      const ReportSchema = z.object({ id: z.string(), amount: z.string() });
+
+      const customerRules = [
+        { left: 'customerId', right: 'account.id' },
+        {
+          left: 'balance',
+          right: 'cents',
+          transform: {
+            toRight: (value: number) => value * 100,
+            toLeft: (value: number) => value / 100,
+          },
+        },
+      ];
+      const reportRules = [
+        {
+          left: 'account.id',
+          right: 'id',
+          transform: { toRight: String, toLeft: Number },
+        },
+        {
+          left: 'cents',
+          right: 'amount',
+          transform: { toRight: String, toLeft: Number },
+        },
+      ];
+
+      const customerToAccount = compilePlan({
+        rules: customerRules,
+        leftSchema: CustomerSchema,
+        rightSchema: AccountSchema,
+      });
+
+      const accountToReport = compilePlan({
+        rules: reportRules,
+        leftSchema: AccountSchema,
+        rightSchema: ReportSchema,
+      });
+
+      // every account field is written by one rule and read by one, so these plans are merged
+      const merged = compose(customerToAccount, accountToReport);
+
+      expect(merged).toBeInstanceOf(Plan);
+      expect(() => merged.toModule()).not.toThrow();
+      expect(merged.map({ customerId: 7, balance: 12.5 })).toStrictEqual({
+        id: '7',
+        amount: '1250',
+      });
+      expect(merged.reverseMap({ id: '7', amount: '1250' })).toStrictEqual({
+        customerId: 7,
+        balance: 12.5,
+      });
+
+      // the account is never built, so it is not validated either
+      expect(merged.map({ customerId: 7, balance: 0.001 })).toStrictEqual({
+        id: '7',
+        amount: '0.1',
+      });
+
+      // unless the plans are asked to run one after the other
+      const validated = compose(customerToAccount, accountToReport, {
+        validateMiddle: true,
+      });
+
+      expect(validated.map({ customerId: 7, balance: 12.5 })).toStrictEqual({
+        id: '7',
+        amount: '1250',
+      });
+      expect(() => validated.map({ customerId: 7, balance: 0.001 })).toThrow(
+        z.ZodError,
+      );
+      expect(() => validated.toModule()).toThrow(
+        'Composed plans that could not be merged can not be generated',
+      );
+
+      // plans with a literal that does not come from the account are never merged
+      const sequential = compose(
+        customerToAccount,
+        compilePlan({
+          rules: [
+            {
+              left: 'account.id',
+              right: 'id',
+              transform: { toRight: String, toLeft: Number },
+            },
+            {
+              left: 'cents',
+              right: 'amount',
+              transform: { toRight: String, toLeft: Number },
+            },
+            { right: 'source', literal: 'ledger' },
+          ],
+          leftSchema: AccountSchema,
+          rightSchema: ReportSchema.extend({ source: z.string() }),
+        }),
+      );
+
+      expect(sequential.map({ customerId: 7, balance: 12.5 })).toStrictEqual({
+        id: '7',
+        amount: '1250',
+        source: 'ledger',
+      });
+      expect(
+        sequential.reverseMap(
+          { id: '7', amount: '1250', source: 'ledger' },
+          { customerId: 8 },
+        ),
+      ).toStrictEqual({ customerId: 8, balance: 12.5 });
+      expect(() => sequential.map({ customerId: 7, balance: 0.001 })).toThrow();
+      expect(() => sequential.toJSON()).toThrow(
+        'Composed plans that could not be merged can not be serialized',
+      );
+
+      // composing and inverting work together, in any order
+      expect(
+        compose(sequential.invert(), customerToAccount).map({
+          id: '7',
+          amount: '1250',
+          source: 'ledger',
+        }),
+      ).toStrictEqual({ account: { id: 7 }, cents: 1250 });
+      expect(
+        compose(accountToReport.invert(), customerToAccount.invert()).map({
+          id: '7',
+          amount: '1250',
+        }),
+      ).toStrictEqual({ customerId: 7, balance: 12.5 });
+    });
+
+    it('should validate the middle schema of composed plans that run one after the other', () => {
+      const TicketSchema = z.object({
+        status: z.string().default('new'),
+        count: z.coerce.number().int(),
+      });
+
+      const orderToTicket = compilePlan({
+        rules: [
+          { left: 'status', right: 'status' },
+          { left: 'count', right: 'count' },
+        ],
+        leftSchema: z.object({
+          status: z.string().optional(),
+          count: z.string(),
+        }),
+        rightSchema: TicketSchema,
+      });
+
+      const ticketToTask = compilePlan({
+        rules: [
+          { left: 'status', right: 'state' },
+          { left: 'count', right: 'total' },
+        ],
+        leftSchema: TicketSchema,
+        rightSchema: z.object({
+          state: z.string().optional(),
+          total: z.number(),
+        }),
+      });
+
+      const composed = compose(orderToTicket, ticketToTask, {
+        validateMiddle: true,
+      });
+
+      // the default and the coercion of the ticket schema apply in between
+      expect(composed.map({ count: '3' })).toStrictEqual(
+        ticketToTask.map(orderToTicket.map({ count: '3' })),
+      );
+      expect(composed.map({ count: '3' })).toStrictEqual({
+        state: 'new',
+        total: 3,
+      });
+
+      // and so do its checks
+      expect(() => orderToTicket.map({ count: '1.5' })).toThrow(z.ZodError);
+      expect(() => composed.map({ count: '1.5' })).toThrow(z.ZodError);
+
+      // the ticket schema is parsed once in between, not once for each plan
+      const parse = vi.spyOn(TicketSchema, 'parse');
+
+      composed.map({ count: '3' });
+
+      expect(parse).toHaveBeenCalledTimes(1);
+      parse.mockRestore();
+    });
+
+    it('should map with async transforms', async () => {
+      const names: Record<number, string> = { 1: 'Ann', 2: 'Bob' };
+      const ids: Record<string, number> = { Ann: 1, Bob: 2 };
+
+      // stands in for a lookup in a database or another service
+      const lookup = async <K extends string | number, V>(
+        table: Record<K, V>,
+        key: K,
+      ): Promise<V> => {
+        await new Promise((resolve) => setTimeout(resolve, 1));
+
+        return table[key];
+      };
+
+      const orderToInvoice = compilePlan({
+        rules: [
+          { left: 'id', right: 'number' },
+          {
+            left: 'customerId',
+            right: 'customer',
+            transform: {
+              toRight: (id: number) => lookup(names, id),
+              toLeft: (name: string) => lookup(ids, name),
+            },
+          },
+          {
+            left: 'sellerId',
+            right: 'seller',
+            transform: {
+              toRight: (id: number) => lookup(names, id),
+              toLeft: (name: string) => lookup(ids, name),
+            },
+          },
+        ],
+        leftSchema: z.object({
+          id: z.number(),
+          customerId: z.number(),
+          sellerId: z.number(),
+        }),
+        rightSchema: z.object({
+          number: z.number(),
+          customer: z.string(),
+          seller: z.string(),
+        }),
+      });
+
+      const order = { id: 9, customerId: 1, sellerId: 2 };
+      const invoice = { number: 9, customer: 'Ann', seller: 'Bob' };
+
+      expect(() => orderToInvoice.map(order)).toThrow(
+        'Rule 1: Transform returned a promise, use mapAsync()',
+      );
+      expect(
+        await orderToInvoice.mapAsync(order, undefined, { concurrency: 1 }),
+      ).toStrictEqual(invoice);
+      expect(
+        await orderToInvoice.reverseMapAsync(invoice, { id: 10 }),
+      ).toStrictEqual({ ...order, id: 10 });
+
+      // plans that run one after the other await each stage
+      const labelled = compose(
+        orderToInvoice,
+        compilePlan({
+          rules: [
+            { left: 'number', right: 'number' },
+            { left: 'customer', right: 'customer' },
+            { left: 'seller', right: 'seller' },
+            { right: 'label', literal: 'invoice' },
+          ],
+          leftSchema: z.object({
+            number: z.number(),
+            customer: z.string(),
+            seller: z.string(),
+          }),
+          rightSchema: z.object({
+            number: z.number(),
+            customer: z.string(),
+            seller: z.string(),
+            label: z.string(),
+          }),
+        }),
+      );
+
+      expect(
+        await labelled.mapAsync(order, { label: 'receipt' }),
+      ).toStrictEqual({ ...invoice, label: 'receipt' });
+      expect(
+        await labelled.reverseMapAsync(
+          { ...invoice, label: 'invoice' },
+          undefined,
+          { concurrency: 2 },
+        ),
+      ).toStrictEqual(order);
+
+      // sub-plans are mapped with their own async methods
+      const batchToInvoices = compilePlan({
+        rules: [{ left: 'orders', right: 'invoices', plan: orderToInvoice }],
+        leftSchema: z.object({ orders: z.array(z.any()) }),
+        rightSchema: z.object({ invoices: z.array(z.any()) }),
+      });
+
+      expect(
+        await batchToInvoices.mapAsync({ orders: [order, order] }),
+      ).toStrictEqual({ invoices: [invoice, invoice] });
+      expect(
+        await batchToInvoices.reverseMapAsync({ invoices: [invoice] }),
+      ).toStrictEqual({ orders: [order] });
+
+      const controller = new AbortController();
+
+      controller.abort(new Error('cancelled'));
+
+      await expect(
+        orderToInvoice.mapAsync(order, undefined, {
+          signal: controller.signal,
+        }),
+      ).rejects.toThrow('cancelled');
+    });
+
+    it('should map many records, in batches and as a stream', async () => {
+      const plan = compilePlan({
+        rules: [
+          { left: 'id', right: 'number' },
+          {
+            left: 'amount',
+            right: 'cents',
+            transform: {
+              toRight: (amount: number) => {
+                if (amount < 0) {
+                  throw new Error('negative amount');
+                }
+
+                return amount * 100;
+              },
+              toLeft: (cents: number) => cents / 100,
+            },
+          },
+          { right: 'source', literal: 'import' },
+        ],
+        leftSchema: z.object({ id: z.number(), amount: z.number() }),
+        rightSchema: z.object({
+          number: z.number(),
+          cents: z.number(),
+          source: z.string(),
+        }),
+      });
+
+      const records = [
+        { id: 1, amount: 1.5 },
+        { id: 2, amount: -1 },
+        { id: 3, amount: 2 },
+      ];
+      const mapped = [
+        { number: 1, cents: 150, source: 'import' },
+        { number: 3, cents: 200, source: 'import' },
+      ];
+
+      // records are mapped as they are iterated, any iterable will do
+      const read: number[] = [];
+      function* generate() {
+        for (const record of records) {
+          read.push(record.id);
+          yield record;
+        }
+      }
+
+      const many = plan.mapMany(generate(), undefined, { onError: () => {} });
+
+      expect(many.next().value).toStrictEqual(mapped[0]);
+      expect(read).toStrictEqual([1]);
+
+      const failed: [unknown, unknown, number][] = [];
+      const onError = (error: unknown, value: unknown, index: number) => {
+        failed.push([error, value, index]);
+      };
+
+      expect([...plan.mapMany(records, undefined, { onError })]).toStrictEqual(
+        mapped,
+      );
+      expect(failed).toStrictEqual([
+        [new Error('negative amount'), records[1], 1],
+      ]);
+      expect(() => [...plan.mapMany(records)]).toThrow('negative amount');
+      expect([
+        ...plan.mapMany([records[0]], { source: 'backfill' }),
+      ]).toStrictEqual([{ ...mapped[0], source: 'backfill' }]);
+
+      // a step of a stream pipeline
+      const streamed: unknown[] = [];
+      const streamFailed: number[] = [];
+      const collect = async (invoices: AsyncIterable<unknown>) => {
+        for await (const invoice of invoices) {
+          streamed.push(invoice);
+        }
+      };
+
+      await pipeline(
+        Readable.from(records),
+        plan.createMapStream(undefined, {
+          onError: (_error, _value, index) => streamFailed.push(index),
+        }),
+        collect,
+      );
+
+      expect(streamed).toStrictEqual(mapped);
+      expect(streamFailed).toStrictEqual([1]);
+
+      streamed.length = 0;
+
+      await expect(
+        pipeline(
+          Readable.from(records),
+          plan.createMapStream({ source: 'stream' }),
+          collect,
+        ),
+      ).rejects.toThrow('negative amount');
+      expect(streamed).toStrictEqual([{ ...mapped[0], source: 'stream' }]);
+
+      // any async iterable will do
+      async function* generateAsync() {
+        yield* records;
+      }
+
+      const mapStream = plan.createMapStream(undefined, { onError: () => {} });
+      const iterated: unknown[] = [];
+
+      for await (const invoice of mapStream(generateAsync())) {
+        iterated.push(invoice);
+      }
+
+      expect(iterated).toStrictEqual(mapped);
+    });
+
+    it('should map with code generated from the plan', async () => {
+      const params = {
+        rules: validMappingRules,
+        leftSchema: LeftObjectSchema,
+        rightSchema: RightObjectSchema,
+      };
+
+      const interpreted = compilePlan(params);
+      const generated = compilePlan({ ...params, codegen: true });
+
+      expect(generated.map(validLeftObject)).toStrictEqual(
+        interpreted.map(validLeftObject),
+      );
+      expect(generated.reverseMap(validRightObject)).toStrictEqual(
+        interpreted.reverseMap(validRightObject),
+      );
+
+      // tracing and collecting errors are left to the interpreter
+      const trace: TestMapping.RuleTrace[] = [];
+
+      generated.map(validLeftObject, undefined, { trace });
+      expect(trace).toHaveLength(validMappingRules.length);
+      expect(
+        generated.reverseMap(validRightObject, undefined, {
+          collectErrors: true,
+        }),
+      ).toStrictEqual(interpreted.reverseMap(validRightObject));
+      expect(
+        generated.map(validLeftObject, undefined, { variables: {} }),
+      ).toStrictEqual(interpreted.map(validLeftObject));
+      expect(
+        generated.reverseMap(validRightObject, undefined, { variables: {} }),
+      ).toStrictEqual(interpreted.reverseMap(validRightObject));
+
+      // generated ahead of time, then loaded as a module
+      const directory = mkdtempSync(join(tmpdir(), 'plan-'));
+      const file = join(directory, 'plan.mjs');
+
+      try {
+        writeFileSync(file, interpreted.toModule());
+
+        const module = (await import(
+          pathToFileURL(file).href
+        )) as TestMapping.GeneratedModule;
+        const loaded = compilePlan({ ...params, codegen: module });
+
+        expect(loaded.map(validLeftObject)).toStrictEqual(
+          interpreted.map(validLeftObject),
+        );
+        expect(() =>
+          compilePlan({
+            ...params,
+            rules: validMappingRules.slice(1),
+            codegen: module,
+          }),
+        ).toThrow('Generated code does not match the plan, generate it again');
+      } finally {
+        rmSync(directory, { recursive: true });
+      }
+
+      const sequential = compose(
+        interpreted,
+        compilePlan({
+          rules: [{ right: 'source', literal: 'import' }],
+          leftSchema: RightObjectSchema,
+          rightSchema: z.object({ source: z.string() }),
+        }),
+      );
+
+      expect(() => sequential.toModule()).toThrow(
+        'Composed plans that could not be merged can not be generated',
+      );
+    });
   });
 }
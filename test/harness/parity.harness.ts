@@ -0,0 +1,59 @@
+import { expect } from 'vitest';
+import { generateFunctions } from '../../src/mapping/codegen.js';
+import { map, MAP_DIRECTION } from '../../src/mapping/execute.js';
+import { MappingPlan } from '../../src/mapping/plan.js';
+import { PathVariables } from '../../src/mapping/parser/ast/variables.js';
+import { JSONType } from '../../src/types.js';
+
+interface Outcome {
+  result?: JSONType;
+  error?: string;
+}
+
+// what a backend made of a value, so the generated code can be held to the interpreter on errors too
+function outcome(run: () => JSONType): Outcome {
+  try {
+    return { result: run() };
+  } catch (e) {
+    return { error: (e as Error).message };
+  }
+}
+
+/**
+ * Expects the generated code of a plan to map exactly like the interpreter
+ * does, takes the same arguments as map() does.
+ *
+ * @return {Outcome} What the interpreter made of the input.
+ */
+export function expectParity(
+  input: JSONType,
+  plan: MappingPlan,
+  overrides?: JSONType,
+  direction = MAP_DIRECTION.LeftToRight,
+  variables?: PathVariables,
+): Outcome {
+  const generated = generateFunctions(plan);
+  const generatedMap =
+    direction === MAP_DIRECTION.LeftToRight
+      ? generated.toRight
+      : generated.toLeft;
+
+  // values are cloned, mapping may share parts of the input with the result
+  const expected = outcome(() =>
+    map(structuredClone(input), plan, structuredClone(overrides), direction, {
+      variables,
+    }),
+  );
+
+  expect(
+    outcome(() =>
+      generatedMap(
+        structuredClone(input),
+        structuredClone(overrides),
+        variables,
+      ),
+    ),
+  ).toStrictEqual(expected);
+
+  return expected;
+}
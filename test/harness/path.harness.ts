@@ -0,0 +1,282 @@
+import { describe, expect, it } from 'vitest';
+import { Path as TestPath } from '../../src/index.js';
+
+export function createTests(Path: typeof TestPath) {
+  const { parse, stringify, get, set } = Path;
+
+  const source = {
+    users: [
+      {
+        id: 1,
+        name: 'John',
+        active: true,
+        addresses: [
+          { type: 'billing', city: 'Austin' },
+          { type: 'shipping', city: 'Dallas' },
+        ],
+      },
+      {
+        id: 2,
+        name: 'Jane',
+        active: false,
+        addresses: [{ type: 'billing', city: 'Boston' }],
+      },
+    ],
+    'field.with.dots': { 'a b': 1 },
+  };
+
+  describe('Path', () => {
+    describe('parse()', () => {
+      it('should parse every kind of segment into plain nodes', () => {
+        expect(
+          parse(
+            "users[[0,10,2]][0].{id, full_name: name}.*..email[?(@.type == 'billing' && !@.hidden)]",
+          ),
+        ).toStrictEqual([
+          { type: 'field', name: 'users' },
+          { type: 'slice', start: 0, size: 10, stride: 2 },
+          { type: 'index', index: 0 },
+          {
+            type: 'fields',
+            fields: [
+              { name: 'id', alias: 'id' },
+              { name: 'name', alias: 'full_name' },
+            ],
+          },
+          { type: 'wildcard' },
+          { type: 'recursiveDescent', name: 'email' },
+          {
+            type: 'filter',
+            expression: {
+              type: 'logical',
+              left: {
+                type: 'comparison',
+                left: { type: 'field', path: ['type'] },
+                operator: '==',
+                right: { type: 'literal', value: 'billing' },
+              },
+              operator: '&&',
+              right: {
+                type: 'not',
+                expression: {
+                  type: 'truthy',
+                  operand: { type: 'field', path: ['hidden'] },
+                },
+              },
+            },
+          },
+        ]);
+      });
+
+      it('should produce nodes that survive a JSON round trip', () => {
+        const nodes = parse(`data["a.b"][[1]][[-1,-2]]`);
+
+        expect(
+          globalThis.JSON.parse(globalThis.JSON.stringify(nodes)),
+        ).toStrictEqual(nodes);
+        expect(nodes).toStrictEqual([
+          { type: 'field', name: 'data' },
+          { type: 'field', name: 'a.b' },
+          { type: 'slice', start: 1 },
+          { type: 'slice', start: -1, size: -2 },
+        ]);
+      });
+
+      it('should parse the empty path as the root', () => {
+        expect(parse('')).toStrictEqual([]);
+      });
+
+      it('should throw on invalid paths', () => {
+        expect(() => parse('users[abc]')).toThrow(
+          "Parse error at position 6: Expected integer, got 'a'",
+        );
+      });
+    });
+
+    describe('stringify()', () => {
+      it('should write the canonical form of a path', () => {
+        [
+          ['users', 'users'],
+          ['users[0].name', 'users[0].name'],
+          [`data['a.b']`, 'data["a.b"]'],
+          [`data.\\[x\\]`, 'data["[x]"]'],
+          ['users[[0,,2]]', 'users[[0,,2]]'],
+          ['users[[0,3,1]]', 'users[[0,3,1]]'],
+          ['{id,name: full_name}', '{id, name: full_name}'],
+          ['*.count', '*.count'],
+          ['a.*', 'a.*'],
+          ['headers.@entries', 'headers.@entries'],
+          [`users[ id = 'a' ]`, 'users[id="a"]'],
+          [`users['first name'=1]`, 'users["first name"=1]'],
+          ['labels.$locale[$i][ sku = $sku ]', 'labels.$locale[$i][sku=$sku]'],
+          ['\\$literal', '["$literal"]'],
+          ['..["e-mail address"]', '..["e-mail address"]'],
+          [
+            "items[?(@.price<10||@.tags[0]=='sale')]",
+            'items[?(@.price < 10 || @.tags[0] == "sale")]',
+          ],
+        ].forEach(([path, canonical]) => {
+          expect(stringify(parse(path))).toBe(canonical);
+          expect(stringify(parse(canonical))).toBe(canonical);
+        });
+      });
+
+      it('should write nodes built by hand', () => {
+        expect(
+          stringify([
+            { type: 'field', name: 'orders' },
+            {
+              type: 'filter',
+              expression: {
+                type: 'comparison',
+                left: { type: 'field', path: ['total'] },
+                operator: '>=',
+                right: { type: 'literal', value: 100 },
+              },
+            },
+            { type: 'field', name: 'id' },
+          ]),
+        ).toBe('orders[?(@.total >= 100)].id');
+      });
+
+      it('should throw on nodes that are not valid paths', () => {
+        expect(() => stringify([{ type: 'index', index: 1.5 }])).toThrow(
+          'Expected index to be an integer, got 1.5',
+        );
+      });
+    });
+
+    describe('get()', () => {
+      it('should read values with a path string', () => {
+        expect(get(source, 'users[1].name')).toBe('Jane');
+        expect(get(source, `["field.with.dots"]['a b']`)).toBe(1);
+        expect(
+          get(
+            source,
+            "users[?(@.active)].addresses[?(@.type == 'billing')].city",
+          ),
+        ).toStrictEqual([['Austin']]);
+        expect(get(source, 'users[5].name')).toBeUndefined();
+        expect(get(source, 'users[id=2].name')).toBe('Jane');
+      });
+
+      it('should read values with variables', () => {
+        expect(
+          get(source, 'users[id=$id].$field', { id: 1, field: 'name' }),
+        ).toBe('John');
+        expect(
+          get(
+            source,
+            [
+              { type: 'field', name: 'users' },
+              { type: 'indexVariable', variable: 'i' },
+              { type: 'field', name: 'id' },
+            ],
+            { i: -1 },
+          ),
+        ).toBe(2);
+        expect(() => get(source, 'users[$i]')).toThrow(
+          "Path 'users[$i]': Unbound variable '$i'",
+        );
+        expect(() =>
+          get(source, [{ type: 'fieldVariable', variable: 'field' }]),
+        ).toThrow("Path '$field': Unbound variable '$field'");
+      });
+
+      it('should read fields starting with "$" only when they are quoted or escaped', () => {
+        const schema = { $ref: '#/defs/user', $id: 'user' };
+
+        expect(get(schema, '["$ref"]')).toBe('#/defs/user');
+        expect(get(schema, '\\$ref')).toBe('#/defs/user');
+        expect(get(schema, '$id', { id: '$ref' })).toBe('#/defs/user');
+        expect(() => get(schema, '$ref', { id: 'x' })).toThrow(
+          "Path '$ref': Unbound variable '$ref'",
+        );
+        expect(set({}, '["$ref"]', 'x')).toStrictEqual({ $ref: 'x' });
+      });
+
+      it('should read values with path nodes', () => {
+        expect(
+          get(source, [
+            { type: 'field', name: 'users' },
+            { type: 'slice', start: 0 },
+            { type: 'field', name: 'id' },
+          ]),
+        ).toStrictEqual([1, 2]);
+      });
+    });
+
+    describe('set()', () => {
+      it('should write values with a path string', () => {
+        expect(set(undefined, 'a.b[0]', 'x')).toStrictEqual({
+          a: { b: ['x'] },
+        });
+        expect(
+          set({ users: [{ id: 1 }, { id: 2 }] }, 'users[[0]].name', ['a', 'b']),
+        ).toStrictEqual({
+          users: [
+            { id: 1, name: 'a' },
+            { id: 2, name: 'b' },
+          ],
+        });
+      });
+
+      it('should extend short arrays through strided slices counted from the start', () => {
+        expect(set([], '[[0,,2]]', [1, 2, 3])).toStrictEqual([
+          1,
+          undefined,
+          2,
+          undefined,
+          3,
+        ]);
+        expect(() => set([], '[[-1,,2]]', [1, 2, 3])).toThrow(
+          'Strided slice counted from the end can not extend the array: [[-1,,2]]',
+        );
+        expect(() => set([1, 2], '[[-1,,-2]]', [7, 8, 9])).toThrow(
+          'Strided slice counted from the end can not extend the array: [[-1,,-2]]',
+        );
+      });
+
+      it('should update or append elements picked by a key', () => {
+        const users = { users: [{ id: 1 }, { id: 2 }] };
+
+        expect(set(users, 'users[id=2].name', 'Jane')).toStrictEqual({
+          users: [{ id: 1 }, { id: 2, name: 'Jane' }],
+        });
+        expect(set(users, 'users[id=3].name', 'Bob')).toStrictEqual({
+          users: [{ id: 1 }, { id: 2 }, { name: 'Bob', id: 3 }],
+        });
+      });
+
+      it('should write values with variables', () => {
+        expect(
+          set({ users: [{ id: 1 }] }, 'users[id=$id].$field', 'John', {
+            id: 1,
+            field: 'name',
+          }),
+        ).toStrictEqual({ users: [{ id: 1, name: 'John' }] });
+      });
+
+      it('should write values with path nodes', () => {
+        expect(set({}, [{ type: 'field', name: 'a b' }], 1)).toStrictEqual({
+          'a b': 1,
+        });
+      });
+
+      it('should not modify the destination', () => {
+        const destination = { user: { name: 'John' } };
+
+        const result = set(destination, 'user.name', 'Jane');
+
+        expect(result).toStrictEqual({ user: { name: 'Jane' } });
+        expect(destination).toStrictEqual({ user: { name: 'John' } });
+      });
+
+      it('should throw on paths that can not be written', () => {
+        expect(() => set({}, '..email', 'x')).toThrow(
+          'Exception at ..email: Recursive descent paths can not be injected into',
+        );
+      });
+    });
+  });
+}
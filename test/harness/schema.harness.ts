@@ -1237,6 +1237,38 @@ export function createTests(Schema: typeof TestSchema) {
         ).toThrow("Parse error at position 11: Expected integer, got 'n'");
       });
 
+      it('should bind variables in the path', () => {
+        const obj = { labels: { en: 'Hello', fr: 'Bonjour' } };
+
+        expect(
+          extract(obj, 'labels.$locale', z.string(), {
+            variables: { locale: 'fr' },
+          }),
+        ).toBe('Bonjour');
+        expect(() => extract(obj, 'labels.$locale', z.string())).toThrow(
+          "Path 'labels.$locale': Unbound variable '$locale'",
+        );
+        expect(() =>
+          extract({ labels: { $locale: 'fr' } }, 'labels.$locale', z.string()),
+        ).toThrow("Path 'labels.$locale': Unbound variable '$locale'");
+
+        // quoted or escaped, "$locale" is a field
+        expect(
+          extract(
+            { labels: { $locale: 'fr' } },
+            'labels["$locale"]',
+            z.string(),
+          ),
+        ).toBe('fr');
+        expect(
+          extract(
+            { labels: { $locale: 'fr' } },
+            'labels.\\$locale',
+            z.string(),
+          ),
+        ).toBe('fr');
+      });
+
       it('should extract a property from a simple object', () => {
         const obj = { name: 'Alice', age: 25, active: true };
         const result = extract(obj, 'name', z.string());